@@ -37,5 +37,12 @@ export default tseslint.config(
         },
       ],
     },
+  },
+  {
+    // node:test's describe and it return promises the test runner awaits itself
+    files: ["**/*.test.ts"],
+    rules: {
+      "@typescript-eslint/no-floating-promises": "off",
+    },
   }
 );
@@ -6,7 +6,12 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { BuildLandingTool } from "./tools/build-landing.js";
 import { ListComponentsTool } from "./tools/list-components.js";
 import { GetComponentDetailsTool } from "./tools/get-component-details.js";
+import { CompareComponentsTool } from "./tools/compare-components.js";
+import { InstallComponentsTool } from "./tools/install-components.js";
+import { CheckComponentDriftTool } from "./tools/check-component-drift.js";
+import { ApplyComponentUsageTool } from "./tools/apply-component-usage.js";
 import { CloneFrontendTool } from "./tools/clone-frontend.js";
+import { InspectProjectTool } from "./tools/inspect-project.js";
 import { logConfig } from "./utils/config.js";
 
 const VERSION = "2.0.0";
@@ -19,6 +24,21 @@ const server = new McpServer({
 new ListComponentsTool().register(server);
 new GetComponentDetailsTool().register(server);
 
+// Register component comparison tool
+new CompareComponentsTool().register(server);
+
+// Register component installer tool
+new InstallComponentsTool().register(server);
+
+// Register component drift checker tool
+new CheckComponentDriftTool().register(server);
+
+// Register component usage codemod tool
+new ApplyComponentUsageTool().register(server);
+
+// Register project inspection tool
+new InspectProjectTool().register(server);
+
 // Register template tool
 new BuildLandingTool().register(server);
 
@@ -91,7 +111,9 @@ async function runServer() {
   try {
     await server.connect(transport);
     console.log(`✅ SuperUI MCP Server started successfully (PID: ${process.pid})`);
-    console.log(`🔧 Available tools: list_components, get_component_details, build_landing, clone_frontend`);
+    console.log(
+      `🔧 Available tools: list_components, get_component_details, compare_components, install_components, check_component_drift, apply_component_usage, inspect_project, build_landing, clone_frontend`
+    );
   } catch (error) {
     console.error(`💥 Fatal error starting server (PID: ${process.pid}):`, error);
     process.exit(1);
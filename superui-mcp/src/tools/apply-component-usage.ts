@@ -0,0 +1,222 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { BaseTool } from "../utils/base-tool.js";
+import { ComponentUsageEdit, planComponentUsage, USAGE_FILE_EXTENSIONS } from "../utils/component-usage.js";
+import { httpClient } from "../utils/http-client.js";
+import { detectPackageManager } from "../utils/package-manager.js";
+import { readProjectConfig } from "../utils/project-config.js";
+import { fetchProjectDiffs } from "../utils/project-diff.js";
+import { inspectProject } from "../utils/project-inspector.js";
+
+const TOOL_NAME = "apply_component_usage";
+const TOOL_DESCRIPTION = `
+Add a component's import statement and usage example to the current file.
+
+Gets the component's import statement and usage snippet (with the project's import aliases) from the API server, then edits the
+current .tsx/.jsx file with the TypeScript compiler API:
+- The import is added only when missing; named imports from a module the file already imports are merged into that import
+- The usage snippet is inserted at a marker comment (e.g. {/* superui:insert */} inside the JSX, replaced by the snippet)
+  or at a line (and optionally a column) between an element's opening and closing tags
+
+Returns a unified diff of the edit. Nothing is written unless apply=true, so review the patch first and call again with apply=true
+(or apply it by hand). Without marker and line, only the import is added.
+
+When to use this tool:
+- After get_component_details, to place the chosen component in the file the user is working on
+- After install_components, to start using the installed component
+
+The component itself is not installed; use install_components or the install command from get_component_details for that.
+`;
+
+/**
+ * Fields of the component guide (format="json") this tool uses
+ */
+interface ComponentUsageDetails {
+  componentName: string;
+  displayName: string;
+  installation: {
+    commands: string[];
+    installed: boolean;
+  };
+  imports: { statement: string };
+  usage: { code: string };
+}
+
+interface GetComponentDetailsResponse {
+  details?: ComponentUsageDetails | null;
+  suggestions?: Array<{ componentName: string }>;
+}
+
+export class ApplyComponentUsageTool extends BaseTool {
+  name = TOOL_NAME;
+  description = TOOL_DESCRIPTION;
+
+  schema = z.object({
+    componentName: z.string().describe("Exact component name from list_components (e.g., 'button', 'glow-button')"),
+    absolutePathToCurrentFile: z.string().describe("Absolute path to the .tsx or .jsx file the component is used in"),
+    absolutePathToProjectDirectory: z.string().describe("Absolute path to the project root directory"),
+    marker: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Text of the comment the usage replaces, e.g. 'superui:insert' for {/* superui:insert */}; must occur in exactly one comment"),
+    line: z.number().int().positive().optional().describe("1-based line to insert the usage at, when no marker is given"),
+    column: z.number().int().positive().optional().describe("1-based column on that line; defaults to the line's first non-blank character"),
+    apply: z.boolean().optional().describe("Write the edit to the file (default false: only return the patch)"),
+  });
+
+  async execute({
+    componentName,
+    absolutePathToCurrentFile,
+    absolutePathToProjectDirectory,
+    marker,
+    line,
+    column,
+    apply = false,
+  }: z.infer<typeof this.schema>) {
+    const relativePath = path.relative(absolutePathToProjectDirectory, absolutePathToCurrentFile).split(path.sep).join("/");
+
+    if (!USAGE_FILE_EXTENSIONS.includes(path.extname(absolutePathToCurrentFile)) || !existsSync(absolutePathToCurrentFile)) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Cannot edit ${absolutePathToCurrentFile}: expected an existing ${USAGE_FILE_EXTENSIONS.join(", ")} file.`,
+          },
+        ],
+      };
+    }
+
+    let details: ComponentUsageDetails;
+    try {
+      console.log(`🧩 ApplyComponentUsageTool executing for: ${componentName}`);
+      console.log(`📄 Current file: ${absolutePathToCurrentFile}`);
+
+      const { data } = await httpClient.post<GetComponentDetailsResponse>("/api/component/details", {
+        componentName,
+        absolutePathToCurrentFile,
+        absolutePathToProjectDirectory,
+        packageManager: detectPackageManager(absolutePathToProjectDirectory),
+        projectConfig: readProjectConfig(absolutePathToProjectDirectory),
+        projectInspection: inspectProject(absolutePathToProjectDirectory),
+        format: "json",
+      });
+
+      if (!data.details) {
+        const suggestions = data.suggestions?.map((suggestion) => suggestion.componentName) ?? [];
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Component "${componentName}" not found.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""} Use list_components to find component names.`,
+            },
+          ],
+        };
+      }
+      details = data.details;
+    } catch (error) {
+      console.error("❌ Error executing ApplyComponentUsageTool:", error);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `
+# Component Usage
+
+⚠️ **Could not get the component's import and usage**
+
+Make sure the SuperUI API server is running (http://localhost:3001) and the component name is correct.
+
+**Error Details:** ${error instanceof Error ? error.message : "Unknown error"}
+            `,
+          },
+        ],
+      };
+    }
+
+    const source = readFileSync(absolutePathToCurrentFile, "utf-8");
+    let edit: ComponentUsageEdit;
+    try {
+      edit = planComponentUsage({
+        filePath: relativePath,
+        source,
+        importStatement: details.imports.statement,
+        usage: details.usage.code,
+        location: marker || line ? { marker, line, column } : undefined,
+      });
+    } catch (error) {
+      console.error("❌ Error planning component usage:", error);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Could not insert ${details.displayName} into ${relativePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+      };
+    }
+
+    // The patch comes from the API server; without it nothing is written, since the edit could not be reviewed
+    let diff = "";
+    try {
+      [diff] = edit.changed ? await fetchProjectDiffs([{ path: relativePath, oldContent: source, newContent: edit.content }]) : [""];
+    } catch (error) {
+      console.error("❌ Error diffing component usage:", error);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Could not get the patch for ${relativePath} from the SuperUI API server, so nothing was written: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+      };
+    }
+
+    const applied = apply && edit.changed;
+    if (applied) {
+      writeFileSync(absolutePathToCurrentFile, edit.content);
+      console.log(`✅ Wrote ${relativePath}`);
+    }
+
+    const sections = [
+      `# Component Usage: ${details.displayName}`,
+      `**${relativePath}**: ${
+        !edit.changed ? "already up to date, nothing to change" : applied ? "patch applied" : "patch not applied; call again with apply=true to write it"
+      }`,
+      `## Imports\n\n${edit.imports
+        .map(
+          (change) =>
+            `- \`${change.module}\`: ${change.status === "present" ? "already imported" : `${change.status === "merged" ? "merged" : "added"} ${change.names.join(", ")}`}`
+        )
+        .join("\n")}`,
+      `## Usage\n\n${edit.usageLine === null ? "Not inserted; pass marker or line to place the usage snippet." : `Inserted at line ${edit.usageLine}.`}`,
+    ];
+
+    if (edit.warnings.length > 0) {
+      sections.push(`## ⚠️ Warnings\n\n${edit.warnings.map((warning) => `- ${warning}`).join("\n")}`);
+    }
+    if (diff) {
+      sections.push(`## Patch\n\n\`\`\`diff\n${diff}\n\`\`\``);
+    }
+    if (!details.installation.installed && details.installation.commands.length > 0) {
+      sections.push(`## Installation\n\n${details.componentName} is not installed yet:\n\n\`\`\`bash\n${details.installation.commands.join("\n")}\n\`\`\``);
+    }
+
+    const structuredContent = {
+      edit: { path: relativePath, diff, imports: edit.imports, usageLine: edit.usageLine, warnings: edit.warnings, applied },
+    };
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: sections.join("\n\n"),
+        },
+      ],
+      structuredContent,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { BaseTool } from "../utils/base-tool.js";
 import { httpClient } from "../utils/http-client.js";
+import { detectPackageManager, getPackageRunner } from "../utils/package-manager.js";
 
 const TOOL_NAME = "build_landing";
 const TOOL_DESCRIPTION = `
@@ -67,6 +68,8 @@ export class BuildLandingTool extends BaseTool {
     absolutePathToProjectDirectory,
     standaloneRequestQuery,
   }: z.infer<typeof this.schema>) {
+    const packageManager = detectPackageManager(absolutePathToProjectDirectory);
+
     try {
       console.log(`🎨 BuildLandingTool executing for: ${message}`);
       console.log(`📁 Project: ${absolutePathToProjectDirectory}`);
@@ -81,6 +84,7 @@ export class BuildLandingTool extends BaseTool {
           absolutePathToCurrentFile,
           absolutePathToProjectDirectory,
           standaloneRequestQuery,
+          packageManager,
         }
       );
 
@@ -110,9 +114,7 @@ The SuperUI API server is not responding. Here's a manual template creation guid
 ### Manual Template Creation
 \`\`\`bash
 cd ${absolutePathToProjectDirectory}
-pnpm dlx shadcn add @tailark/hero-section-1
-pnpm dlx shadcn add @tailark/features-1
-pnpm dlx shadcn add @tailark/pricing-1
+${getPackageRunner(packageManager)} shadcn@latest add @tailark/hero-section-1 @tailark/features-1 @tailark/pricing-1
 \`\`\`
 
 ### Available Tailark Components
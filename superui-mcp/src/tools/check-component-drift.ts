@@ -0,0 +1,226 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { BaseTool } from "../utils/base-tool.js";
+import { httpClient } from "../utils/http-client.js";
+import { readProjectConfig } from "../utils/project-config.js";
+import { COMPONENT_EXTENSIONS, findUiDirectory, inspectProject } from "../utils/project-inspector.js";
+
+const TOOL_NAME = "check_component_drift";
+const TOOL_DESCRIPTION = `
+Check which installed UI components diverged from upstream.
+
+Reads the component files in the project's ui directory (from components.json and tsconfig paths, e.g. src/components/ui)
+and compares each one with the versions of its registry item recorded in the API server's registry cache. Every file is reported as:
+- unchanged: identical to the current registry version
+- outdated: identical to an older registry version; the upstream diff since that version is included
+- modified: edited locally; a three-way diff shows the local changes and the upstream changes since the version it was edited from,
+  plus the local edits merged into the current version (with conflict markers where both changed the same lines)
+- unknown: not a registry component, or its registry item is not cached
+
+When to use this tool:
+- Before upgrading components, to see which ones can be reinstalled safely and which carry local customizations
+- When the user asks which components are out of date or were changed
+
+Set componentNames to check only those components (e.g. ['button', 'dialog']). Nothing is written; use install_components with overwrite=true
+to update unchanged or outdated components, and apply the merged result by hand for modified ones.
+`;
+
+type DriftStatus = "unchanged" | "outdated" | "modified" | "unknown";
+
+interface DriftVersion {
+  hash: string;
+  revision?: string;
+}
+
+interface FileDrift {
+  path: string;
+  componentName: string | null;
+  item: string | null;
+  status: DriftStatus;
+  reason?: string;
+  installedVersion?: DriftVersion;
+  currentVersion?: DriftVersion;
+  diff?: string;
+  threeWay?: {
+    localDiff: string;
+    upstreamDiff: string;
+    merged: string;
+    conflicts: number;
+  };
+}
+
+interface ComponentDriftReport {
+  files: FileDrift[];
+  summary: Record<DriftStatus, number>;
+  truncated: boolean;
+  notChecked: string[];
+}
+
+interface CheckComponentDriftResponse {
+  drift: ComponentDriftReport;
+  metadata: {
+    fileCount: number;
+    timestamp: string;
+    version: string;
+  };
+}
+
+/**
+ * Format a registry version for the report
+ * @param version - Version hash and revision
+ * @returns Revision with a short hash, or the short hash
+ */
+const formatVersion = (version?: DriftVersion): string =>
+  !version ? "unknown" : version.revision ? `${version.revision} (${version.hash.slice(0, 7)})` : version.hash.slice(0, 7);
+
+export class CheckComponentDriftTool extends BaseTool {
+  name = TOOL_NAME;
+  description = TOOL_DESCRIPTION;
+
+  schema = z.object({
+    absolutePathToProjectDirectory: z.string().describe("Absolute path to the project root directory"),
+    componentNames: z
+      .array(z.string())
+      .optional()
+      .describe("Only check these components (file names in the ui directory, e.g. ['button', 'dialog']); all ui files are checked when omitted"),
+  });
+
+  async execute({ absolutePathToProjectDirectory, componentNames }: z.infer<typeof this.schema>) {
+    const uiDirectory = findUiDirectory(absolutePathToProjectDirectory);
+
+    if (!uiDirectory) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `No ui components directory found in ${absolutePathToProjectDirectory}. Run inspect_project to check the project setup; components are usually installed to src/components/ui.`,
+          },
+        ],
+      };
+    }
+
+    try {
+      const files = this.readComponentFiles(absolutePathToProjectDirectory, uiDirectory, componentNames);
+      console.log(`🔎 CheckComponentDriftTool executing for ${files.length} files in ${uiDirectory}`);
+
+      if (files.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `No component files${componentNames?.length ? ` named ${componentNames.join(", ")}` : ""} in ${uiDirectory}.`,
+            },
+          ],
+        };
+      }
+
+      const { data } = await httpClient.post<CheckComponentDriftResponse>("/api/component/drift", {
+        files,
+        projectConfig: readProjectConfig(absolutePathToProjectDirectory),
+        projectInspection: inspectProject(absolutePathToProjectDirectory),
+      });
+      const { drift } = data;
+
+      console.log(`✅ Drift checked for ${drift.files.length} files`);
+
+      const byStatus = (status: DriftStatus) => drift.files.filter((file) => file.status === status);
+      const sections = [
+        "# Component Drift",
+        `**${uiDirectory}**: ${drift.summary.unchanged} unchanged, ${drift.summary.outdated} outdated, ${drift.summary.modified} locally modified, ${drift.summary.unknown} unknown`,
+      ];
+
+      if (drift.truncated) {
+        sections.push(
+          `## ⚠️ Partial Check\n\nOnly ${drift.files.length} of ${files.length} files were checked; ${drift.notChecked.length} were not and may have drifted. Call again with componentNames to check the rest:\n\n${drift.notChecked.map((filePath) => `- \`${filePath}\``).join("\n")}`
+        );
+      }
+
+      const modified = byStatus("modified");
+      if (modified.length > 0) {
+        sections.push(
+          `## ✏️ Locally Modified\n\n${modified
+            .map((file) => {
+              const threeWay = file.threeWay;
+              const upstream = threeWay?.upstreamDiff
+                ? `Upstream changes since then (current: ${formatVersion(file.currentVersion)}):\n\n\`\`\`diff\n${threeWay.upstreamDiff}\n\`\`\`\n\nMerged${threeWay.conflicts > 0 ? ` (${threeWay.conflicts} conflicts)` : ""}:\n\n\`\`\`tsx\n${threeWay.merged}\`\`\``
+                : "Upstream has not changed since then.";
+              return `### ${file.componentName ?? file.path}\n\n\`${file.path}\`, edited from ${formatVersion(file.installedVersion)}.\n\nLocal changes:\n\n\`\`\`diff\n${threeWay?.localDiff ?? ""}\n\`\`\`\n\n${upstream}`;
+            })
+            .join("\n\n")}`
+        );
+      }
+
+      const outdated = byStatus("outdated");
+      if (outdated.length > 0) {
+        sections.push(
+          `## ⬆️ Outdated\n\n${outdated
+            .map(
+              (file) =>
+                `### ${file.componentName ?? file.path}\n\n\`${file.path}\`: ${formatVersion(file.installedVersion)} → ${formatVersion(file.currentVersion)}. No local changes, safe to reinstall.\n\n\`\`\`diff\n${file.diff ?? ""}\n\`\`\``
+            )
+            .join("\n\n")}`
+        );
+      }
+
+      const unchanged = byStatus("unchanged");
+      if (unchanged.length > 0) {
+        sections.push(
+          `## ✅ Unchanged\n\n${unchanged.map((file) => `- ${file.componentName ?? file.path} (${formatVersion(file.currentVersion)})`).join("\n")}`
+        );
+      }
+
+      const unknown = byStatus("unknown");
+      if (unknown.length > 0) {
+        sections.push(`## ❓ Unknown\n\n${unknown.map((file) => `- \`${file.path}\`: ${file.reason ?? "cannot be checked"}`).join("\n")}`);
+      }
+
+      const structuredContent = { drift };
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: sections.join("\n\n"),
+          },
+        ],
+        structuredContent,
+      };
+    } catch (error) {
+      console.error("❌ Error executing CheckComponentDriftTool:", error);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `
+# Component Drift
+
+⚠️ **Could not check component drift**
+
+Make sure the SuperUI API server is running (http://localhost:3001) and its registry cache is filled (\`npm run registry:cache\`).
+
+**Error Details:** ${error instanceof Error ? error.message : "Unknown error"}
+            `,
+          },
+        ],
+      };
+    }
+  }
+
+  /**
+   * Read the component files of the ui directory
+   * @param projectDirectory - Project root
+   * @param uiDirectory - ui directory relative to the project root
+   * @param componentNames - Only read files with these names
+   * @returns Project-relative paths (forward slashes) and contents
+   */
+  private readComponentFiles(projectDirectory: string, uiDirectory: string, componentNames?: string[]): Array<{ path: string; content: string }> {
+    return readdirSync(path.join(projectDirectory, uiDirectory), { withFileTypes: true })
+      .filter((entry) => entry.isFile() && COMPONENT_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith(".d.ts"))
+      .filter((entry) => !componentNames?.length || componentNames.includes(path.basename(entry.name, path.extname(entry.name))))
+      .map((entry) => ({
+        path: path.join(uiDirectory, entry.name).split(path.sep).join("/"),
+        content: readFileSync(path.join(projectDirectory, uiDirectory, entry.name), "utf-8"),
+      }));
+  }
+}
@@ -1,6 +1,9 @@
 import { z } from "zod";
 import { BaseTool } from "../utils/base-tool.js";
 import { httpClient } from "../utils/http-client.js";
+import { detectPackageManager } from "../utils/package-manager.js";
+import { readProjectConfig } from "../utils/project-config.js";
+import { inspectProject } from "../utils/project-inspector.js";
 
 const TOOL_NAME = "clone_frontend";
 const TOOL_DESCRIPTION = `
@@ -60,7 +63,7 @@ type ComponentInfo = {
   description: string;
   category: string;
   tags: string[];
-  library?: "shadcn-ui" | "shadcn-ai" | "shadcn-button" | "shadcn-text";
+  library?: string;
   installCommand?: string;
   documentationUrl?: string;
 };
@@ -116,6 +119,11 @@ export class CloneFrontendTool extends BaseTool {
       .describe("Screenshot capture options (fullPage, viewport width/height, selector to wait for, delay)"),
 
     context: z.string().optional().describe("Additional context for the request"),
+
+    absolutePathToProjectDirectory: z
+      .string()
+      .optional()
+      .describe("Absolute path to the project root directory (used to render install commands and imports for the project's package manager and aliases)"),
   });
 
   async execute(args: z.infer<typeof this.schema>) {
@@ -133,6 +141,9 @@ export class CloneFrontendTool extends BaseTool {
         iteration: args.iteration || 1,
         screenshotOptions: args.screenshotOptions,
         context: args.context,
+        packageManager: detectPackageManager(args.absolutePathToProjectDirectory),
+        projectConfig: readProjectConfig(args.absolutePathToProjectDirectory),
+        projectInspection: args.absolutePathToProjectDirectory ? inspectProject(args.absolutePathToProjectDirectory) : undefined,
       });
 
       console.log(`✅ Clone request successful: ${args.requestType}`);
@@ -0,0 +1,141 @@
+import { z } from "zod";
+import { BaseTool } from "../utils/base-tool.js";
+import { httpClient } from "../utils/http-client.js";
+
+const TOOL_NAME = "compare_components";
+const TOOL_DESCRIPTION = `
+Compare two to five similar UI components side by side before choosing one.
+
+When to use this tool:
+- list_components returned several close candidates (e.g. glow-button, shimmer-button, neon-button)
+- You need to pick the lightest option, or one that works without JavaScript animation
+- The user asks how two components differ
+
+The tool returns a matrix with one column per component:
+- Library (shadcn/ui, shadcn-ai, shadcn-button, shadcn-text)
+- Component dependencies and npm packages (including those of its dependencies)
+- Animation technique (JavaScript animation library, CSS only, or none)
+- Bundle weight (none, light, medium or heavy, from its heaviest runtime package)
+- Accessibility notes (Radix primitives, reduced motion, pointer-only effects)
+- Recommended use and the tags that set each component apart
+
+Set format="json" to get the comparison as a typed object returned as structured content.
+
+Example workflow:
+1. Call list_components(query="animated button")
+2. Call compare_components(componentNames=["glow-button", "shimmer-button", "magnetic-button"])
+3. Call get_component_details(componentName=<the chosen component>)
+`;
+
+/**
+ * Side-by-side comparison as data (format="json")
+ */
+interface ComponentComparison {
+  components: Array<{
+    componentName: string;
+    displayName: string;
+    library: string;
+    category: string;
+    dependencies: { components: string[]; npmPackages: string[] };
+    animation: { technique: "js" | "css" | "none"; library: string | null; summary: string };
+    bundleWeight: {
+      tier: "none" | "light" | "medium" | "heavy";
+      packages: Array<{ name: string; tier: string }>;
+    };
+    accessibility: string[];
+    recommendedUse: string;
+    distinctiveTags: string[];
+  }>;
+  matrix: Array<{ attribute: string; values: string[] }>;
+}
+
+interface CompareComponentsResponse {
+  /** Markdown table (format="markdown") */
+  result?: string;
+  /** Structured comparison (format="json") */
+  comparison?: ComponentComparison;
+  metadata: {
+    componentNames: string[];
+    format: "markdown" | "json";
+    timestamp: string;
+    version: string;
+  };
+}
+
+export class CompareComponentsTool extends BaseTool {
+  name = TOOL_NAME;
+  description = TOOL_DESCRIPTION;
+
+  schema = z.object({
+    componentNames: z
+      .array(z.string())
+      .min(2)
+      .max(5)
+      .describe("Two to five exact component names from list_components (e.g., ['glow-button', 'shimmer-button', 'neon-button'])"),
+    format: z
+      .enum(["markdown", "json"])
+      .optional()
+      .describe("Response format: 'markdown' (default) for a comparison table, 'json' for a typed object returned as structured content"),
+  });
+
+  async execute({ componentNames, format = "markdown" }: z.infer<typeof this.schema>) {
+    try {
+      console.log(`⚖️ CompareComponentsTool executing for: ${componentNames.join(", ")}`);
+
+      const { data } = await httpClient.post<CompareComponentsResponse>("/api/component/compare", {
+        componentNames,
+        format,
+      });
+
+      console.log(`✅ Compared ${data.metadata.componentNames.length} components`);
+
+      if (format === "json") {
+        const structuredContent = { comparison: data.comparison ?? null };
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(structuredContent, null, 2),
+            },
+          ],
+          structuredContent,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: data.result ?? "",
+          },
+        ],
+      };
+    } catch (error) {
+      console.error("❌ Error executing CompareComponentsTool:", error);
+
+      // Unknown names come back as a 404 whose body (in the error message) suggests close matches
+      const fallbackResponse = `
+# Component Comparison
+
+⚠️ **Comparison Unavailable**
+
+Either a component name is unknown or the SuperUI API server is not responding.
+
+1. Check the component names with list_components
+2. Make sure the SuperUI API server is running (http://localhost:3001)
+3. Try the request again, or use get_component_details to look at each component on its own
+
+**Error Details:** ${error instanceof Error ? error.message : "Unknown error"}
+      `;
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: fallbackResponse,
+          },
+        ],
+      };
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Behaviour checks for get_component_details requests the API server rejects
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it, mock } from "node:test";
+import { GetComponentDetailsTool } from "./get-component-details.js";
+
+describe("get_component_details", () => {
+  const tool = new GetComponentDetailsTool();
+  let projectDirectory: string;
+
+  before(() => {
+    mock.method(console, "log", () => undefined);
+    mock.method(console, "error", () => undefined);
+    projectDirectory = mkdtempSync(path.join(tmpdir(), "superui-details-"));
+  });
+
+  after(() => {
+    mock.restoreAll();
+    rmSync(projectDirectory, { recursive: true, force: true });
+  });
+
+  it("accepts at most as many componentNames as the server does", () => {
+    const request = { absolutePathToCurrentFile: "", absolutePathToProjectDirectory: projectDirectory };
+    assert.equal(tool.schema.safeParse({ ...request, componentNames: Array.from({ length: 20 }, (_, index) => `c${index}`) }).success, true);
+    assert.equal(tool.schema.safeParse({ ...request, componentNames: Array.from({ length: 21 }, (_, index) => `c${index}`) }).success, false);
+  });
+
+  it("shows the server's message when it rejects the request instead of the offline guide", async () => {
+    mock.method(globalThis, "fetch", () =>
+      Promise.resolve(new Response(JSON.stringify({ error: "Invalid request: componentNames: at most 20 components per request" }), { status: 400 }))
+    );
+
+    const { content } = await tool.execute({
+      componentName: "button",
+      componentNames: ["card"],
+      absolutePathToCurrentFile: path.join(projectDirectory, "page.tsx"),
+      absolutePathToProjectDirectory: projectDirectory,
+    });
+
+    const [first] = content;
+    assert.equal(first.type, "text");
+    assert.equal(
+      first.type === "text" && first.text,
+      "The SuperUI API server rejected the request: Invalid request: componentNames: at most 20 components per request"
+    );
+  });
+});
@@ -1,8 +1,15 @@
 import { z } from "zod";
 import { BaseTool } from "../utils/base-tool.js";
-import { httpClient } from "../utils/http-client.js";
+import { PreviewBatch, toPreviewContent, toPreviewRequest } from "../utils/component-previews.js";
+import { HttpError, httpClient } from "../utils/http-client.js";
+import { detectPackageManager, getPackageRunner, PackageManager } from "../utils/package-manager.js";
+import { readProjectConfig } from "../utils/project-config.js";
+import { inspectProject } from "../utils/project-inspector.js";
 
 const TOOL_NAME = "get_component_details";
+
+/** Components per componentNames request; the API server rejects larger batches */
+const DETAILS_BATCH_LIMIT = 20;
 const TOOL_DESCRIPTION = `
 Get detailed information about a specific UI component including installation commands, import statements, and usage examples.
 
@@ -17,20 +24,33 @@ When to use this tool:
 - Before actually installing the component with npx
 
 The tool will return:
-- Complete installation command (npx shadcn@latest add ...)
-- Installation path information
-- Import statement (exact code to import the component)
+- Whether the component (or any of its dependencies) is already installed in the project
+- Complete installation command (skipping already installed components) for the project's package manager (npx, pnpm dlx or bunx shadcn@latest add ...)
+- Installation path information (from the project's components.json aliases and tsconfig paths when present)
+- Import statement (exact code to import the component, using the project's aliases such as @/, ~/ or #components)
 - Basic usage example (example code)
+- Named, complete examples (e.g. "controlled", "with react-hook-form", "disabled state")
+- API reference: exported parts (e.g. SelectTrigger, SelectContent) with a props table of types, defaults and allowed variant values; when the catalog has none, the guide says so instead of listing props
 - Component details (name, package, category, tags)
 - Documentation links
 - Pro tips and best practices
 
+Set format="json" to get the same guide as a typed object (installation commands and paths, imports, usage, API reference, docs URL, dependencies, tips). It is returned as structured content alongside its JSON text, for tooling that should not parse markdown.
+
+Set previews="light", "dark" or "both" to attach rendered thumbnails of the component's usage example as images, to check how it looks before installing it.
+
+Building a page from several components? Pass componentNames=["card", "form", "input", "button"] instead of calling this tool once per component. You get every component's usage plus one merged, deduplicated install command and one combined import block for the set (scenario and previews apply to single components only).
+
+Need a reproducible install? Set cliVersion (e.g. "2.10.0") to run that shadcn CLI version instead of shadcn@latest, and registryRevision (a revision label or version hash recorded by the server, see GET /api/component/:name/versions) to add every component at its version from that revision. Components without a version at that revision are added at their current version and listed as unpinned.
+
+Set scenario to what you are building (e.g. "with react-hook-form", "controlled", "with icon") to get only the example that fits it; when none matches, every example is returned.
+
 Example workflow:
 1. Call list_components(query="glow button")
 2. Review results and choose "glow-button"
 3. Call get_component_details(componentName="glow-button")
 4. Use the returned installation command to install
-5. Copy the import statement and usage example
+5. Copy the import statement and usage example, or call apply_component_usage to add them to the current file
 
 Supported component names:
 - Basic shadcn/ui: button, input, dialog, card, tabs, etc.
@@ -39,10 +59,125 @@ Supported component names:
 - Text components: gradient-text, typing-text, counting-number, etc.
 `;
 
+/**
+ * Installation guide as data (format="json")
+ */
+interface ComponentDetails {
+  componentName: string;
+  displayName: string;
+  description: string;
+  category: string;
+  library: string;
+  packageName: string;
+  tags: string[];
+  installation: {
+    commands: string[];
+    projectPath: string;
+    installPath: string;
+    installable: boolean;
+    installed: boolean;
+    alreadyInstalled: string[];
+    packageManager: string;
+    pin: InstallPin;
+    unpinned: string[];
+  };
+  imports: { statement: string; language: "tsx" | "jsx" };
+  usage: { code: string; language: "tsx" | "jsx" };
+  api: {
+    parts: Array<{
+      name: string;
+      description?: string;
+      extends?: string;
+      props?: Array<{
+        name: string;
+        type: string;
+        default?: string;
+        required?: boolean;
+        values?: string[];
+        description?: string;
+      }>;
+    }>;
+  } | null;
+  examples: Array<{
+    name: string;
+    description?: string;
+    tags?: string[];
+    code: string;
+  }>;
+  scenario?: { query: string; matched: boolean };
+  dependencies: {
+    components: Array<{ componentName: string; requiredBy: string[]; installed: boolean }>;
+    npmPackages: string[];
+    unresolved: string[];
+  };
+  docs: { url: string; resources: Array<{ title: string; url: string }> };
+  tips: string[];
+  version: { revision?: string; hash: string; recordedAt?: string } | null;
+}
+
+/**
+ * CLI version and registry revision install commands are rendered with
+ */
+interface InstallPin {
+  cliVersion: string;
+  registryRevision: string | null;
+}
+
+interface ComponentSuggestion {
+  componentName: string;
+  displayName: string;
+  description: string;
+  category: string;
+  similarity: number;
+}
+
+/**
+ * Combined guide for several components (componentNames)
+ */
+interface ComponentDetailsBatch {
+  components: ComponentDetails[];
+  installation: {
+    commands: string[];
+    projectPath: string;
+    packageManager: string;
+    alreadyInstalled: string[];
+    npmPackages: string[];
+    unresolved: string[];
+    pin: InstallPin;
+    unpinned: string[];
+  };
+  imports: { statement: string; language: "tsx" | "jsx" };
+  notFound: Array<{ componentName: string; suggestions: ComponentSuggestion[] }>;
+}
+
+interface GetComponentDetailsBatchResponse {
+  /** Markdown guide (format="markdown") */
+  result?: string;
+  /** Structured guide (format="json") */
+  batch?: ComponentDetailsBatch;
+  notFound?: ComponentDetailsBatch["notFound"];
+  metadata: {
+    componentNames: string[];
+    format: "markdown" | "json";
+    packageManager?: string;
+    timestamp: string;
+    version: string;
+  };
+}
+
 interface GetComponentDetailsResponse {
-  result: string;
+  /** Markdown guide (format="markdown") */
+  result?: string;
+  /** Structured guide (format="json"); null when the name is unknown */
+  details?: ComponentDetails | null;
+  suggestions?: ComponentSuggestion[];
+  /** Thumbnails, when previews were requested */
+  previews?: PreviewBatch;
   metadata: {
     componentName: string;
+    format: "markdown" | "json";
+    scenario?: string;
+    packageManager?: string;
     timestamp: string;
     version: string;
   };
@@ -55,8 +190,16 @@ export class GetComponentDetailsTool extends BaseTool {
   schema = z.object({
     componentName: z
       .string()
+      .optional()
       .describe(
-        "Exact component name from list_components (e.g., 'button', 'glow-button', 'ai-chat', 'gradient-text')"
+        "Exact component name from list_components (e.g., 'button', 'glow-button', 'ai-chat', 'gradient-text'). Required unless componentNames is given"
+      ),
+    componentNames: z
+      .array(z.string())
+      .max(DETAILS_BATCH_LIMIT)
+      .optional()
+      .describe(
+        `Several exact component names to get in one call (at most ${DETAILS_BATCH_LIMIT}), with one merged install command and import block (e.g., ['card', 'form', 'button'])`
       ),
     absolutePathToCurrentFile: z
       .string()
@@ -66,19 +209,71 @@ export class GetComponentDetailsTool extends BaseTool {
     absolutePathToProjectDirectory: z
       .string()
       .describe("Absolute path to the project root directory"),
+    format: z
+      .enum(["markdown", "json"])
+      .optional()
+      .describe(
+        "Response format: 'markdown' (default) for a readable guide, 'json' for a typed object returned as structured content"
+      ),
+    scenario: z
+      .string()
+      .optional()
+      .describe(
+        "Usage scenario selecting the best matching example (e.g., 'with react-hook-form', 'controlled', 'disabled state'); all examples are returned when omitted or unmatched"
+      ),
+    previews: z
+      .enum(["light", "dark", "both"])
+      .optional()
+      .describe("Attach rendered preview thumbnails of the component as images in the light theme, dark theme or both"),
+    cliVersion: z
+      .string()
+      .regex(/^\w[\w.+-]*$/)
+      .optional()
+      .describe("shadcn CLI version or dist-tag the install command runs (e.g. '2.10.0'); defaults to the server's setting, usually 'latest'"),
+    registryRevision: z
+      .string()
+      .regex(/^\w[\w./+-]*$/)
+      .optional()
+      .describe("Registry revision to install the components at: a revision label or version hash recorded by the server, or 'current'"),
   });
 
   async execute({
     componentName,
+    componentNames,
     absolutePathToCurrentFile,
     absolutePathToProjectDirectory,
+    format = "markdown",
+    scenario,
+    previews,
+    cliVersion,
+    registryRevision,
   }: z.infer<typeof this.schema>) {
+    const packageManager = detectPackageManager(absolutePathToProjectDirectory);
+    const pin = cliVersion || registryRevision ? { cliVersion, registryRevision } : undefined;
+    const names = [...new Set([...(componentName ? [componentName] : []), ...(componentNames ?? [])])];
+
+    if (names.length === 0) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: "Provide componentName, or componentNames for several components. Use list_components to find component names.",
+          },
+        ],
+      };
+    }
+
     try {
       console.log(
-        `📦 GetComponentDetailsTool executing for: ${componentName}`
+        `📦 GetComponentDetailsTool executing for: ${names.join(", ")}`
       );
       console.log(`📁 Project: ${absolutePathToProjectDirectory}`);
       console.log(`📄 Current file: ${absolutePathToCurrentFile}`);
+      console.log(`🧰 Package manager: ${packageManager ?? "unknown (server default)"}`);
+
+      if (componentNames?.length) {
+        return await this.executeBatch(names, absolutePathToCurrentFile, absolutePathToProjectDirectory, packageManager, format, pin);
+      }
 
       // Call the API server
       const { data } = await httpClient.post<GetComponentDetailsResponse>(
@@ -87,27 +282,61 @@ export class GetComponentDetailsTool extends BaseTool {
           componentName,
           absolutePathToCurrentFile,
           absolutePathToProjectDirectory,
+          packageManager,
+          projectConfig: readProjectConfig(absolutePathToProjectDirectory),
+          projectInspection: inspectProject(absolutePathToProjectDirectory),
+          format,
+          scenario,
+          previews: toPreviewRequest(previews),
+          pin,
         }
       );
 
       console.log(`✅ Component details retrieved successfully`);
 
+      if (format === "json") {
+        const structuredContent = { details: data.details ?? null, suggestions: data.suggestions ?? [] };
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(structuredContent, null, 2),
+            },
+            ...toPreviewContent(data.previews),
+          ],
+          structuredContent,
+        };
+      }
+
       return {
         content: [
           {
             type: "text" as const,
-            text: data.result,
+            text: data.result ?? "",
           },
+          ...toPreviewContent(data.previews),
         ],
       };
     } catch (error) {
       console.error("❌ Error executing GetComponentDetailsTool:", error);
 
+      // The server understood the request and refused it: a manual guide would hide what to fix
+      if (error instanceof HttpError && error.status >= 400 && error.status < 500) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `The SuperUI API server rejected the request: ${error.serverMessage ?? error.message}`,
+            },
+          ],
+        };
+      }
+
       // Provide fallback response if API server is not available
       const fallbackResponse = `
 # Component Installation Guide
 
-## Component: ${componentName}
+## Component: ${names.join(", ")}
 
 ⚠️ **API Server Unavailable**
 
@@ -117,16 +346,16 @@ The SuperUI API server is not responding. Here's a basic installation guide:
 
 \`\`\`bash
 cd ${absolutePathToProjectDirectory}
-npx shadcn@latest add ${componentName}
+${getPackageRunner(packageManager)} shadcn@${cliVersion ?? "latest"} add ${names.join(" ")}
 \`\`\`
 
 ### Basic Usage
 
 \`\`\`tsx
-import { ${this.capitalizeFirst(componentName)} } from "@/components/ui/${componentName}";
+${names.map((name) => `import { ${this.capitalizeFirst(name)} } from "@/components/ui/${name}";`).join("\n")}
 
-// Use the component in your JSX
-<${this.capitalizeFirst(componentName)} />
+// Use the components in your JSX
+${names.map((name) => `<${this.capitalizeFirst(name)} />`).join("\n")}
 \`\`\`
 
 ### Next Steps
@@ -140,7 +369,7 @@ import { ${this.capitalizeFirst(componentName)} } from "@/components/ui/${compon
 
 ### Documentation Resources
 
-- [shadcn/ui Documentation](https://ui.shadcn.com/docs/components/${componentName})
+${names.map((name) => `- [shadcn/ui Documentation: ${name}](https://ui.shadcn.com/docs/components/${name})`).join("\n")}
 - [shadcn/ui AI Components](https://www.shadcn.io/ai)
 - [shadcn/ui Button Components](https://www.shadcn.io/button)
 - [shadcn/ui Text Components](https://www.shadcn.io/text)
@@ -157,6 +386,60 @@ import { ${this.capitalizeFirst(componentName)} } from "@/components/ui/${compon
     }
   }
 
+  /**
+   * Get details of several components in one request
+   * @param componentNames - Exact component names
+   * @param absolutePathToCurrentFile - File the components will be used in
+   * @param absolutePathToProjectDirectory - Project root directory
+   * @param packageManager - Detected package manager
+   * @param format - Response format
+   * @param pin - CLI version and registry revision to pin the install command to
+   * @returns Combined guide, as structured content for format="json"
+   */
+  private async executeBatch(
+    componentNames: string[],
+    absolutePathToCurrentFile: string,
+    absolutePathToProjectDirectory: string,
+    packageManager: PackageManager | undefined,
+    format: "markdown" | "json",
+    pin?: { cliVersion?: string; registryRevision?: string }
+  ) {
+    const { data } = await httpClient.post<GetComponentDetailsBatchResponse>("/api/component/details/batch", {
+      componentNames,
+      absolutePathToCurrentFile,
+      absolutePathToProjectDirectory,
+      packageManager,
+      projectConfig: readProjectConfig(absolutePathToProjectDirectory),
+      projectInspection: inspectProject(absolutePathToProjectDirectory),
+      format,
+      pin,
+    });
+
+    console.log(`✅ Details retrieved for ${data.metadata.componentNames.length} components`);
+
+    if (format === "json") {
+      const structuredContent = { batch: data.batch ?? null };
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(structuredContent, null, 2),
+          },
+        ],
+        structuredContent,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: data.result ?? "",
+        },
+      ],
+    };
+  }
+
   /**
    * Capitalize the first letter and convert hyphens to PascalCase
    * @param str - String to capitalize
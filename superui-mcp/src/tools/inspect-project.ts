@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { BaseTool } from "../utils/base-tool.js";
+import { httpClient } from "../utils/http-client.js";
+import { detectPackageManager } from "../utils/package-manager.js";
+import { inspectProject, ProjectInspection } from "../utils/project-inspector.js";
+
+const TOOL_NAME = "inspect_project";
+const TOOL_DESCRIPTION = `
+Inspect the user's project before recommending or installing components.
+
+Scans the project directory and reports:
+- Framework (Next.js App/Pages Router, Vite, Remix / React Router, Astro)
+- React version
+- Tailwind CSS setup (v3 with tailwind.config vs v4 CSS-first)
+- shadcn/ui setup from components.json (style, base color, RSC, TSX)
+- Which catalog components already exist on disk
+
+When to use this tool:
+- At the start of a UI task, to learn what the project already has
+- Before installing components, to avoid reinstalling (and overwriting) existing ones
+- When install commands or imports don't seem to match the project
+
+list_components and get_component_details run the same scan when given the project directory,
+so installed components are marked there and skipped in install commands.
+`;
+
+interface InspectProjectResponse {
+  result: string;
+  installedComponents: string[];
+  inspection: ProjectInspection;
+}
+
+export class InspectProjectTool extends BaseTool {
+  name = TOOL_NAME;
+  description = TOOL_DESCRIPTION;
+
+  schema = z.object({
+    absolutePathToProjectDirectory: z.string().describe("Absolute path to the project root directory"),
+  });
+
+  async execute({ absolutePathToProjectDirectory }: z.infer<typeof this.schema>) {
+    const projectInspection = inspectProject(absolutePathToProjectDirectory);
+
+    try {
+      console.log(`🔎 InspectProjectTool executing for: ${absolutePathToProjectDirectory}`);
+
+      // Call the API server to match component files against the catalog
+      const { data } = await httpClient.post<InspectProjectResponse>("/api/project/inspect", {
+        projectInspection,
+        absolutePathToProjectDirectory,
+        packageManager: detectPackageManager(absolutePathToProjectDirectory),
+      });
+
+      console.log(`✅ Project inspected: ${data.installedComponents.length} catalog components installed`);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: data.result,
+          },
+        ],
+      };
+    } catch (error) {
+      console.error("❌ Error executing InspectProjectTool:", error);
+
+      // The local scan still works without the API server; only catalog matching is missing
+      const fallbackResponse = `
+# Project Inspection
+
+⚠️ **API Server Unavailable** — catalog components could not be matched.
+
+- **Framework**: ${projectInspection.framework.name}${projectInspection.framework.router ? ` (${projectInspection.framework.router} router)` : ""}
+- **React**: ${projectInspection.reactVersion ?? "Not detected"}
+- **Tailwind CSS**: ${projectInspection.tailwind.major ? `v${projectInspection.tailwind.major}` : "Not detected"}
+- **shadcn/ui**: ${projectInspection.shadcn.configured ? `configured (${projectInspection.shadcn.style ?? "default"} style)` : "not initialized"}
+- **Components directory**: ${projectInspection.componentsDirectory ?? "Not found"}
+
+### Component files on disk
+
+${projectInspection.componentFiles.map((file) => `- ${file}`).join("\n") || "- None"}
+
+**Error Details:** ${error instanceof Error ? error.message : "Unknown error"}
+      `;
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: fallbackResponse,
+          },
+        ],
+      };
+    }
+  }
+}
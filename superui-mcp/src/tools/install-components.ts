@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { BaseTool } from "../utils/base-tool.js";
+import { httpClient } from "../utils/http-client.js";
+import { detectPackageManager, getAddCommand, getPackageRunner, PackageManager } from "../utils/package-manager.js";
+import { readProjectConfig } from "../utils/project-config.js";
+import { fetchProjectDiffs } from "../utils/project-diff.js";
+import { applyProjectChanges, planProjectChanges, ProjectFile } from "../utils/project-files.js";
+import { inspectProject } from "../utils/project-inspector.js";
+
+const TOOL_NAME = "install_components";
+const TOOL_DESCRIPTION = `
+Install UI components into the project by writing their source files directly, without running the shadcn CLI.
+
+The API server resolves the components and their dependencies (e.g. form → button, label), reads their registry items from its local cache
+and maps each file to the project's ui, components, lib and hooks directories (from components.json and tsconfig paths).
+This tool then writes the files and adds missing npm dependencies to package.json, with the version range from their registry item
+or the version already installed in node_modules.
+Works fully offline once the server's registry cache is filled.
+
+When to use this tool:
+- After choosing components with list_components / get_component_details, to install them in one step
+- When the shadcn CLI cannot reach the registry (offline, CI sandboxes, air-gapped machines)
+
+Set dryRun=true to preview the change first: nothing is written and a unified diff of every file (and package.json) is returned.
+
+Existing files that differ from the registry version (e.g. locally customized components) are never replaced unless overwrite=true;
+they are reported as conflicts with their diff. Components already in the project are skipped.
+
+After installing, run the package manager's install command to fetch the added npm dependencies. Dependencies with no known version
+(or all of them, when the project has no package.json) are not written; the components will not build until you run the add command
+the tool reports, which lets the package manager resolve their versions.
+`;
+
+interface ComponentInstallation {
+  packageManager: PackageManager;
+  components: string[];
+  files: ProjectFile[];
+  npmDependencies: string[];
+  alreadyInstalled: string[];
+  skipped: Array<{ componentName: string; reason: string }>;
+  unresolved: string[];
+  warnings: string[];
+}
+
+interface InstallComponentsResponse {
+  installation: ComponentInstallation;
+  metadata: {
+    componentNames: string[];
+    packageManager: PackageManager;
+    timestamp: string;
+    version: string;
+  };
+}
+
+const STATUS_LABELS = {
+  create: "create",
+  update: "update",
+  conflict: "conflict (kept)",
+  unchanged: "unchanged",
+} as const;
+
+export class InstallComponentsTool extends BaseTool {
+  name = TOOL_NAME;
+  description = TOOL_DESCRIPTION;
+
+  schema = z.object({
+    componentNames: z.array(z.string()).min(1).describe("Exact component names to install (e.g., ['button', 'form', 'glow-button'])"),
+    absolutePathToProjectDirectory: z.string().describe("Absolute path to the project root directory"),
+    dryRun: z.boolean().optional().describe("Return a unified diff of the changes without writing anything (default: false)"),
+    overwrite: z.boolean().optional().describe("Replace existing component files that differ from the registry version (default: false)"),
+  });
+
+  async execute({ componentNames, absolutePathToProjectDirectory, dryRun = false, overwrite = false }: z.infer<typeof this.schema>) {
+    const packageManager = detectPackageManager(absolutePathToProjectDirectory);
+
+    try {
+      console.log(`📥 InstallComponentsTool executing for: ${componentNames.join(", ")}${dryRun ? " (dry run)" : ""}`);
+      console.log(`📁 Project: ${absolutePathToProjectDirectory}`);
+
+      const { data } = await httpClient.post<InstallComponentsResponse>("/api/component/install", {
+        componentNames,
+        packageManager,
+        projectConfig: readProjectConfig(absolutePathToProjectDirectory),
+        projectInspection: inspectProject(absolutePathToProjectDirectory),
+      });
+      const { installation } = data;
+
+      const changeSet = planProjectChanges(absolutePathToProjectDirectory, installation.files, installation.npmDependencies, overwrite);
+      // Diffed before anything is written, so a failed request leaves the project untouched
+      const diffedChanges = changeSet.changes.filter((change) => change.status !== "unchanged" && (dryRun || change.status === "conflict"));
+      const diffs = await fetchProjectDiffs(
+        diffedChanges.map((change) => ({ path: change.path, oldContent: change.previousContent, newContent: change.content }))
+      );
+      const written = dryRun ? [] : applyProjectChanges(absolutePathToProjectDirectory, changeSet);
+      const addedDependencies = Object.entries(changeSet.addedDependencies);
+
+      console.log(`✅ ${dryRun ? "Planned" : "Wrote"} ${dryRun ? changeSet.changes.length : written.length} files`);
+
+      const sections = [
+        `# ${dryRun ? "Install Preview (dry run, nothing written)" : "Components Installed"}`,
+        installation.components.length > 0
+          ? `**Components:** ${installation.components.join(", ")}`
+          : "**Components:** none installable from the registry cache",
+      ];
+
+      if (installation.alreadyInstalled.length > 0) {
+        sections.push(`**Already in the project (skipped):** ${installation.alreadyInstalled.join(", ")}`);
+      }
+
+      if (changeSet.changes.length > 0) {
+        sections.push(
+          `## Files\n\n${changeSet.changes.map((change) => `- \`${change.path}\`: ${STATUS_LABELS[change.status]}${change.componentName !== "package.json" ? ` (${change.componentName})` : ""}`).join("\n")}`
+        );
+      }
+
+      const dependencyNotes = [];
+      if (addedDependencies.length > 0) {
+        dependencyNotes.push(
+          `${dryRun ? "To be added" : "Added"} to package.json: ${addedDependencies.map(([name, range]) => `\`${name}@${range}\``).join(", ")}\n\nThen run \`${packageManager ?? "npm"} install\` to fetch them.`
+        );
+      }
+      if (changeSet.packagesToAdd.length > 0) {
+        const reason = changeSet.packageJsonMissing
+          ? "The project has no package.json, so no npm dependencies were added."
+          : "No version of these packages is known (none in their registry item or the project's node_modules), so they were not added to package.json.";
+        dependencyNotes.push(
+          `⚠️ ${reason} The components import ${changeSet.packagesToAdd.map((name) => `\`${name}\``).join(", ")} and will not build until you run \`${getAddCommand(changeSet.packagesToAdd, packageManager)}\`.`
+        );
+      }
+      if (dependencyNotes.length > 0) {
+        sections.push(`## npm Dependencies\n\n${dependencyNotes.join("\n\n")}`);
+      }
+
+      const conflicts = changeSet.changes.filter((change) => change.status === "conflict");
+      if (conflicts.length > 0) {
+        sections.push(
+          `## ⚠️ Conflicts\n\n${conflicts.length} existing files differ from the registry version and were left as-is. Review the diffs below and call again with overwrite=true to replace them.`
+        );
+      }
+
+      if (diffs.length > 0) {
+        sections.push(`## Diff\n\n\`\`\`diff\n${diffs.join("\n")}\n\`\`\``);
+      }
+
+      const problems = [
+        ...installation.unresolved.map((name) => `- ${name}: unknown component (use list_components to find its name)`),
+        ...installation.skipped.map((skipped) => `- ${skipped.componentName}: ${skipped.reason}`),
+      ];
+      if (problems.length > 0) {
+        sections.push(`## Not Installed\n\n${problems.join("\n")}`);
+      }
+
+      if (installation.warnings.length > 0) {
+        sections.push(`## ⚠️ Warnings\n\n${installation.warnings.map((warning) => `- ${warning}`).join("\n")}`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: sections.join("\n\n"),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error("❌ Error executing InstallComponentsTool:", error);
+
+      // Without the API server there are no registry items to write; fall back to the CLI
+      const fallbackResponse = `
+# Component Installation
+
+⚠️ **Could not install components**
+
+The component files could not be prepared. Install them with the shadcn CLI instead:
+
+\`\`\`bash
+cd ${absolutePathToProjectDirectory}
+${getPackageRunner(packageManager)} shadcn@latest add ${componentNames.join(" ")}
+\`\`\`
+
+Or make sure the SuperUI API server is running (http://localhost:3001) and its registry cache is filled (\`npm run registry:cache\`).
+
+**Error Details:** ${error instanceof Error ? error.message : "Unknown error"}
+      `;
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: fallbackResponse,
+          },
+        ],
+      };
+    }
+  }
+}
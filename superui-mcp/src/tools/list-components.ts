@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { BaseTool } from "../utils/base-tool.js";
+import { PreviewBatch, toPreviewContent, toPreviewRequest } from "../utils/component-previews.js";
 import { httpClient } from "../utils/http-client.js";
+import { inspectProject } from "../utils/project-inspector.js";
 
 const TOOL_NAME = "list_components";
 const TOOL_DESCRIPTION = `
@@ -48,6 +50,9 @@ glow-button, shimmer-button, magnetic-button, pulse-button, gradient-button, neo
 **Text Components (10) - animated text:**
 gradient-text, typing-text, shimmering-text, counting-number, sliding-number, rolling-text, rotating-text, splitting-text, highlight-text, writing-text
 
+**Registry Components:**
+Components from additional registries configured on the server (e.g. Magic UI, Aceternity, Tailark, internal registries) are listed too, tagged with their library name.
+
 ## Search Query Examples:
 - "button" → finds button, glow-button, shimmer-button, etc.
 - "animated button" → prioritizes glow-button, shimmer-button, pulse-button
@@ -60,6 +65,23 @@ gradient-text, typing-text, shimmering-text, counting-number, sliding-number, ro
 ## Categories for filtering:
 - form, layout, navigation, data, feedback, ai, advanced-button, text
 
+## Ranking modes:
+- \`mode="lexical"\` (default): keyword ranking, best for names and tags
+- \`mode="semantic"\`: meaning-based, for intent phrases like "show the AI is thinking" → ai-reasoning, ai-loader
+- \`mode="hybrid"\`: blends both; a good choice for descriptive queries
+
+## Facet filters (combine freely):
+- \`categories\`: any of several categories, e.g. ["ai", "text"]
+- \`libraries\`: shadcn-ui, shadcn-ai, shadcn-button, shadcn-text, or a registry library
+- \`tags\` / \`excludeTags\`: require all / exclude any of these tags
+- \`hasInstallCommand\`: true for registry items installed via a custom command
+- e.g. "animated components from shadcn-text that are not buttons" → query="animated", libraries=["shadcn-text"], excludeTags=["button"]
+
+Results end with facet counts (per category, library, tag) for narrowing the search step by step.
+
+## Visual previews:
+- \`previews="light" | "dark" | "both"\` attaches rendered thumbnails of the top 6 results as images, to pick a component by how it looks
+
 Example workflow:
 1. User: "I need an animated button with glow effect"
 2. Call list_components(query="glow button animated")
@@ -75,11 +97,24 @@ interface ListComponentsResponse {
     description: string;
     category: string;
     library?: string;
+    installed?: boolean;
+    score?: number;
   }>;
+  facets: {
+    categories: Record<string, number>;
+    libraries: Record<string, number>;
+    tags: Record<string, number>;
+    hasInstallCommand: { true: number; false: number };
+  };
+  /** Thumbnails of the top results, when previews were requested */
+  previews?: PreviewBatch;
   metadata: {
     query: string;
     category: string;
     count: number;
+    total: number;
+    mode: "lexical" | "semantic" | "hybrid";
+    warning?: string;
     timestamp: string;
     version: string;
   };
@@ -102,16 +137,58 @@ export class ListComponentsTool extends BaseTool {
       .describe(
         "Optional category filter: form, layout, navigation, data, feedback, ai, advanced-button, text"
       ),
+    categories: z
+      .array(z.string())
+      .optional()
+      .describe("Optional facet: only components in any of these categories, e.g. ['ai', 'text']"),
+    libraries: z
+      .array(z.string())
+      .optional()
+      .describe("Optional facet: only components from any of these libraries, e.g. ['shadcn-text']. Built-in shadcn/ui components are 'shadcn-ui'"),
+    tags: z
+      .array(z.string())
+      .optional()
+      .describe("Optional facet: only components that have ALL of these tags, e.g. ['animated']"),
+    excludeTags: z
+      .array(z.string())
+      .optional()
+      .describe("Optional facet: drop components that have ANY of these tags, e.g. ['button']"),
+    hasInstallCommand: z
+      .boolean()
+      .optional()
+      .describe("Optional facet: true for components installed with a custom command (registry items), false for plain shadcn add"),
+    mode: z
+      .enum(["lexical", "semantic", "hybrid"])
+      .optional()
+      .describe(
+        "Ranking mode: 'lexical' (keyword BM25, default), 'semantic' (meaning, e.g. 'number that ticks up' → counting-number) or 'hybrid' (both). Falls back to lexical when the server has no embedding model"
+      ),
     limit: z
       .number()
       .optional()
       .describe("Maximum number of results to return. If not provided, returns all matching components"),
+    absolutePathToProjectDirectory: z
+      .string()
+      .optional()
+      .describe("Absolute path to the project root directory; when provided, components already in the project are marked as installed"),
+    previews: z
+      .enum(["light", "dark", "both"])
+      .optional()
+      .describe("Attach rendered preview thumbnails of the top 6 results as images in the light theme, dark theme or both"),
   });
 
   async execute({
     query,
     category,
+    categories,
+    libraries,
+    tags,
+    excludeTags,
+    hasInstallCommand,
+    mode,
     limit,
+    absolutePathToProjectDirectory,
+    previews,
   }: z.infer<typeof this.schema>) {
     try {
       console.log(`🔍 ListComponentsTool executing${query ? ` for: ${query}` : ' (all components)'}`);
@@ -125,7 +202,15 @@ export class ListComponentsTool extends BaseTool {
         {
           query: query || "all",  // If no query, use "all" to get everything
           category,
+          categories,
+          libraries,
+          tags,
+          excludeTags,
+          hasInstallCommand,
+          mode,
           limit: limit || 1000,  // Set high limit to get all components
+          projectInspection: absolutePathToProjectDirectory ? inspectProject(absolutePathToProjectDirectory) : undefined,
+          previews: toPreviewRequest(previews),
         }
       );
 
@@ -137,21 +222,41 @@ export class ListComponentsTool extends BaseTool {
           const libraryBadge = comp.library
             ? ` [${comp.library}]`
             : "";
-          return `${index + 1}. **${comp.name}** (${comp.displayName})${libraryBadge}
+          const installedBadge = comp.installed ? " ✅ installed" : "";
+          const scoreBadge = comp.score !== undefined ? ` — score ${comp.score.toFixed(2)}` : "";
+          return `${index + 1}. **${comp.name}** (${comp.displayName})${libraryBadge}${installedBadge}${scoreBadge}
    - Category: ${comp.category}
    - ${comp.description}`;
         })
         .join("\n\n");
 
+      const formatCounts = (counts: Record<string, number>, max = 15) =>
+        Object.entries(counts)
+          .slice(0, max)
+          .map(([value, count]) => `${value} (${count})`)
+          .join(", ");
+      const facetSummary = `
+## Narrow Down (facet counts)
+
+- **categories**: ${formatCounts(data.facets.categories) || "none"}
+- **libraries**: ${formatCounts(data.facets.libraries) || "none"}
+- **tags**: ${formatCounts(data.facets.tags) || "none"}
+- **hasInstallCommand**: true (${data.facets.hasInstallCommand.true}), false (${data.facets.hasInstallCommand.false})
+
+Pass any of these as \`categories\`, \`libraries\`, \`tags\`/\`excludeTags\` or \`hasInstallCommand\` to filter further.`;
+
       const queryText = query ? `matching "${query}"` : "(all components)";
       const response = `
 # Component Search Results
 
-Found ${data.results.length} component(s) ${queryText}${
+Found ${data.metadata.total} component(s) ${queryText}${
         category ? ` in category: ${category}` : ""
-      }
+      }${data.results.length < data.metadata.total ? ` (showing ${data.results.length})` : ""}${
+        query && query !== "all" ? ` — ranked ${data.metadata.mode}` : ""
+      }${data.metadata.warning ? `\n\n⚠️ ${data.metadata.warning}` : ""}
 
 ${componentsList}
+${facetSummary}
 
 ---
 
@@ -170,6 +275,7 @@ For example:
             type: "text" as const,
             text: response,
           },
+          ...toPreviewContent(data.previews),
         ],
       };
     } catch (error) {
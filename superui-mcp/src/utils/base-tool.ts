@@ -21,9 +21,10 @@ export abstract class BaseTool {
   /**
    * Execute the tool with the provided arguments
    * @param args - Validated arguments based on the schema
-   * @returns Promise resolving to tool execution result
+   * @returns Promise resolving to tool execution result, optionally with machine-readable structured content
    */
   abstract execute(args: z.infer<typeof this.schema>): Promise<{
     content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }>;
+    structuredContent?: Record<string, unknown>;
   }>;
 }
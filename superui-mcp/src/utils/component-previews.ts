@@ -0,0 +1,54 @@
+/**
+ * Component preview thumbnails returned by the API server
+ * Turned into MCP image content so vision-capable agents can compare components visually
+ */
+
+export type PreviewOption = "light" | "dark" | "both";
+
+export interface PreviewBatch {
+  images: Array<{
+    componentName: string;
+    theme: "light" | "dark";
+    data: string; // base64 encoded PNG
+    mimeType: string;
+    metadata: { width: number; height: number; cached: boolean };
+  }>;
+  failures: Array<{ componentName: string; theme: "light" | "dark"; error: string }>;
+  warning?: string;
+}
+
+export type PreviewContent = Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }>;
+
+/**
+ * Convert the tool's preview option to the API server's `previews` field
+ * @param option - "light", "dark" or "both"
+ * @returns true for both themes, the theme otherwise, undefined without previews
+ */
+export const toPreviewRequest = (option?: PreviewOption): true | "light" | "dark" | undefined => (option === "both" ? true : option);
+
+/**
+ * Build MCP content for preview thumbnails: a caption before each image, then failures
+ * @param batch - Previews returned by the API server
+ * @returns Content items, empty when no previews were requested
+ */
+export const toPreviewContent = (batch?: PreviewBatch): PreviewContent => {
+  if (!batch) {
+    return [];
+  }
+  if (batch.warning) {
+    return [{ type: "text", text: `⚠️ Previews unavailable: ${batch.warning}` }];
+  }
+
+  const content: PreviewContent = [];
+  for (const image of batch.images) {
+    content.push({ type: "text", text: `Preview of ${image.componentName} (${image.theme} theme):` });
+    content.push({ type: "image", data: image.data, mimeType: image.mimeType });
+  }
+  if (batch.failures.length > 0) {
+    content.push({
+      type: "text",
+      text: `⚠️ Previews that could not be rendered:\n${batch.failures.map((failure) => `- ${failure.componentName} (${failure.theme}): ${failure.error}`).join("\n")}`,
+    });
+  }
+  return content;
+};
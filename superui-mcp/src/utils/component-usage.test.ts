@@ -0,0 +1,112 @@
+/**
+ * Behaviour checks for the component usage codemod
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planComponentUsage } from "./component-usage.js";
+
+const page = `"use client";
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+
+export default function Page() {
+  const [open, setOpen] = useState(false);
+  return (
+    <Card>
+      {/* superui:insert */}
+    </Card>
+  );
+}
+`;
+
+const buttonImport = 'import { Button } from "@/components/ui/button"';
+
+describe("planComponentUsage", () => {
+  it("adds the import after the last import and replaces the marker with the usage", () => {
+    const edit = planComponentUsage({
+      filePath: "app/page.tsx",
+      source: page,
+      importStatement: buttonImport,
+      usage: "<Button>Click</Button>",
+      location: { marker: "superui:insert" },
+    });
+
+    assert.equal(
+      edit.content,
+      page
+        .replace('import { Card } from "@/components/ui/card";', `import { Card } from "@/components/ui/card";\n${buttonImport};`)
+        .replace("{/* superui:insert */}", "<Button>Click</Button>")
+    );
+    assert.deepEqual(edit.imports, [{ module: "@/components/ui/button", status: "added", names: ["Button"] }]);
+    assert.equal(edit.usageLine, 11);
+    assert.deepEqual(edit.warnings, []);
+    assert.equal(edit.changed, true);
+  });
+
+  it("merges named imports into an existing import of the module", () => {
+    const edit = planComponentUsage({ filePath: "app/page.tsx", source: page, importStatement: 'import { Card, CardHeader } from "@/components/ui/card"' });
+
+    assert.ok(edit.content.includes('import { Card, CardHeader } from "@/components/ui/card";'));
+    assert.deepEqual(edit.imports, [{ module: "@/components/ui/card", status: "merged", names: ["CardHeader"] }]);
+    assert.equal(edit.usageLine, null);
+  });
+
+  it("changes nothing when the import is already there", () => {
+    const edit = planComponentUsage({ filePath: "app/page.tsx", source: page, importStatement: 'import { Card } from "@/components/ui/card"' });
+
+    assert.equal(edit.content, page);
+    assert.equal(edit.changed, false);
+    assert.deepEqual(edit.imports, [{ module: "@/components/ui/card", status: "present", names: ["Card"] }]);
+  });
+
+  it("inserts the usage at a line and column between JSX tags, on its own line", () => {
+    const edit = planComponentUsage({
+      filePath: "app/page.tsx",
+      source: page,
+      importStatement: buttonImport,
+      usage: "<Button />",
+      location: { line: 10, column: 7 },
+    });
+    const lines = edit.content.split("\n");
+
+    assert.equal(edit.usageLine, 11);
+    assert.equal(lines[10], "      <Button />");
+    assert.equal(lines[11], "      {/* superui:insert */}");
+  });
+
+  it("inserts inline JSX children in place", () => {
+    const edit = planComponentUsage({
+      filePath: "app/page.tsx",
+      source: "export const Toolbar = () => <div>{/* superui:insert */}</div>;\n",
+      importStatement: buttonImport,
+      usage: "<Button />",
+      location: { marker: "superui:insert" },
+    });
+
+    assert.equal(edit.content, `${buttonImport};\n\nexport const Toolbar = () => <div><Button /></div>;\n`);
+  });
+
+  it("refuses locations outside JSX children", () => {
+    assert.throws(
+      () => planComponentUsage({ filePath: "app/page.tsx", source: page, importStatement: buttonImport, usage: "<Button />", location: { line: 7 } }),
+      /not inside JSX children/
+    );
+  });
+
+  it("refuses a marker the file does not contain", () => {
+    assert.throws(
+      () => planComponentUsage({ filePath: "app/page.tsx", source: page, importStatement: buttonImport, usage: "<Button />", location: { marker: "missing" } }),
+      /No comment containing "missing"/
+    );
+  });
+
+  it("warns instead of importing a name that is already bound to another module", () => {
+    const edit = planComponentUsage({ filePath: "app/page.tsx", source: page, importStatement: 'import { Card } from "@acme/ui"' });
+
+    assert.equal(edit.content, page);
+    assert.equal(edit.warnings.length, 1);
+    assert.match(edit.warnings[0], /"Card" is already imported from "@\/components\/ui\/card"/);
+  });
+});
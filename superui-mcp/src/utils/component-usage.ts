@@ -0,0 +1,524 @@
+import path from "node:path";
+import ts from "typescript";
+
+/**
+ * Component usage codemod for apply_component_usage
+ * Parses a TSX/JSX file with the TypeScript compiler API, merges a component's import statement into the file's imports
+ * and inserts its usage snippet at a marker comment or a JSX position, returning the new content for review
+ */
+
+/** Files JSX can be inserted into */
+export const USAGE_FILE_EXTENSIONS = [".tsx", ".jsx", ".js"];
+
+export interface UsageLocation {
+  /** Text of the marker comment the usage replaces (e.g. "superui:insert" matches {/* superui:insert *\/}) */
+  marker?: string;
+  /** 1-based line to insert the usage at */
+  line?: number;
+  /** 1-based column; defaults to the first non-blank character of the line */
+  column?: number;
+}
+
+export interface ComponentUsageRequest {
+  /** Path shown in the patch header (relative to the project root) */
+  filePath: string;
+  /** Current contents of the file */
+  source: string;
+  /** Import statement(s) of the component */
+  importStatement: string;
+  /** JSX snippet; only the imports are added when omitted */
+  usage?: string;
+  /** Where the usage goes; required with usage */
+  location?: UsageLocation;
+}
+
+export interface ImportChange {
+  module: string;
+  /** added: new import declaration; merged: bindings added to an existing import; present: already imported */
+  status: "added" | "merged" | "present";
+  /** Bindings added, or the requested bindings when already present */
+  names: string[];
+}
+
+export interface ComponentUsageEdit {
+  content: string;
+  /** False when the file already has the import and usage, so there is nothing to write */
+  changed: boolean;
+  imports: ImportChange[];
+  /** 1-based line the usage starts at in the new content, or null when no usage was inserted */
+  usageLine: number | null;
+  warnings: string[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ImportBindings {
+  defaultName?: string;
+  namespaceName?: string;
+  /** Named specifiers as written (e.g. "Button", "Root as Tabs", "type ButtonProps") */
+  named: Array<{ name: string; imported: string; text: string }>;
+}
+
+/**
+ * Parse source text as TSX or JSX
+ * @param fileName - File name, used for the script kind
+ * @param text - Source text
+ * @returns Source file with parent pointers
+ */
+const parseSource = (fileName: string, text: string): ts.SourceFile =>
+  ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, path.extname(fileName) === ".tsx" ? ts.ScriptKind.TSX : ts.ScriptKind.JSX);
+
+/**
+ * Count the syntax errors of source text
+ * @param fileName - File name, used for the script kind
+ * @param text - Source text
+ * @returns Number of syntax errors
+ */
+const countSyntaxErrors = (fileName: string, text: string): number =>
+  ts.transpileModule(text, { fileName, reportDiagnostics: true, compilerOptions: { jsx: ts.JsxEmit.Preserve } }).diagnostics?.length ?? 0;
+
+/**
+ * Read the bindings an import declaration introduces
+ * @param declaration - Import declaration
+ * @param sourceFile - File the declaration belongs to
+ * @returns Default, namespace and named bindings
+ */
+const getImportBindings = (declaration: ts.ImportDeclaration, sourceFile: ts.SourceFile): ImportBindings => {
+  const clause = declaration.importClause;
+  const bindings = clause?.namedBindings;
+  return {
+    defaultName: clause?.name?.text,
+    namespaceName: bindings && ts.isNamespaceImport(bindings) ? bindings.name.text : undefined,
+    named:
+      bindings && ts.isNamedImports(bindings)
+        ? bindings.elements.map((element) => ({
+            name: element.name.text,
+            imported: element.propertyName?.getText(sourceFile) ?? element.name.text,
+            text: element.getText(sourceFile),
+          }))
+        : [],
+  };
+};
+
+/**
+ * Get the module an import declaration loads
+ * @param declaration - Import declaration
+ * @returns Module specifier text
+ */
+const getModuleName = (declaration: ts.ImportDeclaration): string => (declaration.moduleSpecifier as ts.StringLiteral).text;
+
+/**
+ * Get the whitespace a line starts with
+ * @param text - Source text
+ * @param position - Any position on the line
+ * @returns Indentation of the line
+ */
+const getLineIndent = (text: string, position: number): string => {
+  const lineStart = text.lastIndexOf("\n", position - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? "";
+};
+
+/**
+ * Re-indent a snippet for insertion at a given indentation
+ * Blank lines around the snippet and its common indentation are removed
+ * @param snippet - Code snippet
+ * @param indent - Indentation of the insertion line
+ * @returns Snippet whose lines after the first are prefixed with the indentation
+ */
+const indentSnippet = (snippet: string, indent: string): string => {
+  const lines = snippet
+    .replace(/\r\n/g, "\n")
+    .replace(/^\s*\n/, "")
+    .trimEnd()
+    .split("\n");
+  const common = Math.min(...lines.filter((line) => line.trim()).map((line) => /^[ \t]*/.exec(line)?.[0].length ?? 0));
+  return lines.map((line, index) => (line.trim() ? `${index === 0 ? "" : indent}${line.slice(common)}` : "")).join("\n");
+};
+
+/**
+ * Collect the comments of a source file
+ * Comments are read from the trivia around each token; JSX text is skipped, since text such as "// note" inside an element is not a comment
+ * @param sourceFile - Parsed file
+ * @returns Comment ranges in source order
+ */
+const collectComments = (sourceFile: ts.SourceFile): ts.CommentRange[] => {
+  const text = sourceFile.getFullText();
+  const tokens: ts.Node[] = [];
+  const visit = (node: ts.Node) => {
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) {
+      return;
+    }
+    const children = node.getChildren(sourceFile);
+    if (children.length === 0) {
+      tokens.push(node);
+    }
+    children.forEach(visit);
+  };
+  visit(sourceFile);
+
+  const comments = new Map<number, ts.CommentRange>();
+  tokens.forEach((token, index) => {
+    if (token.kind === ts.SyntaxKind.JsxText) {
+      return;
+    }
+    // Comments on the line of the previous token are its trailing comments
+    const trailing = tokens[index + 1]?.kind === ts.SyntaxKind.JsxText ? [] : (ts.getTrailingCommentRanges(text, token.end) ?? []);
+    for (const comment of [...(ts.getLeadingCommentRanges(text, token.pos) ?? []), ...trailing]) {
+      comments.set(comment.pos, comment);
+    }
+  });
+
+  return [...comments.values()].sort((a, b) => a.pos - b.pos);
+};
+
+/**
+ * Find the innermost node that contains a position
+ * @param sourceFile - Parsed file
+ * @param position - Position in the file
+ * @returns Innermost node whose text (without leading trivia) contains the position
+ */
+const findInnermostNode = (sourceFile: ts.SourceFile, position: number): ts.Node => {
+  let current: ts.Node = sourceFile;
+  for (;;) {
+    const child = current.getChildren(sourceFile).find((node) => node.getStart(sourceFile) <= position && position < node.end);
+    if (!child) {
+      return current;
+    }
+    current = child;
+  }
+};
+
+/**
+ * Check whether a position lies between the opening and closing tag of a JSX element or fragment
+ * @param sourceFile - Parsed file
+ * @param position - Position in the file
+ * @returns Whether JSX can be inserted there as a child
+ */
+const isJsxChildPosition = (sourceFile: ts.SourceFile, position: number): boolean => {
+  let node: ts.Node | undefined = findInnermostNode(sourceFile, position);
+  while (node) {
+    // A position at the start of a node lies before it, in its parent
+    if (node.getStart(sourceFile) === position && node.parent) {
+      node = node.parent;
+      continue;
+    }
+    if (ts.isJsxElement(node)) {
+      return position >= node.openingElement.end && position <= node.closingElement.getStart(sourceFile);
+    }
+    if (ts.isJsxFragment(node)) {
+      return position >= node.openingFragment.end && position <= node.closingFragment.getStart(sourceFile);
+    }
+    // Inside a tag or an expression container, except an empty one ({/* marker */})
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxClosingElement(node) || (ts.isJsxExpression(node) && node.expression)) {
+      return false;
+    }
+    node = node.parent;
+  }
+  return false;
+};
+
+/**
+ * Find where new import declarations go: after the last import, after the directives ("use client") or before the first statement
+ * @param sourceFile - Parsed file
+ * @param existing - Import declarations of the file
+ * @param text - Declarations to insert
+ * @returns Insertion edit
+ */
+const getDeclarationInsertion = (sourceFile: ts.SourceFile, existing: ts.ImportDeclaration[], text: string): TextEdit => {
+  const lastImport = existing[existing.length - 1];
+  if (lastImport) {
+    return { start: lastImport.end, end: lastImport.end, text: `\n${text}` };
+  }
+
+  const directives = sourceFile.statements.filter((statement, index) =>
+    sourceFile.statements.slice(0, index + 1).every((previous) => ts.isExpressionStatement(previous) && ts.isStringLiteral(previous.expression))
+  );
+  const lastDirective = directives[directives.length - 1];
+  if (lastDirective) {
+    return { start: lastDirective.end, end: lastDirective.end, text: `\n\n${text}` };
+  }
+
+  const firstStatement = sourceFile.statements[0];
+  if (firstStatement) {
+    const start = firstStatement.getStart(sourceFile);
+    return { start, end: start, text: `${text}\n\n` };
+  }
+  return { start: sourceFile.text.length, end: sourceFile.text.length, text: `${sourceFile.text && !sourceFile.text.endsWith("\n") ? "\n" : ""}${text}\n` };
+};
+
+/**
+ * Plan the edits that add an import statement's bindings to a file
+ * Bindings the file already imports are skipped, named imports are merged into an existing import of the same module,
+ * and whatever cannot be merged becomes a new declaration after the last import
+ * @param sourceFile - Parsed file
+ * @param importStatement - Import statement(s) to add
+ * @param warnings - Collects bindings that clash with existing imports
+ * @returns Edits and the change per imported module
+ */
+const planImportEdits = (sourceFile: ts.SourceFile, importStatement: string, warnings: string[]): { edits: TextEdit[]; imports: ImportChange[] } => {
+  const snippet = parseSource("import.tsx", importStatement);
+  const existing = sourceFile.statements.filter(ts.isImportDeclaration);
+  const edits: TextEdit[] = [];
+  const imports: ImportChange[] = [];
+  const declarations: string[] = [];
+
+  // Follow the file's quote and semicolon style
+  const firstImport = existing[0];
+  const quote = firstImport?.moduleSpecifier.getText(sourceFile).startsWith("'") ? "'" : '"';
+  const semicolon = !firstImport || firstImport.getText(sourceFile).endsWith(";") ? ";" : "";
+
+  // Local names already bound by an import
+  const boundNames = new Map<string, string>();
+  for (const declaration of existing) {
+    const bindings = getImportBindings(declaration, sourceFile);
+    for (const name of [bindings.defaultName, bindings.namespaceName, ...bindings.named.map((named) => named.name)]) {
+      if (name) {
+        boundNames.set(name, getModuleName(declaration));
+      }
+    }
+  }
+
+  if (snippet.statements.some((statement) => !ts.isImportDeclaration(statement))) {
+    warnings.push("The import statement contains code other than imports; only the imports were added");
+  }
+
+  for (const declaration of snippet.statements.filter(ts.isImportDeclaration)) {
+    const moduleName = getModuleName(declaration);
+    const typeOnly = declaration.importClause?.isTypeOnly ?? false;
+    const sameModule = existing.filter((candidate) => getModuleName(candidate) === moduleName);
+
+    // Side-effect import (e.g. a stylesheet)
+    if (!declaration.importClause) {
+      if (sameModule.length > 0) {
+        imports.push({ module: moduleName, status: "present", names: [] });
+      } else {
+        declarations.push(`import ${quote}${moduleName}${quote}${semicolon}`);
+        imports.push({ module: moduleName, status: "added", names: [] });
+      }
+      continue;
+    }
+
+    // Bindings the file does not import yet; names bound to another module are left out
+    const requested = getImportBindings(declaration, snippet);
+    const isMissing = (name: string | undefined): name is string => {
+      if (!name || boundNames.get(name) === moduleName) {
+        return false;
+      }
+      if (boundNames.has(name)) {
+        warnings.push(`"${name}" is already imported from "${boundNames.get(name)}"; it was not imported from "${moduleName}"`);
+        return false;
+      }
+      return true;
+    };
+    const missing: ImportBindings = {
+      defaultName: isMissing(requested.defaultName) ? requested.defaultName : undefined,
+      namespaceName: isMissing(requested.namespaceName) ? requested.namespaceName : undefined,
+      named: requested.named.filter((named) => isMissing(named.name)),
+    };
+    const requestedNames = [requested.defaultName, requested.namespaceName, ...requested.named.map((named) => named.name)].filter(
+      (name): name is string => name !== undefined
+    );
+
+    if (!missing.defaultName && !missing.namespaceName && missing.named.length === 0) {
+      imports.push({ module: moduleName, status: "present", names: requestedNames });
+      continue;
+    }
+
+    const added: string[] = [];
+    const candidates = sameModule.filter((candidate) => candidate.importClause && candidate.importClause.isTypeOnly === typeOnly);
+
+    // Named imports join an import of the same module that has named imports or only a default import
+    const target = candidates.find((candidate) => {
+      const bindings = candidate.importClause?.namedBindings;
+      return bindings ? ts.isNamedImports(bindings) : true;
+    });
+    if (target?.importClause && missing.named.length > 0) {
+      const clause = target.importClause;
+      const bindings = clause.namedBindings as ts.NamedImports | undefined;
+      const specifiers = missing.named.map((named) => named.text);
+
+      if (!bindings) {
+        edits.push({ start: clause.name?.end ?? clause.end, end: clause.name?.end ?? clause.end, text: `, { ${specifiers.join(", ")} }` });
+      } else if (bindings.elements.length === 0) {
+        edits.push({ start: bindings.getStart(sourceFile), end: bindings.end, text: `{ ${specifiers.join(", ")} }` });
+      } else {
+        // Keep one specifier per line when the import is written that way
+        const last = bindings.elements[bindings.elements.length - 1];
+        const separator = bindings.getText(sourceFile).includes("\n") ? `,\n${getLineIndent(sourceFile.text, last.getStart(sourceFile))}` : ", ";
+        edits.push({ start: last.end, end: last.end, text: `${separator}${specifiers.join(separator)}` });
+      }
+      added.push(...missing.named.map((named) => named.name));
+      missing.named = [];
+    }
+
+    // A default import joins an import of the same module that has none
+    const defaultTarget = candidates.find((candidate) => !candidate.importClause?.name && candidate.importClause?.namedBindings);
+    if (missing.defaultName && defaultTarget?.importClause?.namedBindings) {
+      const start = defaultTarget.importClause.namedBindings.getStart(sourceFile);
+      edits.push({ start, end: start, text: `${missing.defaultName}, ` });
+      added.push(missing.defaultName);
+      missing.defaultName = undefined;
+    }
+
+    if (added.length > 0) {
+      imports.push({ module: moduleName, status: "merged", names: added });
+    }
+
+    // Whatever could not be merged gets its own declaration; a namespace import cannot share one with named imports
+    const namedClause = missing.named.length > 0 ? `{ ${missing.named.map((named) => named.text).join(", ")} }` : undefined;
+    const namespaceClause = missing.namespaceName ? `* as ${missing.namespaceName}` : undefined;
+    const clauses = (namespaceClause ? [[missing.defaultName, namespaceClause], [namedClause]] : [[missing.defaultName, namedClause]])
+      .map((parts) => parts.filter((part): part is string => part !== undefined).join(", "))
+      .filter((clause) => clause !== "");
+    for (const clause of clauses) {
+      declarations.push(`import ${typeOnly ? "type " : ""}${clause} from ${quote}${moduleName}${quote}${semicolon}`);
+    }
+
+    const declared = [missing.defaultName, missing.namespaceName, ...missing.named.map((named) => named.name)].filter(
+      (name): name is string => name !== undefined
+    );
+    if (declared.length > 0) {
+      const merged = imports.find((change) => change.module === moduleName && change.status === "merged");
+      if (merged) {
+        merged.names.push(...declared);
+      } else {
+        imports.push({ module: moduleName, status: "added", names: declared });
+      }
+    }
+    for (const name of [...added, ...declared]) {
+      boundNames.set(name, moduleName);
+    }
+  }
+
+  if (declarations.length > 0) {
+    edits.push(getDeclarationInsertion(sourceFile, existing, declarations.join("\n")));
+  }
+  return { edits, imports };
+};
+
+/**
+ * Plan the edit that inserts a usage snippet
+ * At a marker, the snippet replaces the marker comment ({/* marker *\/} as a whole); at a line, it is placed on its own line
+ * @param sourceFile - Parsed file
+ * @param usage - JSX snippet
+ * @param location - Marker or line and column
+ * @returns Insertion edit
+ * @throws Error if the marker is missing or ambiguous, or the location is not inside JSX children
+ */
+const planUsageEdit = (sourceFile: ts.SourceFile, usage: string, location: UsageLocation): TextEdit => {
+  const text = sourceFile.text;
+
+  if (location.marker) {
+    const marker = location.marker;
+    const matches = collectComments(sourceFile).filter((comment) => text.slice(comment.pos, comment.end).includes(marker));
+    if (matches.length !== 1) {
+      throw new Error(
+        matches.length === 0
+          ? `No comment containing "${marker}" found in ${sourceFile.fileName}`
+          : `${matches.length} comments contain "${marker}" in ${sourceFile.fileName}; use a unique marker or a line`
+      );
+    }
+
+    const comment = matches[0];
+    const container = findInnermostNode(sourceFile, comment.pos);
+    const range =
+      ts.isJsxExpression(container) && !container.expression
+        ? { start: container.getStart(sourceFile), end: container.end }
+        : { start: comment.pos, end: comment.end };
+    if (!isJsxChildPosition(sourceFile, range.start)) {
+      throw new Error(`The "${marker}" comment is not inside JSX children (between an element's opening and closing tags)`);
+    }
+    return { ...range, text: indentSnippet(usage, getLineIndent(text, range.start)) };
+  }
+
+  const lineStarts = sourceFile.getLineStarts();
+  const line = location.line ?? 0;
+  if (line < 1 || line > lineStarts.length) {
+    throw new Error(`Line ${line} is outside ${sourceFile.fileName} (${lineStarts.length} lines)`);
+  }
+
+  const lineText = text.slice(lineStarts[line - 1], line < lineStarts.length ? lineStarts[line] : text.length).replace(/\r?\n$/, "");
+  const indent = /^[ \t]*/.exec(lineText)?.[0] ?? "";
+  const column = location.column ?? indent.length + 1;
+  if (column < 1 || column > lineText.length + 1) {
+    throw new Error(`Column ${column} is outside line ${line} (${lineText.length} characters)`);
+  }
+
+  const position = lineStarts[line - 1] + column - 1;
+  if (!isJsxChildPosition(sourceFile, position)) {
+    throw new Error(`Line ${line}, column ${column} is not inside JSX children (between an element's opening and closing tags)`);
+  }
+
+  // On a blank line the snippet fills the line, indented like the deeper of the nearest non-blank lines around it
+  if (lineText.trim() === "" && location.column === undefined) {
+    const findIndent = (step: number): string => {
+      for (let index = line - 1 + step; index >= 0 && index < lineStarts.length; index += step) {
+        if (text.slice(lineStarts[index], lineStarts[index + 1] ?? text.length).trim()) {
+          return getLineIndent(text, lineStarts[index]);
+        }
+      }
+      return "";
+    };
+    const [before, after] = [findIndent(-1), findIndent(1)];
+    const blankIndent = after.length > before.length ? after : before;
+    return { start: lineStarts[line - 1], end: lineStarts[line - 1] + lineText.length, text: `${blankIndent}${indentSnippet(usage, blankIndent)}` };
+  }
+
+  // At the start of a line the snippet takes its own line before the existing code
+  const snippet = indentSnippet(usage, indent);
+  return { start: position, end: position, text: column === indent.length + 1 ? `${snippet}\n${indent}` : snippet };
+};
+
+/**
+ * Add a component's import and usage to a file
+ * Nothing is written; the new content is returned for review
+ * @param request - File contents, import statement, usage snippet and location
+ * @returns New content, import changes and warnings
+ * @throws Error if the usage location cannot be used
+ */
+export const planComponentUsage = (request: ComponentUsageRequest): ComponentUsageEdit => {
+  const { filePath, source, importStatement, usage, location } = request;
+  const sourceFile = parseSource(filePath, source);
+  const warnings: string[] = [];
+
+  const { edits, imports } = planImportEdits(sourceFile, importStatement, warnings);
+
+  let usageEdit: TextEdit | undefined;
+  if (usage?.trim() && location && (location.marker || location.line)) {
+    if (countSyntaxErrors("usage.tsx", `<>\n${usage}\n</>`) > 0) {
+      warnings.push("The usage snippet is not plain JSX; review the inserted code");
+    }
+    if (source.includes(usage.trim())) {
+      warnings.push("The file already contains this usage snippet");
+    }
+    usageEdit = planUsageEdit(sourceFile, usage, location);
+    edits.push(usageEdit);
+  }
+
+  // Apply from the end so earlier positions stay valid
+  let content = source;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    content = `${content.slice(0, edit.start)}${edit.text}${content.slice(edit.end)}`;
+  }
+
+  let usageLine: number | null = null;
+  if (usageEdit) {
+    const countLines = (text: string) => text.split("\n").length - 1;
+    const shift = edits
+      .filter((edit) => edit !== usageEdit && edit.start < (usageEdit?.start ?? 0))
+      .reduce((total, edit) => total + countLines(edit.text) - countLines(source.slice(edit.start, edit.end)), 0);
+    usageLine = sourceFile.getLineAndCharacterOfPosition(usageEdit.start).line + 1 + shift;
+  }
+
+  const errorsBefore = countSyntaxErrors(filePath, source);
+  const errorsAfter = countSyntaxErrors(filePath, content);
+  if (errorsAfter > errorsBefore) {
+    warnings.push(`The edited file has ${errorsAfter - errorsBefore} new syntax error(s); review the patch before applying it`);
+  }
+
+  return { content, changed: content !== source, imports, usageLine, warnings };
+};
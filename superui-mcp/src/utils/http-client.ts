@@ -6,6 +6,39 @@ import { config } from "./config.js";
 
 type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
 
+/**
+ * Error response from the API server
+ */
+export class HttpError extends Error {
+  /**
+   * @param status - HTTP status code
+   * @param serverMessage - The `error` field of the JSON response body, when present
+   * @param message - Full error description
+   */
+  constructor(
+    public readonly status: number,
+    public readonly serverMessage: string | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Read the `error` field of an API server error response
+ * @param body - Response body text
+ * @returns Error message, or undefined when the body is not a JSON error
+ */
+const parseServerMessage = (body: string): string | undefined => {
+  try {
+    const { error } = JSON.parse(body) as { error?: unknown };
+    return typeof error === "string" ? error : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
 interface HttpClient {
   get<T>(
     endpoint: string,
@@ -64,7 +97,9 @@ const createMethod = (method: HttpMethod) => {
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(
+        throw new HttpError(
+          response.status,
+          parseServerMessage(errorText),
           `API Server Error: ${response.status} ${response.statusText} - ${errorText}`
         );
       }
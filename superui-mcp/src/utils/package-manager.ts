@@ -0,0 +1,94 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * Package manager detection for the user's project
+ * The result is sent to the API server so install commands match the project
+ */
+
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+/**
+ * Lockfiles in order of precedence
+ */
+const LOCKFILES: Array<{ file: string; packageManager: PackageManager }> = [
+  { file: "bun.lock", packageManager: "bun" },
+  { file: "bun.lockb", packageManager: "bun" },
+  { file: "pnpm-lock.yaml", packageManager: "pnpm" },
+  { file: "yarn.lock", packageManager: "yarn" },
+  { file: "package-lock.json", packageManager: "npm" },
+  { file: "npm-shrinkwrap.json", packageManager: "npm" },
+];
+
+/**
+ * Read the `packageManager` field (e.g. "pnpm@9.12.0") from a package.json
+ * @param directory - Directory that may contain a package.json
+ * @returns Package manager or null if the field is missing or unknown
+ */
+const readPackageManagerField = (directory: string): PackageManager | null => {
+  const packageJsonPath = path.join(directory, "package.json");
+  if (!existsSync(packageJsonPath)) {
+    return null;
+  }
+
+  try {
+    const { packageManager } = JSON.parse(readFileSync(packageJsonPath, "utf-8")) as { packageManager?: unknown };
+    const name = typeof packageManager === "string" ? packageManager.split("@")[0] : "";
+    return ["npm", "pnpm", "yarn", "bun"].includes(name) ? (name as PackageManager) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Detect the package manager used by a project
+ * Checks the `packageManager` field first, then lockfiles, walking up to the workspace root
+ * @param projectDirectory - Absolute path to the project root
+ * @returns Detected package manager, or undefined so the API server falls back to its default
+ */
+export const detectPackageManager = (projectDirectory: string | undefined): PackageManager | undefined => {
+  if (!projectDirectory) {
+    return undefined;
+  }
+
+  let directory = path.resolve(projectDirectory);
+
+  while (true) {
+    const fromField = readPackageManagerField(directory);
+    if (fromField) {
+      return fromField;
+    }
+
+    const lockfile = LOCKFILES.find(({ file }) => existsSync(path.join(directory, file)));
+    if (lockfile) {
+      return lockfile.packageManager;
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+};
+
+/**
+ * Get the command that runs a package binary, matching the runners the shadcn CLI uses
+ * @param packageManager - Package manager (defaults to npm)
+ * @returns Runner command such as "npx" or "pnpm dlx"
+ */
+export const getPackageRunner = (packageManager: PackageManager = "npm"): string => {
+  const runners: Record<PackageManager, string> = { npm: "npx", pnpm: "pnpm dlx", yarn: "npx", bun: "bunx --bun" };
+  return runners[packageManager];
+};
+
+/**
+ * Get the command that adds packages to a project, letting the package manager resolve their versions
+ * @param packages - Package names
+ * @param packageManager - Package manager (defaults to npm)
+ * @returns Command such as "pnpm add motion"
+ */
+export const getAddCommand = (packages: string[], packageManager: PackageManager = "npm"): string => {
+  const installers: Record<PackageManager, string> = { npm: "npm install", pnpm: "pnpm add", yarn: "yarn add", bun: "bun add" };
+  return `${installers[packageManager]} ${packages.join(" ")}`;
+};
@@ -0,0 +1,114 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * Project configuration reader
+ * Collects components.json and tsconfig paths so the API server can use the project's real aliases
+ */
+
+export interface ProjectConfig {
+  componentsJson?: {
+    style?: string;
+    rsc?: boolean;
+    tsx?: boolean;
+    tailwind?: {
+      config?: string;
+      css?: string;
+      baseColor?: string;
+      cssVariables?: boolean;
+      prefix?: string;
+    };
+    aliases?: Record<string, string>;
+  };
+  tsconfig?: {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+  };
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig.json, jsconfig.json)
+ * @param text - File contents
+ * @returns Parsed value
+ */
+const parseJsonc = (text: string): unknown => {
+  const withoutComments = text.replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, quoted: string | undefined) => quoted ?? "");
+  return JSON.parse(withoutComments.replace(/,(\s*[}\]])/g, "$1"));
+};
+
+/**
+ * Read and parse a JSON(C) file
+ * @param filePath - File to read
+ * @returns Parsed object or null if missing or invalid
+ */
+const readJsonFile = (filePath: string): Record<string, unknown> | null => {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const parsed = parseJsonc(readFileSync(filePath, "utf-8"));
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not parse ${filePath}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+/**
+ * Read `baseUrl` and `paths` from tsconfig.json (or jsconfig.json), following relative `extends`
+ * Paths are returned relative to the project directory
+ * @param projectDirectory - Absolute path to the project root
+ * @returns Path settings or undefined when none are configured
+ */
+const readTsconfigPaths = (projectDirectory: string): ProjectConfig["tsconfig"] => {
+  let configPath = ["tsconfig.json", "jsconfig.json"].map((file) => path.join(projectDirectory, file)).find((file) => existsSync(file));
+
+  // Follow a few levels of relative `extends` until a config defines paths
+  for (let depth = 0; configPath && depth < 5; depth++) {
+    const tsconfig = readJsonFile(configPath);
+    const compilerOptions = (tsconfig?.compilerOptions ?? {}) as { baseUrl?: string; paths?: Record<string, string[]> };
+
+    if (compilerOptions.paths || compilerOptions.baseUrl) {
+      const configDirectory = path.dirname(configPath);
+      const baseUrl = path.relative(projectDirectory, path.resolve(configDirectory, compilerOptions.baseUrl ?? ".")) || ".";
+      return { baseUrl, paths: compilerOptions.paths };
+    }
+
+    const parent = typeof tsconfig?.extends === "string" && tsconfig.extends.startsWith(".") ? tsconfig.extends : null;
+    configPath = parent ? path.resolve(path.dirname(configPath), parent.endsWith(".json") ? parent : `${parent}.json`) : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * Read the project's components.json and tsconfig paths
+ * @param projectDirectory - Absolute path to the project root
+ * @returns Project configuration, or undefined when the project has neither file
+ */
+export const readProjectConfig = (projectDirectory: string | undefined): ProjectConfig | undefined => {
+  if (!projectDirectory) {
+    return undefined;
+  }
+
+  const componentsJson = readJsonFile(path.join(projectDirectory, "components.json"));
+  const tsconfig = readTsconfigPaths(projectDirectory);
+
+  if (!componentsJson && !tsconfig) {
+    return undefined;
+  }
+
+  return {
+    componentsJson: componentsJson
+      ? {
+          style: componentsJson.style as string | undefined,
+          rsc: componentsJson.rsc as boolean | undefined,
+          tsx: componentsJson.tsx as boolean | undefined,
+          tailwind: componentsJson.tailwind as NonNullable<ProjectConfig["componentsJson"]>["tailwind"],
+          aliases: componentsJson.aliases as Record<string, string> | undefined,
+        }
+      : undefined,
+    tsconfig,
+  };
+};
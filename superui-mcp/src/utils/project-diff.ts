@@ -0,0 +1,33 @@
+import { httpClient } from "./http-client.js";
+
+/**
+ * Unified diffs of project files for install_components and apply_component_usage
+ * The API server computes them (POST /api/project/diff), so the diff format matches the server's other diffs
+ */
+
+export interface ProjectFileContents {
+  /** Path relative to the project root, shown in the diff header */
+  path: string;
+  /** Contents in the project, or null when the file does not exist */
+  oldContent: string | null;
+  newContent: string;
+}
+
+interface ProjectDiffResponse {
+  diffs: string[];
+  timestamp: string;
+}
+
+/**
+ * Diff project files against the contents a tool is about to write
+ * @param files - Current and new contents of each file
+ * @returns Unified diff per file, in the same order; empty for unchanged files
+ * @throws Error if the API server cannot be reached or rejects the files
+ */
+export const fetchProjectDiffs = async (files: ProjectFileContents[]): Promise<string[]> => {
+  if (files.length === 0) {
+    return [];
+  }
+  const { data } = await httpClient.post<ProjectDiffResponse>("/api/project/diff", { files });
+  return data.diffs;
+};
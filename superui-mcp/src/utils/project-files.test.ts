@@ -0,0 +1,104 @@
+/**
+ * Behaviour checks for planning and writing install_components changes
+ */
+
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { applyProjectChanges, planProjectChanges } from "./project-files.js";
+
+describe("planProjectChanges", () => {
+  let projectDirectory: string;
+
+  beforeEach(() => {
+    projectDirectory = mkdtempSync(path.join(tmpdir(), "superui-project-"));
+    writeFileSync(path.join(projectDirectory, "package.json"), `${JSON.stringify({ name: "app", dependencies: { react: "^19.0.0" } }, null, 2)}\n`);
+  });
+
+  afterEach(() => {
+    rmSync(projectDirectory, { recursive: true, force: true });
+  });
+
+  it("creates new files and keeps locally changed ones as conflicts", () => {
+    mkdirSync(path.join(projectDirectory, "components/ui"), { recursive: true });
+    writeFileSync(path.join(projectDirectory, "components/ui/badge.tsx"), "local\n");
+    writeFileSync(path.join(projectDirectory, "components/ui/label.tsx"), "label\n");
+
+    const { changes } = planProjectChanges(
+      projectDirectory,
+      [
+        { componentName: "button", path: "components/ui/button.tsx", content: "button\n" },
+        { componentName: "badge", path: "components/ui/badge.tsx", content: "badge\n" },
+        { componentName: "label", path: "components/ui/label.tsx", content: "label\n" },
+      ],
+      [],
+      false
+    );
+
+    assert.deepEqual(
+      changes.map((change) => [change.path, change.status]),
+      [
+        ["components/ui/button.tsx", "create"],
+        ["components/ui/badge.tsx", "conflict"],
+        ["components/ui/label.tsx", "unchanged"],
+      ]
+    );
+    assert.equal(changes[0].previousContent, null);
+    assert.equal(changes[1].previousContent, "local\n");
+  });
+
+  it("replaces locally changed files with overwrite", () => {
+    mkdirSync(path.join(projectDirectory, "components/ui"), { recursive: true });
+    writeFileSync(path.join(projectDirectory, "components/ui/badge.tsx"), "local\n");
+
+    const changeSet = planProjectChanges(projectDirectory, [{ componentName: "badge", path: "components/ui/badge.tsx", content: "badge\n" }], [], true);
+    assert.equal(changeSet.changes[0].status, "update");
+
+    assert.deepEqual(applyProjectChanges(projectDirectory, changeSet), ["components/ui/badge.tsx"]);
+    assert.equal(readFileSync(path.join(projectDirectory, "components/ui/badge.tsx"), "utf-8"), "badge\n");
+  });
+
+  it("refuses files outside the project", () => {
+    assert.throws(() => planProjectChanges(projectDirectory, [{ componentName: "evil", path: "../evil.ts", content: "" }], [], false), /outside the project/);
+  });
+
+  it("writes dependencies with a registry version range and reports the others", () => {
+    const changeSet = planProjectChanges(projectDirectory, [], ["motion", "zod", "zod@^3.24.0", "react", "@radix-ui/react-slot"], false);
+
+    assert.deepEqual(changeSet.addedDependencies, { zod: "^3.24.0" });
+    assert.deepEqual(changeSet.packagesToAdd, ["motion", "@radix-ui/react-slot"]);
+
+    const packageJson = changeSet.changes.find((change) => change.path === "package.json");
+    assert.deepEqual(JSON.parse(packageJson?.content ?? "{}"), { name: "app", dependencies: { react: "^19.0.0", zod: "^3.24.0" } });
+  });
+
+  it("adds packages without a registry range at the version installed in node_modules", () => {
+    mkdirSync(path.join(projectDirectory, "node_modules/@radix-ui/react-slot"), { recursive: true });
+    writeFileSync(path.join(projectDirectory, "node_modules/@radix-ui/react-slot/package.json"), JSON.stringify({ version: "1.2.3" }));
+
+    const changeSet = planProjectChanges(projectDirectory, [], ["@radix-ui/react-slot", "motion"], false);
+
+    assert.deepEqual(changeSet.addedDependencies, { "@radix-ui/react-slot": "^1.2.3" });
+    assert.deepEqual(changeSet.packagesToAdd, ["motion"]);
+  });
+
+  it("leaves package.json alone when no missing package has a known version", () => {
+    const changeSet = planProjectChanges(projectDirectory, [], ["motion"], false);
+
+    assert.deepEqual(changeSet.changes, []);
+    assert.deepEqual(changeSet.packagesToAdd, ["motion"]);
+    assert.equal(changeSet.packageJsonMissing, false);
+  });
+
+  it("reports every dependency when the project has no package.json", () => {
+    rmSync(path.join(projectDirectory, "package.json"));
+
+    const changeSet = planProjectChanges(projectDirectory, [], ["motion", "zod@^3.24.0", "zod"], false);
+
+    assert.deepEqual(changeSet.changes, []);
+    assert.deepEqual(changeSet.packagesToAdd, ["motion", "zod"]);
+    assert.equal(changeSet.packageJsonMissing, true);
+  });
+});
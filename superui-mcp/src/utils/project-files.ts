@@ -0,0 +1,176 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * Project file changes for install_components
+ * Compares component files from the API server with the project, then writes them (or only plans them for a dry run)
+ */
+
+export interface ProjectFile {
+  componentName: string;
+  /** Path relative to the project root, using forward slashes */
+  path: string;
+  content: string;
+}
+
+export interface ProjectFileChange {
+  /** Path relative to the project root */
+  path: string;
+  /** Component the file belongs to, or "package.json" for dependency changes */
+  componentName: string;
+  /**
+   * create: new file; update: existing file that is replaced (overwrite);
+   * conflict: existing file with local changes that is kept; unchanged: identical file
+   */
+  status: "create" | "update" | "conflict" | "unchanged";
+  content: string;
+  /** Contents in the project before the change, or null when the file does not exist */
+  previousContent: string | null;
+}
+
+export interface ProjectChangeSet {
+  changes: ProjectFileChange[];
+  /**
+   * npm packages added to package.json, with the version range from their registry item (e.g. "zod": "^3.24.0")
+   * or, without one, a caret range of the version already installed in the project's node_modules
+   */
+  addedDependencies: Record<string, string>;
+  /** Missing npm packages with no known version, left to the package manager's add command to resolve */
+  packagesToAdd: string[];
+  /** True when the project has no package.json, so every missing package is in packagesToAdd */
+  packageJsonMissing: boolean;
+}
+
+/**
+ * Split an npm dependency spec into name and version range
+ * @param spec - Dependency such as "motion", "@radix-ui/react-slot" or "zod@^3.24.0"
+ * @returns Package name and range (undefined when the spec has none)
+ */
+const parseDependencySpec = (spec: string): { name: string; range?: string } => {
+  const versionAt = spec.indexOf("@", 1);
+  return versionAt === -1 ? { name: spec } : { name: spec.slice(0, versionAt), range: spec.slice(versionAt + 1) || undefined };
+};
+
+/**
+ * Read a project file
+ * @param filePath - Absolute path
+ * @returns Contents, or null when the file does not exist
+ */
+const readExistingFile = (filePath: string): string | null => (existsSync(filePath) ? readFileSync(filePath, "utf-8") : null);
+
+/**
+ * Get the version of a package already installed in the project (e.g. as a dependency of another package)
+ * @param projectDirectory - Project root
+ * @param name - Package name
+ * @returns Caret range of the installed version, or undefined when it is not installed
+ */
+const getInstalledRange = (projectDirectory: string, name: string): string | undefined => {
+  const manifest = readExistingFile(path.join(projectDirectory, "node_modules", name, "package.json"));
+  const version = manifest === null ? undefined : (JSON.parse(manifest) as { version?: unknown }).version;
+  return typeof version === "string" && /^\d+\.\d+\.\d+/.test(version) ? `^${version}` : undefined;
+};
+
+/**
+ * Plan the package.json change that adds missing dependencies
+ * Dependencies are written with their registry version range, or the range of the version already installed;
+ * the others are returned for the package manager to add
+ * @param projectDirectory - Project root
+ * @param npmDependencies - Dependencies the component files need
+ * @returns Change (null when nothing is written), added dependencies, packages to add, and whether package.json is missing
+ */
+const planPackageJsonChange = (
+  projectDirectory: string,
+  npmDependencies: string[]
+): { change: ProjectFileChange | null; added: Record<string, string>; packagesToAdd: string[]; packageJsonMissing: boolean } => {
+  const current = readExistingFile(path.join(projectDirectory, "package.json"));
+  if (current === null) {
+    const packagesToAdd = [...new Set(npmDependencies.map((spec) => parseDependencySpec(spec).name))];
+    return { change: null, added: {}, packagesToAdd, packageJsonMissing: true };
+  }
+
+  const packageJson = JSON.parse(current) as Record<string, unknown> & {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    peerDependencies?: Record<string, string>;
+  };
+  const declared = { ...packageJson.peerDependencies, ...packageJson.devDependencies, ...packageJson.dependencies };
+
+  // A package can be listed both bare (catalog) and with a range (registry item); the range wins
+  const missing = new Map<string, string | undefined>();
+  for (const { name, range } of npmDependencies.map(parseDependencySpec)) {
+    if (!(name in declared)) {
+      missing.set(name, missing.get(name) ?? range);
+    }
+  }
+  const resolved = [...missing].map(([name, range]) => [name, range ?? getInstalledRange(projectDirectory, name)] as const);
+  const added = Object.fromEntries(resolved.flatMap(([name, range]) => (range ? [[name, range] as const] : [])));
+  const packagesToAdd = resolved.flatMap(([name, range]) => (range ? [] : [name]));
+  if (Object.keys(added).length === 0) {
+    return { change: null, added, packagesToAdd, packageJsonMissing: false };
+  }
+
+  // Keep the file's indentation; package managers keep dependencies sorted by name
+  const indent = current.match(/^([ \t]+)"/m)?.[1] ?? "  ";
+  const dependencies = Object.fromEntries(Object.entries({ ...packageJson.dependencies, ...added }).sort(([a], [b]) => a.localeCompare(b)));
+  const content = `${JSON.stringify({ ...packageJson, dependencies }, null, indent)}\n`;
+
+  return {
+    change: { path: "package.json", componentName: "package.json", status: "update", content, previousContent: current },
+    added,
+    packagesToAdd,
+    packageJsonMissing: false,
+  };
+};
+
+/**
+ * Compare component files and dependencies with the project
+ * @param projectDirectory - Absolute project root
+ * @param files - Component files from the API server
+ * @param npmDependencies - npm packages the files need
+ * @param overwrite - Replace existing files that differ instead of reporting them as conflicts
+ * @returns Planned changes with the current contents of each file
+ * @throws Error if a file path leaves the project directory
+ */
+export const planProjectChanges = (projectDirectory: string, files: ProjectFile[], npmDependencies: string[], overwrite: boolean): ProjectChangeSet => {
+  const root = path.resolve(projectDirectory);
+
+  const changes = files.map((file): ProjectFileChange => {
+    const absolutePath = path.resolve(root, file.path);
+    if (!absolutePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Refusing to write outside the project: ${file.path}`);
+    }
+
+    const current = readExistingFile(absolutePath);
+    const status = current === null ? "create" : current === file.content ? "unchanged" : overwrite ? "update" : "conflict";
+    return { path: file.path, componentName: file.componentName, status, content: file.content, previousContent: current };
+  });
+
+  const packageJsonChange = planPackageJsonChange(root, npmDependencies);
+  return {
+    changes: packageJsonChange.change ? [...changes, packageJsonChange.change] : changes,
+    addedDependencies: packageJsonChange.added,
+    packagesToAdd: packageJsonChange.packagesToAdd,
+    packageJsonMissing: packageJsonChange.packageJsonMissing,
+  };
+};
+
+/**
+ * Write planned changes to the project
+ * Only created and updated files are written; conflicts and unchanged files are left alone
+ * @param projectDirectory - Absolute project root
+ * @param changeSet - Changes from planProjectChanges
+ * @returns Paths written
+ */
+export const applyProjectChanges = (projectDirectory: string, changeSet: ProjectChangeSet): string[] => {
+  const written: string[] = [];
+  for (const change of changeSet.changes) {
+    if (change.status !== "create" && change.status !== "update") {
+      continue;
+    }
+    const absolutePath = path.resolve(projectDirectory, change.path);
+    mkdirSync(path.dirname(absolutePath), { recursive: true });
+    writeFileSync(absolutePath, change.content);
+    written.push(change.path);
+  }
+  return written;
+};
@@ -0,0 +1,230 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { ProjectConfig, readProjectConfig } from "./project-config.js";
+
+/**
+ * Project inspector
+ * Scans a project directory for its framework, React and Tailwind setup, shadcn config and existing component files
+ */
+
+export interface ProjectInspection {
+  framework: {
+    name: "next" | "vite" | "remix" | "astro" | "unknown";
+    router?: "app" | "pages";
+    version?: string;
+  };
+  reactVersion?: string;
+  tailwind: {
+    version?: string;
+    major?: 3 | 4;
+    config?: string;
+    css?: string;
+  };
+  shadcn: {
+    configured: boolean;
+    style?: string;
+    baseColor?: string;
+    rsc?: boolean;
+    tsx?: boolean;
+  };
+  /** Components directory relative to the project root */
+  componentsDirectory?: string;
+  /** Component modules relative to the components directory, without extension (e.g. "ui/button") */
+  componentFiles: string[];
+}
+
+export const COMPONENT_EXTENSIONS = [".tsx", ".jsx", ".ts", ".js"];
+const MAX_SCAN_DEPTH = 3;
+
+/**
+ * Find the first existing file among candidates
+ * @param projectDirectory - Project root
+ * @param candidates - Paths relative to the project root
+ * @returns Matching relative path or undefined
+ */
+const findFile = (projectDirectory: string, candidates: string[]): string | undefined =>
+  candidates.find((candidate) => existsSync(path.join(projectDirectory, candidate)));
+
+/**
+ * Read the installed version of a package from node_modules
+ * @param projectDirectory - Project root
+ * @param packageName - Package to look up
+ * @returns Installed version or undefined
+ */
+const readInstalledVersion = (projectDirectory: string, packageName: string): string | undefined => {
+  try {
+    const packageJson = JSON.parse(readFileSync(path.join(projectDirectory, "node_modules", packageName, "package.json"), "utf-8")) as { version?: string };
+    return packageJson.version;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Detect the framework and, for Next.js, the router in use
+ * @param projectDirectory - Project root
+ * @param dependencies - Merged dependencies and devDependencies
+ * @returns Framework information
+ */
+const detectFramework = (projectDirectory: string, dependencies: Record<string, string>): ProjectInspection["framework"] => {
+  if (dependencies.next) {
+    const hasAppRouter = findFile(projectDirectory, ["app", "src/app"]) !== undefined;
+    return { name: "next", router: hasAppRouter ? "app" : "pages", version: readInstalledVersion(projectDirectory, "next") ?? dependencies.next };
+  }
+  if (dependencies.astro) {
+    return { name: "astro", version: readInstalledVersion(projectDirectory, "astro") ?? dependencies.astro };
+  }
+  // React Router v7 framework mode is the successor of Remix
+  const remixPackage = Object.keys(dependencies).find((name) => name.startsWith("@remix-run/") || name === "@react-router/dev");
+  if (remixPackage) {
+    return { name: "remix", version: readInstalledVersion(projectDirectory, remixPackage) ?? dependencies[remixPackage] };
+  }
+  if (dependencies.vite || findFile(projectDirectory, ["vite.config.ts", "vite.config.js", "vite.config.mjs"])) {
+    return { name: "vite", version: readInstalledVersion(projectDirectory, "vite") ?? dependencies.vite };
+  }
+  return { name: "unknown" };
+};
+
+/**
+ * Detect the Tailwind CSS version and setup
+ * v4 projects have no tailwind.config by default and import Tailwind from CSS; v3 projects use a config file
+ * @param projectDirectory - Project root
+ * @param dependencies - Merged dependencies and devDependencies
+ * @param css - CSS entry from components.json
+ * @param configFile - Tailwind config from components.json
+ * @returns Tailwind information
+ */
+const detectTailwind = (projectDirectory: string, dependencies: Record<string, string>, css?: string, configFile?: string): ProjectInspection["tailwind"] => {
+  const version = readInstalledVersion(projectDirectory, "tailwindcss") ?? dependencies.tailwindcss;
+  const config =
+    (configFile && existsSync(path.join(projectDirectory, configFile)) ? configFile : undefined) ??
+    findFile(projectDirectory, ["tailwind.config.ts", "tailwind.config.js", "tailwind.config.mjs", "tailwind.config.cjs"]);
+
+  const declaredMajor = version?.match(/(\d+)\./)?.[1];
+  let major: 3 | 4 | undefined = declaredMajor === "4" ? 4 : declaredMajor === "3" ? 3 : undefined;
+
+  if (!major && (dependencies["@tailwindcss/postcss"] || dependencies["@tailwindcss/vite"])) {
+    major = 4;
+  }
+  if (!major && css && existsSync(path.join(projectDirectory, css))) {
+    major = /@import\s+["']tailwindcss["']/.test(readFileSync(path.join(projectDirectory, css), "utf-8")) ? 4 : 3;
+  }
+  if (!major && config) {
+    major = 3;
+  }
+
+  return { version, major, config, css };
+};
+
+/**
+ * Map a components.json alias to an existing directory through the tsconfig paths
+ * @param projectDirectory - Project root
+ * @param projectConfig - Project configuration
+ * @param alias - Alias such as "@/components/ui"
+ * @returns Directory relative to the project root, or undefined if no path matches or the directory does not exist
+ */
+const resolveAliasDirectory = (projectDirectory: string, projectConfig: ProjectConfig | undefined, alias: string): string | undefined => {
+  const paths = projectConfig?.tsconfig?.paths ?? {};
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const prefix = pattern.replace(/\/?\*$/, "");
+    if (targets[0] && (alias === prefix || alias.startsWith(`${prefix}/`))) {
+      const directory = path.join(projectConfig?.tsconfig?.baseUrl ?? ".", targets[0].replace(/\/?\*$/, ""), alias.slice(prefix.length));
+      if (existsSync(path.join(projectDirectory, directory))) {
+        return path.normalize(directory);
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Resolve the components directory from the components alias and tsconfig paths
+ * @param projectDirectory - Project root
+ * @returns Components directory relative to the project root, or undefined if none exists
+ */
+const findComponentsDirectory = (projectDirectory: string): string | undefined => {
+  const projectConfig = readProjectConfig(projectDirectory);
+  const alias = projectConfig?.componentsJson?.aliases?.components;
+  return (
+    (alias ? resolveAliasDirectory(projectDirectory, projectConfig, alias) : undefined) ??
+    findFile(projectDirectory, ["src/components", "components", "app/components"])
+  );
+};
+
+/**
+ * Resolve the directory shadcn writes ui components to
+ * Uses the ui alias (or `<components alias>/ui`), then the `ui` folder of the components directory
+ * @param projectDirectory - Project root
+ * @returns ui directory relative to the project root, or undefined if none exists
+ */
+export const findUiDirectory = (projectDirectory: string): string | undefined => {
+  const projectConfig = readProjectConfig(projectDirectory);
+  const aliases = projectConfig?.componentsJson?.aliases ?? {};
+  const alias = aliases.ui ?? (aliases.components ? `${aliases.components}/ui` : undefined);
+  const mapped = alias ? resolveAliasDirectory(projectDirectory, projectConfig, alias) : undefined;
+  if (mapped) {
+    return mapped;
+  }
+
+  const componentsDirectory = findComponentsDirectory(projectDirectory);
+  return componentsDirectory && existsSync(path.join(projectDirectory, componentsDirectory, "ui")) ? path.join(componentsDirectory, "ui") : undefined;
+};
+
+/**
+ * List component modules below a directory
+ * @param directory - Absolute directory to scan
+ * @param prefix - Relative prefix for nested directories
+ * @param depth - Current depth
+ * @returns Module paths relative to the scanned root, without extension
+ */
+const listComponentFiles = (directory: string, prefix = "", depth = 0): string[] => {
+  if (depth > MAX_SCAN_DEPTH) {
+    return [];
+  }
+
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.isDirectory()) {
+      return entry.name === "node_modules" || entry.name.startsWith(".")
+        ? []
+        : listComponentFiles(path.join(directory, entry.name), `${prefix}${entry.name}/`, depth + 1);
+    }
+    const extension = path.extname(entry.name);
+    return COMPONENT_EXTENSIONS.includes(extension) && !entry.name.endsWith(".d.ts") ? [`${prefix}${entry.name.slice(0, -extension.length)}`] : [];
+  });
+};
+
+/**
+ * Inspect a project directory
+ * @param projectDirectory - Absolute path to the project root
+ * @returns Inspection report
+ */
+export const inspectProject = (projectDirectory: string): ProjectInspection => {
+  const packageJson = (() => {
+    try {
+      return JSON.parse(readFileSync(path.join(projectDirectory, "package.json"), "utf-8")) as {
+        dependencies?: Record<string, string>;
+        devDependencies?: Record<string, string>;
+      };
+    } catch {
+      return {};
+    }
+  })();
+  const dependencies = { ...packageJson.devDependencies, ...packageJson.dependencies };
+  const componentsJson = readProjectConfig(projectDirectory)?.componentsJson;
+  const componentsDirectory = findComponentsDirectory(projectDirectory);
+
+  return {
+    framework: detectFramework(projectDirectory, dependencies),
+    reactVersion: readInstalledVersion(projectDirectory, "react") ?? dependencies.react,
+    tailwind: detectTailwind(projectDirectory, dependencies, componentsJson?.tailwind?.css, componentsJson?.tailwind?.config),
+    shadcn: {
+      configured: componentsJson !== undefined,
+      style: componentsJson?.style,
+      baseColor: componentsJson?.tailwind?.baseColor,
+      rsc: componentsJson?.rsc,
+      tsx: componentsJson?.tsx,
+    },
+    componentsDirectory,
+    componentFiles: componentsDirectory ? listComponentFiles(path.join(projectDirectory, componentsDirectory)) : [],
+  };
+};
@@ -6,7 +6,8 @@ import tseslint from "typescript-eslint";
 
 export default tseslint.config(
   {
-    ignores: ["eslint.config.mjs"],
+    // The preview sandbox is a browser bundle with its own package and tsconfig
+    ignores: ["eslint.config.mjs", "preview-sandbox/", "preview-sandbox-src/"],
   },
   eslint.configs.recommended,
   ...tseslint.configs.recommendedTypeChecked,
@@ -37,5 +38,12 @@ export default tseslint.config(
         },
       ],
     },
+  },
+  {
+    // node:test's describe and it return promises the test runner awaits itself
+    files: ["**/*.test.ts"],
+    rules: {
+      "@typescript-eslint/no-floating-promises": "off",
+    },
   }
 );
@@ -0,0 +1,10 @@
+import { clsx, type ClassValue } from "clsx";
+import { twMerge } from "tailwind-merge";
+
+/**
+ * Merge class names, letting later Tailwind classes override earlier ones
+ * Written to @/lib/utils when no cached registry item provides it, as `shadcn init` does in a project
+ */
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
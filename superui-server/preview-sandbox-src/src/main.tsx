@@ -0,0 +1,95 @@
+/**
+ * Preview sandbox entry point
+ * Exposes window.renderPreview, which renders a catalog usage snippet with its component's imports in scope
+ */
+
+import * as React from "react";
+import { flushSync } from "react-dom";
+import { createRoot, type Root } from "react-dom/client";
+import { transform } from "sucrase";
+import { scopes } from "@/preview-scopes";
+
+type PreviewTheme = "light" | "dark";
+
+interface PreviewInput {
+  componentName: string;
+  code: string;
+  theme: PreviewTheme;
+}
+
+declare global {
+  interface Window {
+    renderPreview: (input: PreviewInput) => Promise<void>;
+  }
+}
+
+type RenderSnippet = (react: typeof React, ...values: unknown[]) => React.ReactNode;
+
+interface PreviewBoundaryProps {
+  onError: (error: unknown) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Catches errors thrown while the snippet renders, so they reject the preview instead of leaving it blank
+ */
+class PreviewBoundary extends React.Component<PreviewBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+let root: Root | null = null;
+
+/**
+ * Compile a usage snippet into a function of the names in scope
+ * @param code - JSX usage snippet
+ * @param names - Names the snippet can use
+ * @returns Function returning the rendered element
+ */
+function compileSnippet(code: string, names: string[]): RenderSnippet {
+  const { code: compiled } = transform(`const preview = <>${code}</>;`, { transforms: ["jsx", "typescript"], jsxRuntime: "classic", production: true });
+  return new Function("React", ...names, `${compiled}\nreturn preview;`) as RenderSnippet;
+}
+
+/**
+ * Wait until the browser has painted a few frames, so effects, portals and layout have settled
+ * @param frames - Frames to wait
+ */
+async function waitForFrames(frames: number): Promise<void> {
+  for (let frame = 0; frame < frames; frame++) {
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+  }
+}
+
+window.renderPreview = async ({ componentName, code, theme }) => {
+  const scope = scopes[componentName];
+  if (!scope) {
+    throw new Error(`${componentName} is not in the preview sandbox: cache its registry item (npm run registry:cache) and rebuild the sandbox (npm run preview:build)`);
+  }
+
+  document.documentElement.classList.toggle("dark", theme === "dark");
+  document.documentElement.style.colorScheme = theme;
+
+  const names = Object.keys(scope);
+  const element = compileSnippet(code, names)(React, ...names.map((name) => scope[name]));
+
+  let failure: unknown = null;
+  root ??= createRoot(document.getElementById("preview-root")!);
+  flushSync(() => root?.render(<PreviewBoundary onError={(error) => (failure = error)}>{element}</PreviewBoundary>));
+  await waitForFrames(2);
+
+  if (failure) {
+    throw failure;
+  }
+};
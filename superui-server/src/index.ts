@@ -12,6 +12,16 @@ import morgan from "morgan";
 import componentRoutes from "./routes/component.js";
 import landingRoutes from "./routes/landing.js";
 import cloneRoutes from "./routes/clone.js";
+import adminRoutes from "./routes/admin.js";
+import registryRoutes from "./routes/registry.js";
+import projectRoutes from "./routes/project.js";
+import mirrorRoutes from "./routes/mirror.js";
+import { initializeCatalog, watchCatalog } from "./utils/component-catalog.js";
+import { initializeSemanticSearch } from "./utils/semantic-index.js";
+import { refreshMirrorIndex } from "./utils/registry-mirror.js";
+import { initializeRegistries } from "./services/registry-service.js";
+import { initializeTeamRegistry } from "./services/team-registry-service.js";
+import { initializeSynonyms } from "./services/synonym-service.js";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -48,7 +58,7 @@ const corsOptions = {
   },
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "User-Agent"],
+  allowedHeaders: ["Content-Type", "Authorization", "User-Agent", "X-API-Key"],
 };
 
 app.use(cors(corsOptions));
@@ -92,7 +102,40 @@ app.get("/", (req, res) => {
         get: "/api/component/:componentName",
         search: "/api/component/search?q=query",
         list: "/api/component/list",
-        create: "POST /api/component",
+        lookup: "POST /api/component",
+        details: "POST /api/component/details",
+        detailsBatch: "POST /api/component/details/batch",
+        compare: "POST /api/component/compare",
+        installPlan: "POST /api/component/install-plan",
+        install: "POST /api/component/install",
+        drift: "POST /api/component/drift",
+        preview: "/api/component/:componentName/preview?theme=light|dark",
+        versions: "/api/component/:componentName/versions?from=revision&to=revision",
+      },
+      registry: {
+        list: "/api/registry/components",
+        get: "/api/registry/components/:componentName",
+        create: "POST /api/registry/components",
+        update: "PUT /api/registry/components/:componentName",
+        delete: "DELETE /api/registry/components/:componentName",
+      },
+      project: {
+        inspect: "POST /api/project/inspect",
+        diff: "POST /api/project/diff",
+      },
+      mirror: {
+        item: "/r/:name.json",
+        version: "/r/versions/:hash/:name.json",
+      },
+      admin: {
+        registries: "/api/admin/registries",
+        refreshRegistries: "POST /api/admin/registries/refresh",
+        registryMirror: "/api/admin/registry-mirror",
+        refreshRegistryMirror: "POST /api/admin/registry-mirror/refresh",
+        synonyms: "/api/admin/synonyms",
+        updateSynonym: "PUT /api/admin/synonyms/:phrase",
+        deleteSynonym: "DELETE /api/admin/synonyms/:phrase",
+        searchEval: "/api/admin/search-eval",
       },
     },
     documentation: "https://github.com/superui/api-server",
@@ -104,6 +147,10 @@ app.get("/", (req, res) => {
 app.use("/api", componentRoutes);
 app.use("/api", landingRoutes);
 app.use("/api", cloneRoutes);
+app.use("/api", adminRoutes);
+app.use("/api", registryRoutes);
+app.use("/api", projectRoutes);
+app.use(mirrorRoutes);
 
 // 404 handler
 app.use("*", (req, res) => {
@@ -143,6 +190,27 @@ const gracefulShutdown = (signal: string) => {
   }, 30000);
 };
 
+// Load component catalog and registries (fails startup on invalid or duplicate entries)
+try {
+  await initializeCatalog();
+  await initializeRegistries();
+  await initializeTeamRegistry();
+  await initializeSynonyms();
+  await refreshMirrorIndex();
+} catch (error) {
+  console.error("💥 Failed to load component catalog:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+if (process.env.CATALOG_WATCH !== "false") {
+  watchCatalog();
+}
+
+// Embed the catalog in the background; semantic and hybrid searches use lexical ranking until it is ready
+if (process.env.SEMANTIC_SEARCH !== "false") {
+  void initializeSemanticSearch();
+}
+
 // Start server
 const server = app.listen(PORT, () => {
   console.log("🚀 SuperUI API Server started successfully!");
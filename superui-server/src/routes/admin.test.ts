@@ -0,0 +1,45 @@
+/**
+ * Behaviour checks for the access rules of the admin routes
+ */
+
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import adminRoutes from "./admin.js";
+
+describe("admin routes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    process.env.REGISTRY_API_KEYS = "alice:s3cret";
+    const app = express();
+    app.use(express.json());
+    app.use("/api", adminRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  after(() => {
+    delete process.env.REGISTRY_API_KEYS;
+    server.close();
+  });
+
+  it("requires an API key to refresh registries", async () => {
+    const response = await fetch(`${baseUrl}/admin/registries/refresh`, { method: "POST" });
+    assert.equal(response.status, 401);
+  });
+
+  it("requires an API key to refresh the registry mirror", async () => {
+    const response = await fetch(`${baseUrl}/admin/registry-mirror/refresh`, { method: "POST" });
+    assert.equal(response.status, 401);
+  });
+
+  it("lets anyone read the registry status", async () => {
+    const response = await fetch(`${baseUrl}/admin/registries`);
+    assert.equal(response.status, 200);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Admin routes for SuperUI API Server
+ * Handles catalog and search maintenance endpoints
+ */
+
+import express, { type Request, type Response } from "express";
+import { z } from "zod";
+import { getRegistryStatus, refreshRegistries } from "../services/registry-service.js";
+import { evaluateSearch } from "../services/search-eval-service.js";
+import { deleteSynonym, listSynonyms, upsertSynonym } from "../services/synonym-service.js";
+import { requireApiKey } from "../utils/api-key-auth.js";
+import { getMirrorStatus, refreshMirrorIndex } from "../utils/registry-mirror.js";
+import { parseSearchMode, SEARCH_MODES } from "../utils/semantic-index.js";
+import { normalizePhrase, synonymDictionarySchema } from "../utils/synonyms.js";
+import { tokenize } from "../utils/text-analysis.js";
+
+const router = express.Router();
+
+/**
+ * GET /api/admin/registries
+ * List configured registries and the result of their last refresh
+ */
+router.get("/admin/registries", (req: Request, res: Response): void => {
+  res.json({
+    registries: getRegistryStatus(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * POST /api/admin/registries/refresh
+ * Re-read registries.json and reload registry indexes into the catalog (requires API key)
+ * Optional body: { names: string[] } to refresh only some registries
+ */
+router.post("/admin/registries/refresh", requireApiKey, (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const { names } = (req.body ?? {}) as { names?: unknown };
+
+      if (names !== undefined && (!Array.isArray(names) || !names.every((name) => typeof name === "string"))) {
+        res.status(400).json({
+          error: "names must be an array of registry names",
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      console.log(`🔄 Registry refresh request by ${res.locals.actor as string}${names ? `: ${names.join(", ")}` : ""}`);
+
+      const registries = await refreshRegistries(names);
+      const failed = registries.filter((registry) => registry.error);
+
+      res.json({
+        registries,
+        refreshed: registries.length - failed.length,
+        failed: failed.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Registry refresh error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+/**
+ * GET /api/admin/registry-mirror
+ * Show whether mirror mode is enabled, where the mirror lives and how many items it holds
+ */
+router.get("/admin/registry-mirror", (req: Request, res: Response): void => {
+  res.json({
+    mirror: getMirrorStatus(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * POST /api/admin/registry-mirror/refresh
+ * Re-read the mirror directory after `npm run registry:sync` (requires API key)
+ */
+router.post("/admin/registry-mirror/refresh", requireApiKey, (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const mirror = await refreshMirrorIndex();
+      console.log(`🔄 Registry mirror refreshed by ${res.locals.actor as string}: ${mirror.itemCount} items`);
+
+      res.json({
+        mirror,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Registry mirror refresh error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+/**
+ * Expansions sent when editing a synonym
+ */
+const synonymUpdateSchema = z
+  .object({
+    expansions: synonymDictionarySchema.valueSchema,
+  })
+  .strict();
+
+/**
+ * GET /api/admin/synonyms
+ * List the search synonym dictionary
+ */
+router.get("/admin/synonyms", (req: Request, res: Response): void => {
+  const synonyms = listSynonyms();
+
+  res.json({
+    synonyms,
+    count: Object.keys(synonyms).length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * PUT /api/admin/synonyms/:phrase
+ * Add or replace the expansions of a word or phrase (requires API key)
+ * Body: { expansions: string[] } with component names or search terms
+ */
+router.put("/admin/synonyms/:phrase", requireApiKey, (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const parsed = synonymUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({
+          error: "Invalid synonym",
+          issues: parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (tokenize(req.params.phrase).length === 0) {
+        res.status(400).json({
+          error: `Phrase "${req.params.phrase}" only contains stop words and would never match a query`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const { phrase, created } = await upsertSynonym(req.params.phrase, parsed.data.expansions, res.locals.actor as string);
+
+      res.status(created ? 201 : 200).json({
+        phrase,
+        expansions: listSynonyms()[phrase],
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Synonym update error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+/**
+ * DELETE /api/admin/synonyms/:phrase
+ * Remove a word or phrase from the dictionary (requires API key)
+ */
+router.delete("/admin/synonyms/:phrase", requireApiKey, (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const actor = res.locals.actor as string;
+      const deleted = await deleteSynonym(req.params.phrase, actor);
+
+      if (!deleted) {
+        res.status(404).json({
+          error: `Synonym "${req.params.phrase}" not found`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.json({
+        deleted: normalizePhrase(req.params.phrase),
+        deletedBy: actor,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Synonym delete error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+/**
+ * GET /api/admin/search-eval?mode=lexical
+ * Run the labeled queries in search-eval.json and report MRR, recall@5 and nDCG@10
+ * The response includes a diff against the saved baseline (null when none was saved with `npm run search:eval -- --save-baseline`)
+ */
+router.get("/admin/search-eval", (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const mode = req.query.mode === undefined ? "lexical" : parseSearchMode(req.query.mode);
+      if (!mode) {
+        res.status(400).json({
+          error: `Invalid mode: expected one of ${SEARCH_MODES.join(", ")}`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const { report, diff } = await evaluateSearch(mode);
+
+      res.json({
+        ...report,
+        baseline: diff,
+      });
+    } catch (error) {
+      console.error("❌ Search evaluation error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+export default router;
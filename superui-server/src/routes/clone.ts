@@ -5,6 +5,9 @@
 
 import express, { type Request, type Response } from "express";
 import { handleCloneRequest, type CloneRequest } from "../services/clone-service.js";
+import { parsePackageManager } from "../utils/package-manager.js";
+import { parseProjectConfig } from "../utils/project-config.js";
+import { parseProjectInspection } from "../utils/project-inspection.js";
 import { captureScreenshot, type ScreenshotOptions } from "../services/screenshot-service.js";
 
 const router = express.Router();
@@ -37,6 +40,9 @@ router.post("/clone", (req: Request, res: Response): void => {
         differences: body.differences,
         iteration: body.iteration,
         context: body.context,
+        packageManager: parsePackageManager(body.packageManager),
+        projectConfig: parseProjectConfig(body.projectConfig),
+        projectInspection: parseProjectInspection(body.projectInspection),
         screenshotOptions: body.screenshotOptions,
       };
 
@@ -68,6 +74,7 @@ router.post("/clone", (req: Request, res: Response): void => {
         text: result.text,
         screenshots: result.screenshots,
         components: result.components,
+        installPlan: result.installPlan,
         installations: result.installations,
         metadata: {
           requestType: cloneRequest.requestType,
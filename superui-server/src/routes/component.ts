@@ -3,18 +3,112 @@
  * Handles HTTP requests for component information
  */
 
-import express from 'express';
+import express, { type Request, type Response } from 'express';
+import { z } from 'zod';
 import { 
   getComponent, 
   ComponentRequest,
   listComponents,
   ListComponentsRequest,
   getComponentDetails,
-  ComponentDetailsRequest
+  ComponentDetailsRequest,
+  getComponentDetailsBatch,
+  getComponentComparison,
+  DETAILS_BATCH_LIMIT,
+  DETAILS_FORMATS,
+  getInstallPlan
 } from '../services/component-service.js';
+import { checkComponentDrift } from '../services/drift-service.js';
+import { getComponentInstallation } from '../services/install-service.js';
+import { getComponentPreview, getPreviewUnavailableReason, parsePreviewThemes, PREVIEW_THEMES } from '../services/preview-service.js';
+import { getComponentVersion, getComponentVersions } from '../services/version-service.js';
+import { COMPARE_MAX_COMPONENTS, COMPARE_MIN_COMPONENTS } from '../utils/component-comparison.js';
+import { getComponentByName } from '../utils/component-finder.js';
+import { suggestComponents } from '../utils/fuzzy-match.js';
+import { installPinSchema } from '../utils/install-plan.js';
+import { searchFiltersSchema } from '../utils/search-facets.js';
+import { parseSearchMode, SEARCH_MODES } from '../utils/semantic-index.js';
+import { parsePackageManager } from '../utils/package-manager.js';
+import { parseProjectConfig } from '../utils/project-config.js';
+import { parseProjectInspection } from '../utils/project-inspection.js';
 
 const router = express.Router();
 
+/**
+ * Parse the explain flag of a search request
+ * @param value - Body value or query string parameter
+ * @returns True for true or "true"
+ */
+function parseExplain(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+/**
+ * Check the previews option of a request
+ * @param value - Body value
+ * @returns True when missing, false, true, a theme or an array of themes
+ */
+function isValidPreviews(value: unknown): boolean {
+  return value === undefined || value === false || parsePreviewThemes(value) !== undefined;
+}
+
+/**
+ * Send a 400 response for a request body that failed validation
+ * @param res - Response
+ * @param error - Validation error
+ */
+function sendInvalidBody(res: Response, error: z.ZodError): void {
+  const issues = error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  res.status(400).json({
+    error: `Invalid request: ${issues[0]}`,
+    issues,
+    timestamp: new Date().toISOString()
+  });
+}
+
+const componentNamesSchema = z
+  .array(z.string().trim().min(1, 'expected a component name'), { message: 'expected an array of component names' })
+  .min(1, 'expected at least one component name');
+
+/**
+ * Project settings sent by the MCP tools; each is parsed leniently by its own parser
+ */
+const projectContextSchema = z.object({
+  absolutePathToCurrentFile: z.string().optional(),
+  absolutePathToProjectDirectory: z.string().optional(),
+  packageManager: z.unknown(),
+  projectConfig: z.unknown(),
+  projectInspection: z.unknown()
+});
+
+const installBodySchema = projectContextSchema.extend({
+  componentNames: componentNamesSchema
+});
+
+const driftBodySchema = projectContextSchema.extend({
+  files: z
+    .array(z.object({ path: z.string().min(1), content: z.string() }), { message: 'expected an array of { path, content }' })
+    .min(1, 'expected at least one file')
+});
+
+const detailsFormatSchema = z.enum(DETAILS_FORMATS, { message: `expected one of ${DETAILS_FORMATS.join(', ')}` }).default('markdown');
+
+const detailsBatchBodySchema = projectContextSchema.extend({
+  componentNames: componentNamesSchema.max(DETAILS_BATCH_LIMIT, `at most ${DETAILS_BATCH_LIMIT} components per request`),
+  format: detailsFormatSchema,
+  pin: installPinSchema.optional()
+});
+
+const compareBodySchema = z.object({
+  componentNames: componentNamesSchema,
+  format: detailsFormatSchema
+});
+
+const installPlanBodySchema = projectContextSchema.extend({
+  componentNames: componentNamesSchema,
+  pin: installPinSchema.optional()
+});
+
 /**
  * POST /api/component
  * Get component information and installation instructions
@@ -32,7 +126,10 @@ router.post('/component', async (req, res) => {
       searchQuery,
       absolutePathToCurrentFile,
       absolutePathToProjectDirectory,
-      standaloneRequestQuery
+      standaloneRequestQuery,
+      packageManager,
+      projectConfig,
+      projectInspection
     } = req.body;
 
     // Check required fields
@@ -49,11 +146,14 @@ router.post('/component', async (req, res) => {
       searchQuery,
       absolutePathToCurrentFile: absolutePathToCurrentFile || '',
       absolutePathToProjectDirectory: absolutePathToProjectDirectory || '',
-      standaloneRequestQuery: standaloneRequestQuery || message || searchQuery
+      standaloneRequestQuery: standaloneRequestQuery || message || searchQuery,
+      packageManager: parsePackageManager(packageManager),
+      projectConfig: parseProjectConfig(projectConfig),
+      projectInspection: parseProjectInspection(projectInspection)
     };
 
     // Get component information
-    const result = await getComponent(componentRequest);
+    const { result, suggestions } = await getComponent(componentRequest);
 
     console.log('📤 Sending component response:', {
       searchQuery,
@@ -63,6 +163,7 @@ router.post('/component', async (req, res) => {
 
     res.json({ 
       result,
+      suggestions,
       metadata: {
         searchQuery,
         timestamp: new Date().toISOString(),
@@ -83,12 +184,13 @@ router.post('/component', async (req, res) => {
 });
 
 /**
- * GET /api/component/search?q=query
+ * GET /api/component/search?q=query[&explain=true]
  * Search for components by query
+ * With explain=true each result carries its score and the matched fields, terms and score contributions
  */
 router.get('/component/search', async (req, res) => {
   try {
-    const { q: query } = req.query;
+    const { q: query, explain } = req.query;
     
     if (!query || typeof query !== 'string') {
       return res.status(400).json({
@@ -100,8 +202,9 @@ router.get('/component/search', async (req, res) => {
     console.log(`🔍 Component search request: "${query}"`);
 
     // Import searchComponents function
-    const { searchComponents } = await import('../utils/component-finder.js');
+    const { explainSearchResults, searchComponents } = await import('../utils/component-finder.js');
     const results = searchComponents(query);
+    const explanations = parseExplain(explain) ? explainSearchResults(query, results) : undefined;
 
     res.json({
       query,
@@ -110,7 +213,9 @@ router.get('/component/search', async (req, res) => {
         displayName: component.displayName,
         description: component.description,
         category: component.category,
-        tags: component.tags
+        tags: component.tags,
+        score: explanations?.get(component.componentName)?.score,
+        explanation: explanations?.get(component.componentName)?.explanation
       })),
       count: results.length,
       timestamp: new Date().toISOString()
@@ -167,6 +272,201 @@ router.get('/component/list', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/component/install-plan
+ * Resolve a deduplicated, topologically ordered install plan for a set of components
+ */
+router.post('/component/install-plan', (req: Request, res: Response): void => {
+  try {
+    const body = installPlanBodySchema.safeParse(req.body);
+    if (!body.success) {
+      sendInvalidBody(res, body.error);
+      return;
+    }
+
+    const { componentNames, packageManager, projectInspection, pin } = body.data;
+
+    console.log(`🧩 Install plan request: ${componentNames.join(', ')}`);
+
+    const plan = getInstallPlan({
+      componentNames,
+      packageManager: parsePackageManager(packageManager),
+      projectInspection: parseProjectInspection(projectInspection),
+      pin
+    });
+
+    res.json({
+      plan,
+      metadata: {
+        componentNames,
+        packageManager: plan.packageManager,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Install plan error:', error);
+
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * POST /api/component/install
+ * Get the files that install components into a project, from the local registry cache
+ * Used by MCP install_components tool, which writes them (or diffs them for a dry run)
+ */
+router.post('/component/install', (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const body = installBodySchema.safeParse(req.body);
+      if (!body.success) {
+        sendInvalidBody(res, body.error);
+        return;
+      }
+
+      const { componentNames, packageManager, projectConfig, projectInspection } = body.data;
+
+      console.log(`📥 Install request: ${componentNames.join(', ')}`);
+
+      const installation = await getComponentInstallation({
+        componentNames,
+        packageManager: parsePackageManager(packageManager),
+        projectConfig: parseProjectConfig(projectConfig),
+        projectInspection: parseProjectInspection(projectInspection)
+      });
+
+      res.json({
+        installation,
+        metadata: {
+          componentNames,
+          packageManager: installation.packageManager,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      });
+    } catch (error) {
+      console.error('❌ Install error:', error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  })();
+});
+
+/**
+ * GET /api/component/:componentName/preview?theme=light|dark
+ * Get the preview thumbnail of a component as a PNG, rendered in the preview sandbox and cached
+ */
+router.get('/component/:componentName/preview', (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const { componentName } = req.params;
+      const theme = parsePreviewThemes(req.query.theme ?? 'light');
+
+      if (!theme || theme.length !== 1) {
+        res.status(400).json({
+          error: `Invalid theme: expected one of ${PREVIEW_THEMES.join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const component = getComponentByName(componentName);
+      if (!component) {
+        res.status(404).json({
+          error: `Component "${componentName}" not found`,
+          suggestions: suggestComponents(componentName),
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const unavailableReason = await getPreviewUnavailableReason();
+      if (unavailableReason) {
+        res.status(503).json({
+          error: unavailableReason,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const preview = await getComponentPreview(component, theme[0]);
+
+      res.set('Cache-Control', 'public, max-age=3600');
+      res.type(preview.mimeType).send(Buffer.from(preview.data, 'base64'));
+    } catch (error) {
+      console.error('❌ Component preview error:', error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  })();
+});
+
+/**
+ * GET /api/component/:componentName/versions
+ * List the recorded versions of a component, newest first
+ * Query from/to (revision label, version hash or "current") select the versions to diff; by default the previous and the current one
+ */
+router.get('/component/:componentName/versions', (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const { componentName } = req.params;
+      const { from, to } = req.query;
+
+      if ((from !== undefined && typeof from !== 'string') || (to !== undefined && typeof to !== 'string')) {
+        res.status(400).json({
+          error: 'Invalid from/to: expected a revision label or version hash',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      console.log(`🕒 Component versions request: "${componentName}"`);
+
+      const versions = await getComponentVersions({ componentName, from, to });
+
+      if (!versions) {
+        res.status(404).json({
+          error: `Component "${componentName}" not found`,
+          suggestions: suggestComponents(componentName),
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (versions.unknownRevisions.length > 0) {
+        res.status(404).json({
+          error: `No recorded version of "${componentName}" at ${versions.unknownRevisions.map(revision => `"${revision}"`).join(' or ')}`,
+          versions: versions.versions,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        ...versions,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('❌ Component versions error:', error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  })();
+});
+
 /**
  * GET /api/component/:componentName
  * Get specific component information
@@ -184,12 +484,14 @@ router.get('/component/:componentName', async (req, res) => {
     if (!component) {
       return res.status(404).json({
         error: `Component "${componentName}" not found`,
+        suggestions: suggestComponents(componentName),
         timestamp: new Date().toISOString()
       });
     }
 
     res.json({
       component,
+      version: getComponentVersion(component),
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -214,31 +516,69 @@ router.post('/component/list', async (req, res) => {
       timestamp: new Date().toISOString()
     });
     
-    const { query, category, limit } = req.body;
+    const { query, category, limit, projectInspection, categories, libraries, tags, excludeTags, hasInstallCommand, mode, explain, previews } = req.body;
+
+    // Validate facet filters
+    const filters = searchFiltersSchema.safeParse({ categories, libraries, tags, excludeTags, hasInstallCommand });
+    if (!filters.success) {
+      return res.status(400).json({
+        error: 'Invalid facet filters',
+        issues: filters.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Validate ranking mode
+    if (mode !== undefined && !parseSearchMode(mode)) {
+      return res.status(400).json({
+        error: `Invalid mode: expected one of ${SEARCH_MODES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Validate preview themes
+    if (!isValidPreviews(previews)) {
+      return res.status(400).json({
+        error: `Invalid previews: expected true or themes from ${PREVIEW_THEMES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
 
     // query is now optional - if not provided, returns all components
     // Create list request
     const listRequest: ListComponentsRequest = {
       query: query || "all",  // Default to "all" if no query provided
       category: category || undefined,
-      limit: limit || undefined  // No default limit - return all matching components
+      limit: limit || undefined,  // No default limit - return all matching components
+      filters: filters.data,
+      mode: parseSearchMode(mode),
+      explain: parseExplain(explain),
+      projectInspection: parseProjectInspection(projectInspection),
+      previews: parsePreviewThemes(previews)
     };
 
     // Get component list
-    const results = await listComponents(listRequest);
+    const { results, total, facets, mode: usedMode, warning, previews: previewBatch } = await listComponents(listRequest);
 
     console.log('📤 Sending list response:', {
       query,
       count: results.length,
+      total,
       timestamp: new Date().toISOString()
     });
 
     res.json({
       results,
+      facets,
+      previews: previewBatch,
       metadata: {
         query,
         category: category || 'all',
+        filters: filters.data,
+        mode: usedMode,
+        warning,
         count: results.length,
+        total,
         timestamp: new Date().toISOString(),
         version: '1.0.0'
       }
@@ -256,10 +596,56 @@ router.post('/component/list', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/component/drift
+ * Compare installed component files against the registry versions in the registry cache
+ * Used by MCP check_component_drift tool, which sends the files of the project's ui directory
+ */
+router.post('/component/drift', (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const body = driftBodySchema.safeParse(req.body);
+      if (!body.success) {
+        sendInvalidBody(res, body.error);
+        return;
+      }
+
+      const { files, projectConfig, projectInspection } = body.data;
+
+      console.log(`📥 Drift request: ${files.length} files`);
+
+      const drift = await checkComponentDrift({
+        files: files.map(file => ({ path: file.path.replace(/\\/g, '/'), content: file.content })),
+        projectConfig: parseProjectConfig(projectConfig),
+        projectInspection: parseProjectInspection(projectInspection)
+      });
+
+      res.json({
+        drift,
+        metadata: {
+          fileCount: files.length,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      });
+    } catch (error) {
+      console.error('❌ Drift check error:', error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  })();
+});
+
 /**
  * POST /api/component/details
  * Get detailed component information for installation
  * Used by MCP get_component_details tool
+ * Body format: "markdown" (default) returns the guide as `result`, "json" as a typed `details` object
+ * Body scenario (e.g. "with react-hook-form") narrows the examples to the best match, falling back to all of them
+ * Body previews (true, "light", "dark" or an array) attaches preview thumbnails
  */
 router.post('/component/details', async (req, res) => {
   try {
@@ -271,7 +657,14 @@ router.post('/component/details', async (req, res) => {
     const {
       componentName,
       absolutePathToCurrentFile,
-      absolutePathToProjectDirectory
+      absolutePathToProjectDirectory,
+      packageManager,
+      projectConfig,
+      projectInspection,
+      format = 'markdown',
+      scenario,
+      previews,
+      pin
     } = req.body;
 
     // Validate required fields
@@ -282,26 +675,69 @@ router.post('/component/details', async (req, res) => {
       });
     }
 
+    if (!detailsFormatSchema.safeParse(format).success) {
+      return res.status(400).json({
+        error: `Invalid format: expected one of ${DETAILS_FORMATS.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (scenario !== undefined && typeof scenario !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid scenario: expected a string',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (!isValidPreviews(previews)) {
+      return res.status(400).json({
+        error: `Invalid previews: expected true or themes from ${PREVIEW_THEMES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const installPin = installPinSchema.optional().safeParse(pin);
+    if (!installPin.success) {
+      return res.status(400).json({
+        error: 'Invalid pin',
+        issues: installPin.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Create details request
     const detailsRequest: ComponentDetailsRequest = {
       componentName,
       absolutePathToCurrentFile: absolutePathToCurrentFile || '',
-      absolutePathToProjectDirectory: absolutePathToProjectDirectory || ''
+      absolutePathToProjectDirectory: absolutePathToProjectDirectory || '',
+      packageManager: parsePackageManager(packageManager),
+      projectConfig: parseProjectConfig(projectConfig),
+      projectInspection: parseProjectInspection(projectInspection),
+      scenario: scenario?.trim() || undefined,
+      previews: parsePreviewThemes(previews),
+      pin: installPin.data
     };
 
     // Get component details
-    const result = await getComponentDetails(detailsRequest);
+    const { result, suggestions, details, previews: previewBatch } = await getComponentDetails(detailsRequest);
 
     console.log('📤 Sending details response:', {
       componentName,
+      format,
       resultLength: result.length,
       timestamp: new Date().toISOString()
     });
 
+    // JSON responses carry the guide as data (null with suggestions when the name is unknown)
     res.json({
-      result,
+      ...(format === 'json' ? { details: details ?? null } : { result }),
+      suggestions,
+      previews: previewBatch,
       metadata: {
         componentName,
+        format,
+        scenario: detailsRequest.scenario,
+        packageManager: detailsRequest.packageManager,
         timestamp: new Date().toISOString(),
         version: '1.0.0'
       }
@@ -319,4 +755,145 @@ router.post('/component/details', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/component/details/batch
+ * Get details for several components in one request
+ * Returns one merged install command and one import block for the set
+ */
+router.post('/component/details/batch', (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      console.log('📥 Received batch details request:', {
+        body: req.body as unknown,
+        timestamp: new Date().toISOString()
+      });
+
+      // Validate request body
+      const body = detailsBatchBodySchema.safeParse(req.body);
+      if (!body.success) {
+        sendInvalidBody(res, body.error);
+        return;
+      }
+
+      const {
+        componentNames,
+        absolutePathToCurrentFile,
+        absolutePathToProjectDirectory,
+        packageManager,
+        projectConfig,
+        projectInspection,
+        format,
+        pin
+      } = body.data;
+
+      const { result, batch } = await getComponentDetailsBatch({
+        componentNames,
+        absolutePathToCurrentFile: absolutePathToCurrentFile || '',
+        absolutePathToProjectDirectory: absolutePathToProjectDirectory || '',
+        packageManager: parsePackageManager(packageManager),
+        projectConfig: parseProjectConfig(projectConfig),
+        projectInspection: parseProjectInspection(projectInspection),
+        pin
+      });
+
+      console.log('📤 Sending batch details response:', {
+        count: batch.components.length,
+        notFound: batch.notFound.length,
+        format,
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({
+        ...(format === 'json' ? { batch } : { result, notFound: batch.notFound }),
+        metadata: {
+          componentNames: batch.components.map(details => details.componentName),
+          format,
+          packageManager: batch.installation.packageManager,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        }
+      });
+    } catch (error) {
+      console.error('❌ Batch details error:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      res.status(500).json({
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  })();
+});
+
+/**
+ * POST /api/component/compare
+ * Compare two to five similar components side by side
+ * Used by MCP compare_components tool
+ */
+router.post('/component/compare', (req: Request, res: Response): void => {
+  try {
+    console.log('📥 Received compare components request:', {
+      body: req.body as unknown,
+      timestamp: new Date().toISOString()
+    });
+
+    // Validate request body
+    const body = compareBodySchema.safeParse(req.body);
+    if (!body.success) {
+      sendInvalidBody(res, body.error);
+      return;
+    }
+
+    const { componentNames, format } = body.data;
+
+    const names = [...new Set(componentNames)];
+    if (names.length < COMPARE_MIN_COMPONENTS || names.length > COMPARE_MAX_COMPONENTS) {
+      res.status(400).json({
+        error: `Compare ${COMPARE_MIN_COMPONENTS} to ${COMPARE_MAX_COMPONENTS} different components (got ${names.length})`,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const { result, comparison, notFound } = getComponentComparison({ componentNames: names });
+
+    if (!comparison) {
+      res.status(404).json({
+        error: result,
+        notFound,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    console.log('📤 Sending comparison response:', {
+      componentNames: names,
+      format,
+      timestamp: new Date().toISOString()
+    });
+
+    res.json({
+      ...(format === 'json' ? { comparison } : { result }),
+      metadata: {
+        componentNames: names,
+        format,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Compare components error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    res.status(500).json({
+      error: errorMessage,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+});
+
 export default router;
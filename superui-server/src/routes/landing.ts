@@ -5,6 +5,7 @@
 
 import express from 'express';
 import { getLanding } from '../services/landing-service.js';
+import { parsePackageManager } from '../utils/package-manager.js';
 
 const router = express.Router();
 
@@ -21,7 +22,8 @@ router.post('/landing', async (req, res) => {
       conversationState,
       absolutePathToCurrentFile,
       absolutePathToProjectDirectory,
-      standaloneRequestQuery
+      standaloneRequestQuery,
+      packageManager
     } = req.body;
 
     // Validate required fields
@@ -38,7 +40,8 @@ router.post('/landing', async (req, res) => {
       conversationState,
       absolutePathToCurrentFile: absolutePathToCurrentFile || "/Users/test/project/src/App.tsx",
       absolutePathToProjectDirectory: absolutePathToProjectDirectory || "/Users/test/project",
-      standaloneRequestQuery
+      standaloneRequestQuery,
+      packageManager: parsePackageManager(packageManager)
     });
 
     console.log('📤 Sending landing page response');
@@ -74,7 +77,8 @@ router.post('/template', async (req, res) => {
       conversationState,
       absolutePathToCurrentFile,
       absolutePathToProjectDirectory,
-      standaloneRequestQuery
+      standaloneRequestQuery,
+      packageManager
     } = req.body;
 
     // Validate required fields
@@ -91,7 +95,8 @@ router.post('/template', async (req, res) => {
       conversationState,
       absolutePathToCurrentFile: absolutePathToCurrentFile || "/Users/test/project/src/App.tsx",
       absolutePathToProjectDirectory: absolutePathToProjectDirectory || "/Users/test/project",
-      standaloneRequestQuery
+      standaloneRequestQuery,
+      packageManager: parsePackageManager(packageManager)
     });
 
     console.log('📤 Sending landing page response');
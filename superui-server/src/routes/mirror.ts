@@ -0,0 +1,81 @@
+/**
+ * Registry mirror routes for SuperUI API Server
+ * Serves the local registry mirror in shadcn registry format, so `shadcn add <server>/r/<item>.json` works offline
+ * `/r/versions/<hash>/<item>.json` serves a recorded version of an item, which is how pinned install commands address it
+ */
+
+import express, { type Request, type Response } from "express";
+import { getRegistryItemKey, readCachedRegistryItem, readRegistryItemVersion } from "../utils/registry-cache.js";
+import { getMirroredItem } from "../utils/registry-mirror.js";
+
+const router = express.Router();
+
+/**
+ * Send a mirrored registry item
+ * @param key - Requested item key
+ * @param version - Requested version hash, if any
+ * @param res - Response
+ */
+async function sendMirrorItem(key: string, version: string | undefined, res: Response): Promise<void> {
+  try {
+    let item = null;
+    if (getRegistryItemKey(key) === key) {
+      // Items cached before versions were recorded only have their current version
+      item = version ? await readRegistryItemVersion(key, version) : null;
+      if (!item && (!version || version === getMirroredItem(key)?.currentHash)) {
+        item = await readCachedRegistryItem(key);
+      }
+    }
+
+    if (!item) {
+      res.status(404).json({
+        error: version ? `Version "${version}" of registry item "${key}" is not mirrored` : `Registry item "${key}" is not mirrored`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.json(item);
+  } catch (error) {
+    console.error("❌ Registry mirror error:", error);
+
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * GET /r/:name.json
+ * Serve a mirrored registry item
+ */
+router.get("/r/:name.json", (req: Request, res: Response): void => {
+  void sendMirrorItem(req.params.name, undefined, res);
+});
+
+/**
+ * GET /r/:namespace/:name.json
+ * Serve a mirrored namespaced registry item (e.g. /r/@tailark/hero-section-1.json)
+ */
+router.get("/r/:namespace/:name.json", (req: Request, res: Response): void => {
+  void sendMirrorItem(`${req.params.namespace}/${req.params.name}`, undefined, res);
+});
+
+/**
+ * GET /r/versions/:hash/:name.json
+ * Serve a recorded version of a mirrored registry item
+ */
+router.get("/r/versions/:hash/:name.json", (req: Request, res: Response): void => {
+  void sendMirrorItem(req.params.name, req.params.hash, res);
+});
+
+/**
+ * GET /r/versions/:hash/:namespace/:name.json
+ * Serve a recorded version of a mirrored namespaced registry item
+ */
+router.get("/r/versions/:hash/:namespace/:name.json", (req: Request, res: Response): void => {
+  void sendMirrorItem(`${req.params.namespace}/${req.params.name}`, req.params.hash, res);
+});
+
+export default router;
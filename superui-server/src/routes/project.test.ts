@@ -0,0 +1,59 @@
+/**
+ * Behaviour checks for the project file diff endpoint
+ */
+
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import projectRoutes from "./project.js";
+
+describe("project routes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api", projectRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  /**
+   * Send files to the diff endpoint
+   * @param body - Request body
+   * @returns Response
+   */
+  const postDiff = (body: unknown) =>
+    fetch(`${baseUrl}/project/diff`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+  it("diffs each file in request order", async () => {
+    const response = await postDiff({
+      files: [
+        { path: "components/ui/badge.tsx", oldContent: "local\n", newContent: "badge\n" },
+        { path: "components/ui/button.tsx", oldContent: null, newContent: "button\n" },
+        { path: "components/ui/label.tsx", oldContent: "label\n", newContent: "label\n" },
+      ],
+    });
+    const { diffs } = (await response.json()) as { diffs: string[] };
+
+    assert.equal(response.status, 200);
+    assert.match(diffs[0], /^--- a\/components\/ui\/badge\.tsx$/m);
+    assert.match(diffs[0], /^-local$/m);
+    assert.match(diffs[0], /^\+badge$/m);
+    assert.match(diffs[1], /^--- \/dev\/null$/m);
+    assert.equal(diffs[2], "");
+  });
+
+  it("rejects files without contents", async () => {
+    const response = await postDiff({ files: [{ path: "components/ui/badge.tsx", newContent: "badge\n" }] });
+    assert.equal(response.status, 400);
+  });
+});
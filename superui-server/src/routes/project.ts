@@ -0,0 +1,107 @@
+/**
+ * Project routes for SuperUI API Server
+ * Handles project inspection reports sent by the MCP inspect_project tool and diffs of the files MCP tools change
+ */
+
+import express, { type Request, type Response } from "express";
+import { z } from "zod";
+import { diffProjectFiles, getProjectReport } from "../services/project-service.js";
+import { parsePackageManager } from "../utils/package-manager.js";
+import { projectInspectionSchema } from "../utils/project-inspection.js";
+
+const router = express.Router();
+
+/**
+ * Files sent to be diffed
+ */
+const projectDiffSchema = z
+  .object({
+    files: z
+      .array(
+        z
+          .object({
+            path: z.string().min(1),
+            oldContent: z.string().nullable(),
+            newContent: z.string().nullable(),
+          })
+          .strict()
+      )
+      .min(1),
+  })
+  .strict();
+
+/**
+ * POST /api/project/inspect
+ * Report a project's setup and which catalog components it already contains
+ */
+router.post("/project/inspect", (req: Request, res: Response): void => {
+  try {
+    const { projectInspection, absolutePathToProjectDirectory, packageManager } = (req.body ?? {}) as Record<string, unknown>;
+    const parsed = projectInspectionSchema.safeParse(projectInspection);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Invalid projectInspection",
+        issues: parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const report = getProjectReport({
+      projectInspection: parsed.data,
+      absolutePathToProjectDirectory: typeof absolutePathToProjectDirectory === "string" ? absolutePathToProjectDirectory : "",
+      packageManager: parsePackageManager(packageManager),
+    });
+
+    res.json({
+      ...report,
+      inspection: parsed.data,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        version: "1.0.0",
+      },
+    });
+  } catch (error) {
+    console.error("❌ Project inspection error:", error);
+
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /api/project/diff
+ * Unified diffs of project files against the contents install_components and apply_component_usage are about to write
+ * Body: { files: [{ path, oldContent, newContent }] }, with null content for a file that does not exist
+ */
+router.post("/project/diff", (req: Request, res: Response): void => {
+  try {
+    const parsed = projectDiffSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Invalid files",
+        issues: parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.json({
+      diffs: diffProjectFiles(parsed.data.files),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ Project diff error:", error);
+
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,217 @@
+/**
+ * Team registry routes for SuperUI API Server
+ * Handles publishing, updating and removing private team components
+ */
+
+import express, { type Request, type Response } from "express";
+import { requireApiKey } from "../utils/api-key-auth.js";
+import {
+  createTeamComponent,
+  deleteTeamComponent,
+  findComponentSource,
+  getTeamComponent,
+  getTeamRegistryHistory,
+  getTeamRegistryItem,
+  listTeamComponents,
+  teamComponentInputSchema,
+  updateTeamComponent,
+} from "../services/team-registry-service.js";
+
+const router = express.Router();
+
+/**
+ * Send a 400 response describing validation issues
+ */
+function sendValidationError(res: Response, issues: { path: (string | number)[]; message: string }[]): void {
+  res.status(400).json({
+    error: "Invalid component",
+    issues: issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * GET /api/registry/components
+ * List team components with their audit fields
+ */
+router.get("/registry/components", (req: Request, res: Response): void => {
+  const components = listTeamComponents();
+
+  res.json({
+    components,
+    count: components.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * GET /api/registry/components/:componentName
+ * Get a team component, including source files and change history
+ */
+router.get("/registry/components/:componentName", (req: Request, res: Response): void => {
+  const { componentName } = req.params;
+  const component = getTeamComponent(componentName);
+
+  if (!component) {
+    res.status(404).json({
+      error: `Team component "${componentName}" not found`,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.json({
+    component,
+    history: getTeamRegistryHistory(componentName),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * GET /api/registry/r/:componentName.json
+ * Serve a team component as a shadcn registry item (used by its install command)
+ */
+router.get("/registry/r/:componentName.json", (req: Request, res: Response): void => {
+  const item = getTeamRegistryItem(req.params.componentName);
+
+  if (!item) {
+    res.status(404).json({
+      error: `Team component "${req.params.componentName}" not found`,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.json(item);
+});
+
+/**
+ * POST /api/registry/components
+ * Publish a new team component (requires API key)
+ */
+router.post("/registry/components", requireApiKey, (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const parsed = teamComponentInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        sendValidationError(res, parsed.error.issues);
+        return;
+      }
+
+      const existingSource = findComponentSource(parsed.data.componentName);
+      if (existingSource) {
+        res.status(409).json({
+          error: `Component "${parsed.data.componentName}" is already defined in ${existingSource}`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const actor = res.locals.actor as string;
+      console.log(`👥 ${actor} is publishing team component "${parsed.data.componentName}"`);
+
+      const component = await createTeamComponent(parsed.data, actor);
+
+      res.status(201).json({
+        component,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Team component create error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+/**
+ * PUT /api/registry/components/:componentName
+ * Replace a team component (requires API key)
+ */
+router.put("/registry/components/:componentName", requireApiKey, (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const { componentName } = req.params;
+      const parsed = teamComponentInputSchema.safeParse({ componentName, ...(req.body as object) });
+      if (!parsed.success) {
+        sendValidationError(res, parsed.error.issues);
+        return;
+      }
+
+      if (parsed.data.componentName !== componentName) {
+        res.status(400).json({
+          error: "componentName cannot be changed; delete and re-create the component instead",
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const actor = res.locals.actor as string;
+      console.log(`👥 ${actor} is updating team component "${componentName}"`);
+
+      const component = await updateTeamComponent(parsed.data, actor);
+
+      if (!component) {
+        res.status(404).json({
+          error: `Team component "${componentName}" not found`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.json({
+        component,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Team component update error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+/**
+ * DELETE /api/registry/components/:componentName
+ * Remove a team component (requires API key)
+ */
+router.delete("/registry/components/:componentName", requireApiKey, (req: Request, res: Response): void => {
+  void (async (): Promise<void> => {
+    try {
+      const { componentName } = req.params;
+      const actor = res.locals.actor as string;
+      console.log(`👥 ${actor} is deleting team component "${componentName}"`);
+
+      const deleted = await deleteTeamComponent(componentName, actor);
+
+      if (!deleted) {
+        res.status(404).json({
+          error: `Team component "${componentName}" not found`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.json({
+        deleted: componentName,
+        deletedBy: actor,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("❌ Team component delete error:", error);
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  })();
+});
+
+export default router;
@@ -0,0 +1,144 @@
+/**
+ * Build the preview sandbox that component previews are rendered in
+ * Usage: npm run preview:build
+ *   Writes every catalog component found in the registry cache (see npm run registry:cache) into preview-sandbox-src,
+ *   installs their npm dependencies, bundles the page with esbuild and Tailwind, and writes it to PREVIEW_SANDBOX_DIR (default ./preview-sandbox)
+ *   Components that are not cached are left out; their previews fail with a message naming the missing item
+ */
+
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { copyFile, mkdir, readdir, readFile, rm, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { getComponentInstallation } from "../services/install-service.js";
+import { getSandboxDir } from "../services/preview-service.js";
+import { refreshRegistries } from "../services/registry-service.js";
+import { getCatalog, initializeCatalog } from "../utils/component-catalog.js";
+import { getImportedNames } from "../utils/import-block.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Sandbox source package: the page template, the renderPreview entry point and the Tailwind theme */
+const sourceDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../preview-sandbox-src");
+
+/** Generated project the components are written to, resolved as `@/` by the sandbox tsconfig */
+const buildDir = path.join(sourceDir, ".build");
+
+/** Extensions `@/` imports resolve to, in bundler order */
+const MODULE_SUFFIXES = [".tsx", ".ts", ".jsx", ".js", "/index.tsx", "/index.ts"];
+
+/**
+ * Run a command in the sandbox source package
+ * @param command - Executable
+ * @param args - Arguments
+ */
+async function run(command: string, args: string[]): Promise<void> {
+  await execFileAsync(command, args, { cwd: sourceDir, maxBuffer: 16 * 1024 * 1024 });
+}
+
+/**
+ * Write a build output under a content-hashed name, so a rebuilt sandbox changes index.html and invalidates cached thumbnails
+ * @param assetsDir - Sandbox assets directory
+ * @param filePath - Build output
+ * @returns Asset file name
+ */
+async function writeAsset(assetsDir: string, filePath: string): Promise<string> {
+  const content = await readFile(filePath);
+  const extension = path.extname(filePath);
+  const name = `sandbox-${createHash("sha256").update(content).digest("hex").slice(0, 16)}${extension}`;
+  await writeFile(path.join(assetsDir, name), content);
+  return name;
+}
+
+try {
+  await initializeCatalog();
+  await refreshRegistries();
+
+  const catalog = getCatalog().components;
+  const installation = await getComponentInstallation({ componentNames: Array.from(catalog.keys()), packageManager: "npm" });
+
+  await rm(buildDir, { recursive: true, force: true });
+  for (const file of installation.files) {
+    await mkdir(path.dirname(path.join(buildDir, file.path)), { recursive: true });
+    await writeFile(path.join(buildDir, file.path), file.content);
+  }
+  const written = new Set(installation.files.map((file) => file.path));
+  if (!written.has("lib/utils.ts")) {
+    await mkdir(path.join(buildDir, "lib"), { recursive: true });
+    await copyFile(path.join(sourceDir, "src/lib/utils.ts"), path.join(buildDir, "lib/utils.ts"));
+    written.add("lib/utils.ts");
+  }
+
+  // One scope module per component, holding what its import statement brings in, so names never clash between components
+  const scoped: string[] = [];
+  const missing: string[] = [];
+  await mkdir(path.join(buildDir, "scopes"), { recursive: true });
+  for (const componentName of installation.components) {
+    const component = catalog.get(componentName);
+    if (!component) {
+      continue;
+    }
+    const localModules = Array.from(component.importStatement.matchAll(/from\s+["']@\/([^"']+)["']/g), ([, modulePath]) => modulePath);
+    const unresolved = localModules.filter((modulePath) => !MODULE_SUFFIXES.some((suffix) => written.has(`${modulePath}${suffix}`)));
+    if (unresolved.length > 0) {
+      missing.push(`${componentName}: no file for @/${unresolved.join(", @/")}`);
+      continue;
+    }
+    await writeFile(
+      path.join(buildDir, "scopes", `${componentName}.ts`),
+      `${component.importStatement}\n\nexport default { ${getImportedNames(component.importStatement).join(", ")} };\n`
+    );
+    scoped.push(componentName);
+  }
+  await writeFile(
+    path.join(buildDir, "preview-scopes.ts"),
+    [
+      ...scoped.map((componentName, index) => `import scope${index} from "./scopes/${componentName}";`),
+      "",
+      "export const scopes: Record<string, Record<string, unknown>> = {",
+      ...scoped.map((componentName, index) => `  ${JSON.stringify(componentName)}: scope${index},`),
+      "};",
+      "",
+    ].join("\n")
+  );
+
+  console.log(`📦 Installing the sandbox packages and ${installation.npmDependencies.length} component dependencies`);
+  await run("npm", ["install", "--no-save", "--no-audit", "--no-fund", ...installation.npmDependencies]);
+
+  console.log(`🔨 Bundling ${scoped.length} components`);
+  await run("npx", [
+    "--no-install",
+    "esbuild",
+    "src/main.tsx",
+    "--bundle",
+    "--minify",
+    "--log-level=error",
+    '--define:process.env.NODE_ENV="production"',
+    `--outfile=${path.join(buildDir, "sandbox.js")}`,
+  ]);
+  await run("npx", ["--no-install", "tailwindcss", "--input", "src/globals.css", "--output", path.join(buildDir, "sandbox.css"), "--minify"]);
+
+  const sandboxDir = getSandboxDir();
+  const assetsDir = path.join(sandboxDir, "assets");
+  await mkdir(assetsDir, { recursive: true });
+  const script = await writeAsset(assetsDir, path.join(buildDir, "sandbox.js"));
+  const stylesheet = await writeAsset(assetsDir, path.join(buildDir, "sandbox.css"));
+  const template = await readFile(path.join(sourceDir, "index.html"), "utf-8");
+  await writeFile(path.join(sandboxDir, "index.html"), template.replace("{{script}}", script).replace("{{stylesheet}}", stylesheet));
+
+  const staleAssets = (await readdir(assetsDir)).filter((file) => /^sandbox-[0-9a-f]{16}\.(js|css)$/.test(file) && file !== script && file !== stylesheet);
+  await Promise.all(staleAssets.map((file) => unlink(path.join(assetsDir, file))));
+
+  console.log(`✅ Preview sandbox written to ${sandboxDir}: ${scoped.length} of ${catalog.size} components`);
+  for (const { componentName, reason } of installation.skipped) {
+    console.warn(`  ⚠️ ${componentName}: ${reason}`);
+  }
+  for (const entry of [...missing, ...installation.warnings]) {
+    console.warn(`  ⚠️ ${entry}`);
+  }
+} catch (error) {
+  console.error("💥 Preview sandbox build failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
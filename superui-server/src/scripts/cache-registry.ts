@@ -0,0 +1,93 @@
+/**
+ * Download registry items into the registry cache so install_components works offline
+ * Usage: npm run registry:cache -- [--style new-york-v4] [--revision <label>] [component-name ...]
+ *   Without names every installable catalog component is cached; with names, their dependencies are cached too
+ *   Plain item names are fetched from REGISTRY_URL (default https://ui.shadcn.com/r), like `shadcn add` does
+ *   Changed items are recorded as new versions; --revision labels them so installs can be pinned to it
+ */
+
+import { readFile } from "node:fs/promises";
+import { refreshRegistries } from "../services/registry-service.js";
+import { getCatalog, initializeCatalog } from "../utils/component-catalog.js";
+import { resolveInstallPlan } from "../utils/install-plan.js";
+import { cachedRegistryItemSchema, getRegistryCacheDir, getRegistryItemKey, writeCachedRegistryItem } from "../utils/registry-cache.js";
+
+const FETCH_TIMEOUT_MS = 30000;
+
+const args = process.argv.slice(2);
+const style = args.includes("--style") ? args[args.indexOf("--style") + 1] : "new-york-v4";
+const revision = args.includes("--revision") ? args[args.indexOf("--revision") + 1] : undefined;
+const names = args.filter((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--style" && args[index - 1] !== "--revision");
+const registryUrl = (process.env.REGISTRY_URL || "https://ui.shadcn.com/r").replace(/\/$/, "");
+
+/**
+ * Get where a registry item is loaded from
+ * @param target - `shadcn add` target
+ * @returns Local item file, or the item URL
+ */
+function getItemSource(target: string): string {
+  return /^https?:\/\//.test(target) || target.endsWith(".json") ? target : `${registryUrl}/styles/${style}/${target}.json`;
+}
+
+/**
+ * Load a registry item from a URL, a local item file or the default registry
+ * @param target - `shadcn add` target
+ * @returns Parsed item JSON
+ */
+async function loadItem(target: string): Promise<unknown> {
+  const url = getItemSource(target);
+  if (!/^https?:\/\//.test(url)) {
+    return JSON.parse(await readFile(url, "utf-8"));
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+try {
+  await initializeCatalog();
+  await refreshRegistries();
+
+  const catalog = getCatalog().components;
+  const plan = resolveInstallPlan(names.length > 0 ? names : Array.from(catalog.keys()));
+  if (plan.unresolved.length > 0) {
+    throw new Error(`Unknown components: ${plan.unresolved.join(", ")}`);
+  }
+
+  const targets = new Set(plan.steps.map((step) => step.target).filter((target): target is string => target !== null && !target.startsWith("@")));
+  const failures: string[] = [];
+  console.log(`📦 Caching ${targets.size} registry items in ${getRegistryCacheDir()}`);
+
+  for (const target of targets) {
+    const key = getRegistryItemKey(target);
+    try {
+      if (!key) {
+        throw new Error("cannot derive a cache key");
+      }
+      const parsed = cachedRegistryItemSchema.safeParse(await loadItem(target));
+      if (!parsed.success) {
+        throw new Error(
+          `not a registry item with file contents: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`
+        );
+      }
+      await writeCachedRegistryItem(key, parsed.data, { revision, source: getItemSource(target) });
+      console.log(`  ✓ ${key} (${parsed.data.files.length} files)`);
+    } catch (error) {
+      failures.push(`${target}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  console.log(`✅ ${targets.size - failures.length} registry items cached`);
+  for (const failure of failures) {
+    console.error(`  ✗ ${failure}`);
+  }
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+} catch (error) {
+  console.error("💥 Registry caching failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
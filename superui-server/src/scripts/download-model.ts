@@ -0,0 +1,24 @@
+/**
+ * Download the semantic search embedding model into the local model directory
+ * Run once with network access (npm run model:download); the server then loads it offline
+ */
+
+import { CreateFeatureExtractor, DEFAULT_MODEL_DIR, EMBEDDING_MODEL } from "../utils/semantic-index.js";
+
+const modelDir = process.env.SEMANTIC_MODEL_DIR || DEFAULT_MODEL_DIR;
+
+try {
+  const { env, pipeline } = await import("@huggingface/transformers");
+  env.allowRemoteModels = true;
+  env.localModelPath = modelDir;
+  env.cacheDir = modelDir;
+
+  console.log(`⬇️ Downloading ${EMBEDDING_MODEL} to ${modelDir}...`);
+  const extractor = await (pipeline as CreateFeatureExtractor)("feature-extraction", EMBEDDING_MODEL, { dtype: "q8" });
+  const output = await extractor(["primary button"], { pooling: "mean", normalize: true });
+
+  console.log(`✅ Model ready (${output.dims[1]} dimensions)`);
+} catch (error) {
+  console.error("💥 Model download failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,49 @@
+/**
+ * Render and cache preview thumbnails of catalog components
+ * Usage: npm run preview:render -- [--theme light|dark] [component-name ...]
+ *   Without names every catalog component is rendered; cached thumbnails are reused
+ */
+
+import { getComponentPreviews, parsePreviewThemes, PREVIEW_THEMES } from "../services/preview-service.js";
+import { closeBrowser } from "../services/screenshot-service.js";
+import { getCatalog, initializeCatalog } from "../utils/component-catalog.js";
+
+const args = process.argv.slice(2);
+const themeArg = args.includes("--theme") ? args[args.indexOf("--theme") + 1] : undefined;
+const themes = themeArg === undefined ? [...PREVIEW_THEMES] : parsePreviewThemes(themeArg);
+const names = args.filter((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--theme");
+
+if (!themes) {
+  console.error(`💥 Invalid --theme ${themeArg}: expected one of ${PREVIEW_THEMES.join(", ")}`);
+  process.exit(1);
+}
+
+try {
+  await initializeCatalog();
+
+  const catalog = getCatalog().components;
+  const unknown = names.filter((name) => !catalog.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown components: ${unknown.join(", ")}`);
+  }
+
+  const components = names.length > 0 ? names.map((name) => catalog.get(name)!) : Array.from(catalog.values());
+  const { images, failures, warning } = await getComponentPreviews(components, themes);
+  await closeBrowser();
+
+  if (warning) {
+    throw new Error(warning);
+  }
+
+  const cached = images.filter((image) => image.metadata.cached).length;
+  console.log(`✅ ${images.length} previews ready (${images.length - cached} rendered, ${cached} cached)`);
+  for (const failure of failures) {
+    console.error(`  ✗ ${failure.componentName} (${failure.theme}): ${failure.error}`);
+  }
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+} catch (error) {
+  console.error("💥 Preview rendering failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,102 @@
+/**
+ * Evaluate search quality against the labeled queries in search-eval.json
+ * Usage: npm run search:eval -- [--mode lexical|semantic|hybrid] [--save-baseline] [--check] [--json]
+ *   --save-baseline  store this run as the baseline later runs are compared with
+ *   --check          exit with status 1 when any query regressed against the baseline
+ *   --json           print the report and diff as JSON
+ */
+
+import { evaluateSearch, saveSearchEvalBaseline } from "../services/search-eval-service.js";
+import { initializeSynonyms } from "../services/synonym-service.js";
+import { initializeCatalog } from "../utils/component-catalog.js";
+import { SearchEvalQueryChange, SearchMetrics } from "../utils/search-eval.js";
+import { initializeSemanticSearch, parseSearchMode, SEARCH_MODES } from "../utils/semantic-index.js";
+
+const args = process.argv.slice(2);
+const modeArg = args.includes("--mode") ? args[args.indexOf("--mode") + 1] : "lexical";
+const mode = parseSearchMode(modeArg);
+
+/**
+ * Format metric deltas
+ * @param delta - Metric deltas
+ * @returns Signed deltas, e.g. "MRR -0.5, recall@5 +0, nDCG -0.2"
+ */
+function formatDelta(delta: SearchMetrics): string {
+  const signed = (value: number): string => `${value >= 0 ? "+" : ""}${value}`;
+  return `MRR ${signed(delta.mrr)}, recall@5 ${signed(delta.recallAt5)}, nDCG ${signed(delta.ndcg)}`;
+}
+
+/**
+ * Print queries whose metrics changed
+ * @param title - Section title
+ * @param changes - Changed queries
+ */
+function printChanges(title: string, changes: SearchEvalQueryChange[]): void {
+  if (changes.length === 0) {
+    return;
+  }
+  console.log(`\n${title}:`);
+  for (const change of changes) {
+    console.log(`  "${change.query}": ${formatDelta(change.delta)}`);
+    console.log(`    before: ${change.baselineResults.slice(0, 5).join(", ") || "(none)"}`);
+    console.log(`    after:  ${change.results.slice(0, 5).join(", ") || "(none)"}`);
+  }
+}
+
+if (!mode) {
+  console.error(`💥 Invalid --mode ${modeArg}: expected one of ${SEARCH_MODES.join(", ")}`);
+  process.exit(1);
+}
+
+try {
+  await initializeCatalog();
+  await initializeSynonyms();
+  if (mode !== "lexical") {
+    await initializeSemanticSearch();
+  }
+
+  const { report, diff } = await evaluateSearch(mode);
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify({ report, diff }, null, 2));
+  } else {
+    if (report.warning) {
+      console.warn(`⚠️ ${report.warning}`);
+    }
+
+    console.log("\nQuery results (rank of first expected component, missing from the top 10):");
+    for (const result of report.queries) {
+      const rank = result.firstRelevantRank === null ? "✗" : `#${result.firstRelevantRank}`;
+      console.log(`  ${rank.padEnd(4)} "${result.query}"${result.missing.length > 0 ? ` (missing: ${result.missing.join(", ")})` : ""}`);
+    }
+
+    const { mrr, recallAt5, ndcg, queries } = report.summary;
+    console.log(`\nSummary (${report.mode}, ${queries} queries): MRR ${mrr}, recall@5 ${recallAt5}, nDCG@10 ${ndcg}`);
+
+    if (diff) {
+      console.log(`Baseline (${diff.baselineMode}, ${diff.baselineTimestamp}): ${formatDelta(diff.summary)}`);
+      printChanges("Regressions", diff.regressions);
+      printChanges("Improvements", diff.improvements);
+      if (diff.newQueries.length > 0) {
+        console.log(`\nNew queries: ${diff.newQueries.join(", ")}`);
+      }
+      if (diff.removedQueries.length > 0) {
+        console.log(`\nRemoved queries: ${diff.removedQueries.join(", ")}`);
+      }
+    } else {
+      console.log("No baseline saved yet (run with --save-baseline)");
+    }
+  }
+
+  if (args.includes("--save-baseline")) {
+    await saveSearchEvalBaseline(report);
+  }
+
+  if (args.includes("--check") && diff && diff.regressions.length > 0) {
+    console.error(`💥 ${diff.regressions.length} queries regressed against the baseline`);
+    process.exit(1);
+  }
+} catch (error) {
+  console.error("💥 Search evaluation failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
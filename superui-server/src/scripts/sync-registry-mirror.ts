@@ -0,0 +1,35 @@
+/**
+ * Import registry items into the local registry mirror
+ * Usage: npm run registry:sync -- <tarball-or-folder> [--revision <label>]
+ *   Accepts a .tgz, .tar.gz or .tar file, or a folder (e.g. the public/r output of `shadcn build`)
+ *   --revision records the registry revision (release tag, commit) with every new item version, so installs can be pinned to it
+ *   A running server picks up the new items after POST /api/admin/registry-mirror/refresh (with an API key) or a restart
+ */
+
+import { syncRegistryMirror } from "../services/registry-mirror-service.js";
+
+const args = process.argv.slice(2);
+const revision = args.includes("--revision") ? args[args.indexOf("--revision") + 1] : undefined;
+const [source] = args.filter((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--revision");
+
+if (!source) {
+  console.error("💥 Usage: npm run registry:sync -- <tarball-or-folder> [--revision <label>]");
+  process.exit(1);
+}
+
+try {
+  const { imported, skipped, mirror } = await syncRegistryMirror(source, revision);
+
+  console.log(
+    `✅ Imported ${imported.length} registry items${revision ? ` at revision ${revision}` : ""} into ${mirror.directory} (${mirror.itemCount} mirrored)`
+  );
+  for (const file of skipped) {
+    console.warn(`  ⚠️ Skipped ${file.file}: ${file.reason}`);
+  }
+  if (imported.length === 0) {
+    process.exit(1);
+  }
+} catch (error) {
+  console.error("💥 Registry mirror sync failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -7,6 +7,10 @@ import { captureScreenshot, captureLocalScreenshot, ScreenshotOptions, Screensho
 import { CLONE_PROMPTS, generateIterationPrompt, COMPLETION_MESSAGE } from "../utils/clone-prompts.js";
 import { matchComponentsFromAnalysis } from "../utils/component-matcher.js";
 import { ComponentInfo } from "../utils/component-finder.js";
+import { InstallPlan } from "../utils/install-plan.js";
+import { PackageManager } from "../utils/package-manager.js";
+import { applyProjectConfig, ProjectConfig } from "../utils/project-config.js";
+import { getInstalledComponentNames, ProjectInspection } from "../utils/project-inspection.js";
 
 export interface CloneRequest {
   requestType: "initial_analysis" | "component_suggestion" | "compare_screenshots" | "iteration_guide";
@@ -23,6 +27,11 @@ export interface CloneRequest {
   iteration?: number;
   context?: string;
 
+  // Project settings used to render install commands and imports
+  packageManager?: PackageManager;
+  projectConfig?: ProjectConfig;
+  projectInspection?: ProjectInspection;
+
   // Screenshot options
   screenshotOptions?: ScreenshotOptions;
 }
@@ -44,6 +53,7 @@ export interface CloneServiceResponse {
     };
   };
   components?: ComponentInfo[];
+  installPlan?: InstallPlan;
   installations?: string[];
 }
 
@@ -139,7 +149,14 @@ async function handleComponentSuggestion(request: CloneRequest): Promise<CloneSe
   console.log(`🔍 Matching components from analysis...`);
 
   // Match components based on analysis
-  const { components, installations } = await matchComponentsFromAnalysis(request.targetDescription);
+  const {
+    components: matchedComponents,
+    installPlan,
+    installations,
+  } = await matchComponentsFromAnalysis(request.targetDescription, request.packageManager, getInstalledComponentNames(request.projectInspection));
+
+  // Rewrite imports for the project's aliases
+  const components = matchedComponents.map((component) => applyProjectConfig(component, request.projectConfig));
 
   // Generate component list with usage examples
   const componentList = components
@@ -155,7 +172,11 @@ ${i + 1}. **${c.displayName}** (\`${c.componentName}\`)
     )
     .join("\n");
 
-  const installCommands = installations.slice(0, 15).join("\n");
+  const installCommands = installations.join("\n");
+  const npmPackages =
+    installPlan.npmDependencies.length > 0
+      ? `\n\nnpm packages added by these components: ${installPlan.npmDependencies.map((d) => `\`${d}\``).join(", ")}`
+      : "";
 
   const text = `
 # Component Recommendations & Implementation Guide
@@ -187,11 +208,11 @@ ${componentList}
 
 ## 🚀 Installation Commands
 
-Run these commands in your project directory:
+Run these commands in your project directory (dependencies are included and installed first):
 
 \`\`\`bash
 ${installCommands}
-\`\`\`
+\`\`\`${npmPackages}
 
 ## 🎯 Next Steps
 
@@ -211,6 +232,7 @@ ${installCommands}
   return {
     text,
     components,
+    installPlan,
     installations,
   };
 }
@@ -0,0 +1,67 @@
+/**
+ * Behaviour checks for component details
+ */
+
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { initializeCatalog } from "../utils/component-catalog.js";
+import { getComponentDetails, getComponentDetailsBatch } from "./component-service.js";
+
+before(async () => {
+  await initializeCatalog();
+});
+
+describe("getComponentDetailsBatch", () => {
+  const request = { absolutePathToCurrentFile: "", absolutePathToProjectDirectory: "/project", packageManager: "pnpm" as const };
+
+  it("returns the known components in request order, each once", async () => {
+    const { batch } = await getComponentDetailsBatch({ ...request, componentNames: ["form", "button", "form", "label"] });
+    assert.deepEqual(
+      batch.components.map((details) => details.componentName),
+      ["form", "button", "label"]
+    );
+  });
+
+  it("installs the set with one command, dependencies first and each component once", async () => {
+    const { batch } = await getComponentDetailsBatch({ ...request, componentNames: ["form", "button", "label"] });
+    assert.deepEqual(batch.installation.commands, ["pnpm dlx shadcn@latest add button input label form"]);
+    assert.equal(batch.installation.packageManager, "pnpm");
+    assert.equal(new Set(batch.installation.npmPackages).size, batch.installation.npmPackages.length);
+  });
+
+  it("merges the imports into one line per module", async () => {
+    const { batch } = await getComponentDetailsBatch({ ...request, componentNames: ["form", "button"] });
+    const lines = batch.imports.statement.split("\n");
+    assert.equal(lines.length, 3);
+    assert.ok(lines.some((line) => line.endsWith('from "@/components/ui/form"') && line.includes("FormField")));
+    assert.ok(lines.some((line) => line === 'import { Input } from "@/components/ui/input"'));
+    assert.ok(lines.some((line) => line === 'import { Button } from "@/components/ui/button"'));
+  });
+
+  it("reports unknown names with suggestions instead of failing the batch", async () => {
+    const { batch, result } = await getComponentDetailsBatch({ ...request, componentNames: ["button", "buton"] });
+    assert.deepEqual(
+      batch.components.map((details) => details.componentName),
+      ["button"]
+    );
+    assert.equal(batch.notFound[0]?.componentName, "buton");
+    assert.ok(batch.notFound[0]?.suggestions.some((suggestion) => suggestion.componentName === "button"));
+    assert.ok(result.includes("Not Found"));
+  });
+});
+
+describe("getComponentDetails", () => {
+  const request = { absolutePathToCurrentFile: "", absolutePathToProjectDirectory: "/project" };
+
+  it("renders a props table for components with an API reference", async () => {
+    const { result, details } = await getComponentDetails({ ...request, componentName: "button" });
+    assert.ok(details?.api);
+    assert.match(result, /## 🧩 API Reference\n\n### `Button`/);
+  });
+
+  it("says so when the catalog has no API reference for the component", async () => {
+    const { result, details } = await getComponentDetails({ ...request, componentName: "glow-button" });
+    assert.equal(details?.api, null);
+    assert.match(result, /No API reference is recorded for Glow Button/);
+  });
+});
@@ -6,11 +6,25 @@
 import { 
   findComponent, 
   ComponentInfo, 
+  RankedComponent,
   searchComponentsRanked,
   getComponentByName,
-  getAllComponents,
-  getComponentsByCategory
+  getAllComponents
 } from "../utils/component-finder.js";
+import { ComponentSuggestion, suggestComponents } from "../utils/fuzzy-match.js";
+import { ComponentApi, ComponentExample, ComponentProp } from "../utils/component-catalog.js";
+import { getInstallTarget, getShadcnPackage, InstallPin, InstallPlan, resolveInstallPlan } from "../utils/install-plan.js";
+import { DEFAULT_PACKAGE_MANAGER, formatInstallCommand, formatRunCommand, PackageManager } from "../utils/package-manager.js";
+import { applyProjectConfig, getCodeLanguage, ProjectConfig, resolveComponentInstallPath } from "../utils/project-config.js";
+import { getInstalledComponentNames, ProjectInspection } from "../utils/project-inspection.js";
+import { countFacets, FacetCounts, getComponentLibrary, matchesFilters, SearchFilters } from "../utils/search-facets.js";
+import { ScoreExplanation } from "../utils/search-index.js";
+import { getSemanticUnavailableReason, SearchMode } from "../utils/semantic-index.js";
+import { selectExamples } from "../utils/usage-examples.js";
+import { mergeImportStatements } from "../utils/import-block.js";
+import { compareComponents, ComponentComparison } from "../utils/component-comparison.js";
+import { getComponentPreviews, PREVIEW_LIST_LIMIT, PreviewBatch, PreviewTheme } from "./preview-service.js";
+import { ComponentVersion, getComponentVersion } from "./version-service.js";
 
 export interface ComponentRequest {
   message: string;
@@ -18,124 +32,157 @@ export interface ComponentRequest {
   absolutePathToCurrentFile: string;
   absolutePathToProjectDirectory: string;
   standaloneRequestQuery: string;
+  packageManager?: PackageManager;
+  projectConfig?: ProjectConfig;
+  projectInspection?: ProjectInspection;
+}
+
+export interface ComponentResult {
+  result: string;
+  /** "Did you mean" candidates; present when no component matched */
+  suggestions?: ComponentSuggestion[];
 }
 
 /**
  * Process component request and generate installation guide
  * @param request - Component request from MCP server
- * @returns Formatted installation guide
+ * @returns Formatted installation guide, or suggestions when nothing matched
  */
-export async function getComponent(request: ComponentRequest): Promise<string> {
-  const { searchQuery, absolutePathToCurrentFile, absolutePathToProjectDirectory } = request;
+export async function getComponent(request: ComponentRequest): Promise<ComponentResult> {
+  const { searchQuery, absolutePathToCurrentFile, absolutePathToProjectDirectory, packageManager = DEFAULT_PACKAGE_MANAGER, projectConfig, projectInspection } = request;
   
   console.log(`🔍 Processing component request for: ${searchQuery}`);
   
   // Find the component
-  const componentInfo = findComponent(searchQuery);
+  const foundComponent = findComponent(searchQuery);
   
-  if (!componentInfo) {
-    return generateNotFoundResponse(searchQuery, absolutePathToProjectDirectory);
+  if (!foundComponent) {
+    const suggestions = suggestComponents(searchQuery);
+    return {
+      result: generateNotFoundResponse(searchQuery, absolutePathToProjectDirectory, packageManager, suggestions),
+      suggestions
+    };
   }
   
-  // Generate installation path
-  const installPath = determineInstallPath(absolutePathToCurrentFile, absolutePathToProjectDirectory);
+  // Rewrite imports for the project's aliases
+  const componentInfo = applyProjectConfig(foundComponent, projectConfig);
+  
+  // Generate installation path (from the project's aliases when known)
+  const installPath =
+    resolveComponentInstallPath(foundComponent, projectConfig) ?? determineInstallPath(absolutePathToCurrentFile, absolutePathToProjectDirectory);
   
   // Generate the response
-  const result = generateComponentResponse(componentInfo, installPath, absolutePathToProjectDirectory);
+  const result = generateComponentResponse(
+    componentInfo,
+    installPath,
+    absolutePathToProjectDirectory,
+    packageManager,
+    projectConfig,
+    getInstalledComponentNames(projectInspection)
+  );
   
   console.log(`✅ Component found: ${componentInfo.displayName}`);
-  return result;
+  return { result };
 }
 
 /**
  * Generate response when component is not found
  * @param searchQuery - Original search query
  * @param projectPath - Project root path
+ * @param packageManager - Package manager used by the project
+ * @param suggestions - Closest catalog components
  * @returns Not found response
  */
-function generateNotFoundResponse(searchQuery: string, projectPath: string): string {
-  return `
-# Component Not Found
-
-## Search Query: "${searchQuery}"
-
-❌ **Component "${searchQuery}" not found in the SuperUI library.**
-
-### Available Components
-
-Here are some popular components you can try:
+function generateNotFoundResponse(
+  searchQuery: string,
+  projectPath: string,
+  packageManager: PackageManager,
+  suggestions: ComponentSuggestion[]
+): string {
+  const closestComponent = suggestions.length > 0 ? getComponentByName(suggestions[0].componentName) : null;
+  const closestTarget = closestComponent ? getInstallTarget(closestComponent) : null;
+  const closestInstallCommand = closestTarget
+    ? formatRunCommand(`${getShadcnPackage()} add ${closestTarget}`, packageManager)
+    : formatInstallCommand(closestComponent?.installCommand ?? '', packageManager);
+  const suggestionSection = closestComponent
+    ? `### Did You Mean?
 
-#### Form Components
-- \`button\` - Button component
-- \`input\` - Text input component
-- \`textarea\` - Multi-line text input
-- \`select\` - Dropdown select component
-- \`checkbox\` - Checkbox input
-- \`radio-group\` - Radio button group
+${suggestions.map(suggestion => `- \`${suggestion.componentName}\` - ${suggestion.displayName}${suggestion.library ? ` [${suggestion.library}]` : ''}: ${suggestion.description}`).join('\n')}
 
-#### Layout Components
-- \`card\` - Content container
-- \`sheet\` - Slide-out panel
-- \`dialog\` - Modal dialog
-- \`popover\` - Floating panel
+\`\`\`bash
+cd ${projectPath}
+${closestInstallCommand}
+\`\`\``
+    : `### No Similar Components
 
-#### Navigation Components
-- \`tabs\` - Tabbed interface
-- \`accordion\` - Collapsible content
-- \`breadcrumb\` - Navigation breadcrumb
+Nothing in the catalog resembles "${searchQuery}". Browse a category instead:
 
-#### Data Display Components
-- \`table\` - Data table
-- \`badge\` - Status indicator
-- \`avatar\` - Profile image
-- \`progress\` - Progress bar
-- \`skeleton\` - Loading placeholder
+${generateCategoryOverview()}`;
 
-#### Feedback Components
-- \`alert\` - Alert notification
-- \`toast\` - Toast notification
-- \`separator\` - Visual separator
+  return `
+# Component Not Found
 
-### Try Again
+## Search Query: "${searchQuery}"
 
-Please try with one of the available component names:
+❌ **Component "${searchQuery}" not found in the SuperUI library.**
 
-\`\`\`bash
-cd ${projectPath}
-npx shadcn@latest add button
-\`\`\`
+${suggestionSection}
 
 ### Need Help?
 
 If you're looking for a specific component that's not listed above, please:
-1. Check the [shadcn/ui documentation](https://ui.shadcn.com/docs/components)
+1. Use \`list_components\` to search the catalog by description (e.g. "animated button")
 2. Verify the component name spelling
 3. Try using a more generic term (e.g., "form" instead of "contact-form")
   `;
 }
 
+/**
+ * Summarize the catalog by category
+ * @returns Markdown list of categories with a few example components each
+ */
+function generateCategoryOverview(): string {
+  const categories = new Map<string, string[]>();
+  for (const component of getAllComponents()) {
+    categories.set(component.category, [...(categories.get(component.category) ?? []), component.componentName]);
+  }
+
+  return Array.from(categories.entries())
+    .map(([category, names]) => `- **${category}** (${names.length}): ${names.slice(0, 5).map(name => `\`${name}\``).join(', ')}${names.length > 5 ? ', ...' : ''}`)
+    .join('\n');
+}
+
 /**
  * Generate component installation response
  * @param componentInfo - Component information
  * @param installPath - Installation path
  * @param projectPath - Project root path
+ * @param packageManager - Package manager used by the project
+ * @param projectConfig - Project components.json and tsconfig settings
+ * @param installedComponents - Components that already exist in the project
  * @returns Formatted response
  */
 function generateComponentResponse(
   componentInfo: ComponentInfo,
   installPath: string,
-  projectPath: string
+  projectPath: string,
+  packageManager: PackageManager,
+  projectConfig?: ProjectConfig,
+  installedComponents: Set<string> = new Set()
 ): string {
+  const plan = resolveInstallPlan([componentInfo.componentName], packageManager, installedComponents);
+  const language = getCodeLanguage(projectConfig);
+  
   return `
 # ${componentInfo.displayName}
 
 ${componentInfo.description}
 
 ## 📦 Installation
-
+${generateInstalledNote(plan, componentInfo)}
 \`\`\`bash
 cd ${projectPath}
-npx shadcn@latest add ${componentInfo.componentName}
+${formatPlanCommands(plan)}
 \`\`\`
 
 ## 📁 Installation Path
@@ -145,13 +192,13 @@ The component will be installed to:
 
 ## 🔧 Import Statement
 
-\`\`\`tsx
+\`\`\`${language}
 ${componentInfo.importStatement}
 \`\`\`
 
 ## 💡 Basic Usage
 
-\`\`\`tsx
+\`\`\`${language}
 ${componentInfo.usage}
 \`\`\`
 
@@ -224,6 +271,181 @@ function determineInstallPath(currentFile: string, projectPath: string): string
   return defaultPath;
 }
 
+/**
+ * Escape a value for a markdown table cell
+ * @param value - Cell text
+ * @returns Text with pipes and line breaks escaped
+ */
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Format the type of a prop, listing the allowed values of variant-style props
+ * @param prop - Component prop
+ * @returns Type shown in the props table
+ */
+function formatPropType(prop: ComponentProp): string {
+  return prop.values ? prop.values.map(value => `"${value}"`).join(" | ") : prop.type;
+}
+
+/**
+ * Generate the API reference section of a component response
+ * @param details - Structured guide with the exported parts, their props and the docs URL
+ * @returns Markdown section with a props table per part, or a note that the catalog has no API reference
+ */
+function generateApiSection(details: ComponentDetails): string {
+  const { api } = details;
+  if (!api) {
+    return `
+## 🧩 API Reference
+
+No API reference is recorded for ${details.displayName}: its props are not listed here and should not be guessed. Read them from the component's source file once installed, or from the documentation: ${details.docs.url}
+`;
+  }
+
+  const parts = api.parts.map(part => {
+    const description = part.description && !/[.!?]$/.test(part.description) ? `${part.description}.` : part.description;
+    const intro = [description, part.extends ? `Accepts the props of \`${part.extends}\`.` : undefined].filter(Boolean).join(" ");
+    const table = part.props?.length
+      ? `
+| Prop | Type | Default | Description |
+| --- | --- | --- | --- |
+${part.props.map(prop => `| \`${prop.name}\`${prop.required ? " (required)" : ""} | \`${escapeTableCell(formatPropType(prop))}\` | ${prop.default ? `\`${escapeTableCell(prop.default)}\`` : "-"} | ${escapeTableCell(prop.description ?? "")} |`).join("\n")}
+`
+      : "";
+
+    return `
+### \`${part.name}\`
+${intro ? `\n${intro}\n` : ""}${table}`;
+  });
+
+  return `
+## 🧩 API Reference
+${parts.join("")}`;
+}
+
+/**
+ * Generate the examples section of a component response
+ * @param details - Structured guide with the selected examples
+ * @returns Markdown section with one code block per example, or an empty string without examples
+ */
+function generateExamplesSection(details: ComponentDetails): string {
+  if (details.examples.length === 0) {
+    return "";
+  }
+
+  const note = details.scenario && !details.scenario.matched ? `\nNo example matches "${details.scenario.query}"; showing all examples.\n` : "";
+  const examples = details.examples.map(example => `
+### ${example.name}
+${example.description ? `\n${example.description}\n` : ""}
+\`\`\`${details.usage.language}
+${example.code}
+\`\`\`
+`);
+
+  return `
+## 🧪 Examples
+${note}${examples.join("")}`;
+}
+
+/**
+ * Generate the dependency section of a component response
+ * @param plan - Install plan resolved for the requested components
+ * @returns Markdown section, or an empty string when the components have no dependencies
+ */
+function generateDependencySection(plan: InstallPlan): string {
+  const componentDependencies = plan.steps.filter(step => !step.requested);
+
+  if (componentDependencies.length === 0 && plan.npmDependencies.length === 0 && plan.unresolved.length === 0) {
+    return "";
+  }
+
+  let section = `
+## 🔗 Dependencies
+`;
+
+  if (componentDependencies.length > 0) {
+    section += `
+**Components** (installed in this order):
+${componentDependencies.map(step => `- \`${step.componentName}\` (required by ${step.requiredBy.join(", ")})${step.installed ? " ✅ already installed" : ""}`).join("\n")}
+`;
+  }
+
+  if (plan.npmDependencies.length > 0) {
+    section += `
+**npm packages**: ${plan.npmDependencies.map(dependency => `\`${dependency}\``).join(", ")}
+`;
+  }
+
+  if (plan.unresolved.length > 0) {
+    section += `
+**Not in the catalog**: ${plan.unresolved.map(dependency => `\`${dependency}\``).join(", ")}
+`;
+  }
+
+  return section;
+}
+
+/**
+ * Note shown when the component or some of its dependencies already exist in the project
+ * @param plan - Install plan resolved for the component
+ * @param componentInfo - Component the response is about
+ * @returns Markdown note, or an empty string when nothing is installed yet
+ */
+function generateInstalledNote(plan: InstallPlan, componentInfo: ComponentInfo): string {
+  if (plan.alreadyInstalled.includes(componentInfo.componentName)) {
+    return `
+✅ **${componentInfo.displayName} is already installed in this project.** Import it directly; reinstalling would overwrite local changes.
+`;
+  }
+
+  if (plan.alreadyInstalled.length > 0) {
+    return `
+Already installed and skipped: ${plan.alreadyInstalled.map(name => `\`${name}\``).join(", ")}
+`;
+  }
+
+  return "";
+}
+
+/**
+ * Generate the note on pinned install commands
+ * @param plan - Install plan
+ * @returns Pinned revision and the components it has no version of, or an empty string when no revision is pinned
+ */
+function generatePinNote(plan: InstallPlan): string {
+  if (!plan.pin.registryRevision) {
+    return "";
+  }
+
+  const unpinned = plan.unpinned.length > 0
+    ? ` No recorded version of ${plan.unpinned.map(name => `\`${name}\``).join(", ")}; added at the current version.`
+    : "";
+  return `
+📌 Pinned to \`shadcn@${plan.pin.cliVersion}\` and registry revision \`${plan.pin.registryRevision}\`.${unpinned}
+`;
+}
+
+/**
+ * Format install plan commands for a bash block
+ * @param plan - Install plan
+ * @returns Commands, or a comment when everything is installed
+ */
+function formatPlanCommands(plan: InstallPlan): string {
+  return plan.commands.length > 0 ? plan.commands.join("\n") : "# Nothing to install: everything is already in the project";
+}
+
+/**
+ * Format a component version for the guide
+ * @param version - Component version
+ * @returns Revision and hash, e.g. "v2.4.0 (\`3f2a9c1e0b7d4a55\`)"
+ */
+function formatComponentVersion(version: ComponentVersion): string {
+  const hash = `\`${version.hash}\``;
+  return version.revision ? `${version.revision} (${hash})` : hash;
+}
+
 /**
  * Capitalize the first letter of a string
  * @param str - String to capitalize
@@ -236,13 +458,20 @@ function capitalizeFirst(str: string): string {
 /**
  * List components based on search query
  * Returns brief component information for candidate selection
- * @param request - List request with query, category filter, and limit
- * @returns Array of component summaries
+ * @param request - List request with query, facet filters, and limit
+ * @returns Component summaries with the total match count and facet counts
  */
 export interface ListComponentsRequest {
   query: string;
   category?: string;
   limit?: number;
+  filters?: SearchFilters;
+  mode?: SearchMode;
+  /** Attach a score explanation to each result */
+  explain?: boolean;
+  projectInspection?: ProjectInspection;
+  /** Render preview thumbnails of the top results in these themes */
+  previews?: PreviewTheme[];
 }
 
 export interface ComponentSummary {
@@ -251,103 +480,572 @@ export interface ComponentSummary {
   description: string;
   category: string;
   library?: string;
+  /** Present when the request included a project inspection */
+  installed?: boolean;
+  /** Relevance score for query searches: BM25 (lexical), cosine similarity (semantic) or a 0–1 blend (hybrid) */
+  score?: number;
+  /** Matched fields, matched terms and per-rule score contributions, when requested */
+  explanation?: ScoreExplanation;
+}
+
+export interface ListComponentsResult {
+  results: ComponentSummary[];
+  /** Number of matching components before the limit was applied */
+  total: number;
+  /** Facet counts over every matching component, for narrowing the next search */
+  facets: FacetCounts;
+  /** Ranking mode actually used; semantic and hybrid fall back to lexical without the embedding model */
+  mode: SearchMode;
+  /** Why the requested mode could not be used */
+  warning?: string;
+  /** Thumbnails of the first PREVIEW_LIST_LIMIT results, when requested */
+  previews?: PreviewBatch;
 }
 
 export async function listComponents(
   request: ListComponentsRequest
-): Promise<ComponentSummary[]> {
-  const { query, category, limit } = request;
+): Promise<ListComponentsResult> {
+  const { query, category, limit, projectInspection, explain, previews, mode: requestedMode = "lexical" } = request;
+  
+  const semanticUnavailable = requestedMode !== "lexical" ? getSemanticUnavailableReason() : null;
+  const mode: SearchMode = semanticUnavailable ? "lexical" : requestedMode;
+  if (semanticUnavailable) {
+    console.warn(`⚠️ ${requestedMode} search requested, falling back to lexical: ${semanticUnavailable}`);
+  }
   
-  console.log(`🔍 Listing components for query: "${query}"${category ? ` in category: ${category}` : ''}`);
+  // The legacy single category is one more category facet value
+  const filters: SearchFilters = {
+    ...request.filters,
+    categories: category ? [...(request.filters?.categories ?? []), category] : request.filters?.categories
+  };
+  
+  console.log(`🔍 Listing components for query: "${query}"${filters.categories?.length ? ` in categories: ${filters.categories.join(', ')}` : ''}`);
   
   let components: ComponentInfo[];
+  const scores = new Map<string, RankedComponent>();
   
   // If query is "all" or empty, return all components
-  if (!query || query.toLowerCase() === "all") {
+  const listAll = !query || query.toLowerCase() === "all";
+  if (listAll) {
     console.log(`📋 Returning all components`);
-    components = category 
-      ? getComponentsByCategory(category)
-      : getAllComponents();
-    
-    // Apply limit if provided
-    if (limit && limit > 0) {
-      components = components.slice(0, limit);
-    }
+    components = getAllComponents().filter(component => matchesFilters(component, filters));
   } else {
     // Use ranked search for specific queries
-    components = searchComponentsRanked(query, category, limit || 100);
+    const ranked = await searchComponentsRanked(query, filters, Infinity, mode, explain);
+    components = ranked.map(result => {
+      scores.set(result.component.componentName, result);
+      return result.component;
+    });
+  }
+  
+  // Facets describe every match; the limit only trims the returned page
+  const facets = countFacets(components);
+  const total = components.length;
+  if (limit && limit > 0) {
+    components = components.slice(0, limit);
+  } else if (!listAll) {
+    components = components.slice(0, 100);
   }
   
-  console.log(`✅ Found ${components.length} matching components`);
+  console.log(`✅ Found ${total} matching components, returning ${components.length}`);
   
-  // Return simplified summaries
-  return components.map(component => ({
+  // Return simplified summaries, marking components the project already has
+  const installedComponents = getInstalledComponentNames(projectInspection);
+  const results = components.map(component => ({
     name: component.componentName,
     displayName: component.displayName,
     description: component.description,
     category: component.category,
-    library: component.library
+    library: component.library,
+    installed: projectInspection ? installedComponents.has(component.componentName) : undefined,
+    score: scores.get(component.componentName)?.score,
+    explanation: scores.get(component.componentName)?.explanation
   }));
+  
+  return {
+    results,
+    total,
+    facets,
+    mode,
+    warning: semanticUnavailable ? `${requestedMode} search unavailable, used lexical ranking: ${semanticUnavailable}` : undefined,
+    previews: previews ? await getComponentPreviews(components.slice(0, PREVIEW_LIST_LIMIT), previews) : undefined
+  };
 }
 
 /**
  * Get detailed component information for installation
  * @param request - Component details request
- * @returns Formatted installation guide
+ * @returns Formatted installation guide, or suggestions when the name is unknown
  */
 export interface ComponentDetailsRequest {
   componentName: string;
   absolutePathToCurrentFile: string;
   absolutePathToProjectDirectory: string;
+  packageManager?: PackageManager;
+  projectConfig?: ProjectConfig;
+  projectInspection?: ProjectInspection;
+  /** Usage scenario, e.g. "with react-hook-form"; selects the best matching example */
+  scenario?: string;
+  /** Render preview thumbnails of the component in these themes */
+  previews?: PreviewTheme[];
+  /** Pin install commands to a shadcn CLI version and registry revision */
+  pin?: InstallPin;
+}
+
+export const DETAILS_FORMATS = ["markdown", "json"] as const;
+
+export type DetailsFormat = (typeof DETAILS_FORMATS)[number];
+
+/**
+ * Installation guide as data, for tooling that would otherwise scrape the markdown
+ */
+export interface ComponentDetails {
+  componentName: string;
+  displayName: string;
+  description: string;
+  category: string;
+  library: string;
+  packageName: string;
+  tags: string[];
+  installation: {
+    /** Commands to run from the project directory, in order; empty when everything is already installed */
+    commands: string[];
+    projectPath: string;
+    /** Directory the component files are written to */
+    installPath: string;
+    /** False for compositions that have no registry item of their own (e.g. date-picker) */
+    installable: boolean;
+    /** True when the component already exists in the project */
+    installed: boolean;
+    /** Components skipped because the project already has them */
+    alreadyInstalled: string[];
+    packageManager: PackageManager;
+    /** CLI version and registry revision the commands are pinned to */
+    pin: InstallPlan["pin"];
+    /** Components added at their current version because the pinned revision has no version of them */
+    unpinned: string[];
+  };
+  imports: {
+    statement: string;
+    language: "tsx" | "jsx";
+  };
+  usage: {
+    code: string;
+    language: "tsx" | "jsx";
+  };
+  /** Exported parts with their props, null when the catalog has no API reference for the component */
+  api: ComponentApi | null;
+  /** Named, complete examples: the one matching the scenario, or all of them */
+  examples: ComponentExample[];
+  /** Requested scenario and whether an example matched it */
+  scenario?: { query: string; matched: boolean };
+  dependencies: {
+    /** Catalog components installed with this one, dependencies first */
+    components: Array<{ componentName: string; requiredBy: string[]; installed: boolean }>;
+    npmPackages: string[];
+    /** Dependencies missing from the catalog */
+    unresolved: string[];
+  };
+  docs: {
+    url: string;
+    resources: DocumentationLink[];
+  };
+  tips: string[];
+  /** Version of the component's cached registry item; null when the item is not cached */
+  version: ComponentVersion | null;
+}
+
+export interface ComponentDetailsResult extends ComponentResult {
+  /** Structured form of the guide; absent when the name is unknown */
+  details?: ComponentDetails;
+  /** Preview thumbnails, when requested */
+  previews?: PreviewBatch;
+}
+
+interface DocumentationLink {
+  title: string;
+  url: string;
 }
 
 export async function getComponentDetails(
   request: ComponentDetailsRequest
-): Promise<string> {
-  const { componentName, absolutePathToCurrentFile, absolutePathToProjectDirectory } = request;
+): Promise<ComponentDetailsResult> {
+  const { componentName, absolutePathToCurrentFile, absolutePathToProjectDirectory, packageManager = DEFAULT_PACKAGE_MANAGER, projectConfig, projectInspection, scenario, previews, pin } = request;
   
   console.log(`📦 Getting details for component: ${componentName}`);
   
   // Get component by exact name
-  const componentInfo = getComponentByName(componentName);
+  const foundComponent = getComponentByName(componentName);
   
-  if (!componentInfo) {
-    return generateNotFoundResponse(componentName, absolutePathToProjectDirectory);
+  if (!foundComponent) {
+    const suggestions = suggestComponents(componentName);
+    return {
+      result: generateNotFoundResponse(componentName, absolutePathToProjectDirectory, packageManager, suggestions),
+      suggestions
+    };
   }
   
-  // Generate installation path
-  const installPath = determineInstallPath(absolutePathToCurrentFile, absolutePathToProjectDirectory);
+  // Rewrite imports for the project's aliases
+  const componentInfo = applyProjectConfig(foundComponent, projectConfig);
+  
+  // Generate installation path (from the project's aliases when known)
+  const installPath =
+    resolveComponentInstallPath(foundComponent, projectConfig) ?? determineInstallPath(absolutePathToCurrentFile, absolutePathToProjectDirectory);
+  
+  // Resolve the component with its registry dependencies, skipping what the project already has
+  const plan = resolveInstallPlan([componentInfo.componentName], packageManager, getInstalledComponentNames(projectInspection), pin);
   
   // Generate detailed response
-  const result = generateDetailedComponentResponse(
-    componentInfo,
-    installPath,
-    absolutePathToProjectDirectory
-  );
+  const details = buildComponentDetails(componentInfo, installPath, absolutePathToProjectDirectory, plan, projectConfig, scenario);
+  const result = generateDetailedComponentResponse(componentInfo, details, plan);
   
   console.log(`✅ Component details generated: ${componentInfo.displayName}`);
-  return result;
+  return { result, details, previews: previews ? await getComponentPreviews([foundComponent], previews) : undefined };
 }
 
 /**
- * Generate detailed component response with installation guide
+ * Get installation details for several components at once
+ * Each component gets its full details; installation and imports are merged for the whole set
+ * @param request - Batch request with component names and the shared project context
+ * @returns Combined guide and structured batch
+ */
+export interface ComponentDetailsBatchRequest extends Omit<ComponentDetailsRequest, "componentName" | "scenario" | "previews"> {
+  componentNames: string[];
+}
+
+export interface ComponentDetailsBatch {
+  /** Details of every known component, in request order */
+  components: ComponentDetails[];
+  installation: {
+    /** Commands installing the whole set, dependencies first and each component once */
+    commands: string[];
+    projectPath: string;
+    packageManager: PackageManager;
+    alreadyInstalled: string[];
+    npmPackages: string[];
+    unresolved: string[];
+    pin: InstallPlan["pin"];
+    unpinned: string[];
+  };
+  imports: {
+    /** One import line per module */
+    statement: string;
+    language: "tsx" | "jsx";
+  };
+  notFound: Array<{ componentName: string; suggestions: ComponentSuggestion[] }>;
+}
+
+export interface ComponentDetailsBatchResult {
+  result: string;
+  batch: ComponentDetailsBatch;
+}
+
+/** Components accepted by one batch request */
+export const DETAILS_BATCH_LIMIT = 20;
+
+export async function getComponentDetailsBatch(
+  request: ComponentDetailsBatchRequest
+): Promise<ComponentDetailsBatchResult> {
+  const { componentNames, ...options } = request;
+  const { absolutePathToProjectDirectory, packageManager = DEFAULT_PACKAGE_MANAGER, projectConfig, projectInspection, pin } = options;
+  const names = [...new Set(componentNames)];
+  
+  console.log(`📦 Getting details for ${names.length} components: ${names.join(", ")}`);
+  
+  const components: ComponentDetails[] = [];
+  const notFound: ComponentDetailsBatch["notFound"] = [];
+  for (const componentName of names) {
+    const { details, suggestions } = await getComponentDetails({ ...options, componentName });
+    if (details) {
+      components.push(details);
+    } else {
+      notFound.push({ componentName, suggestions: suggestions ?? [] });
+    }
+  }
+  
+  // One plan for the set, so shared dependencies are installed once
+  const plan = resolveInstallPlan(components.map(details => details.componentName), packageManager, getInstalledComponentNames(projectInspection), pin);
+  
+  const batch: ComponentDetailsBatch = {
+    components,
+    installation: {
+      commands: plan.commands,
+      projectPath: absolutePathToProjectDirectory,
+      packageManager: plan.packageManager,
+      alreadyInstalled: plan.alreadyInstalled,
+      npmPackages: plan.npmDependencies,
+      unresolved: plan.unresolved,
+      pin: plan.pin,
+      unpinned: plan.unpinned
+    },
+    imports: {
+      statement: mergeImportStatements(components.map(details => details.imports.statement)),
+      language: getCodeLanguage(projectConfig)
+    },
+    notFound
+  };
+  
+  console.log(`✅ Batch details generated: ${components.length} components, ${notFound.length} not found`);
+  return { result: generateBatchResponse(batch, plan), batch };
+}
+
+/**
+ * Generate the combined guide of a batch
+ * @param batch - Structured batch the markdown is rendered from
+ * @param plan - Install plan resolved for the whole set
+ * @returns Formatted guide with one install command and one import block
+ */
+function generateBatchResponse(batch: ComponentDetailsBatch, plan: InstallPlan): string {
+  const { components, installation, imports, notFound } = batch;
+  
+  const notFoundSection = notFound.length > 0 ? `
+## ❓ Not Found
+
+${notFound.map(({ componentName, suggestions }) => `- \`${componentName}\`${suggestions.length > 0 ? `: did you mean ${suggestions.slice(0, 3).map(suggestion => `\`${suggestion.componentName}\``).join(", ")}?` : ""}`).join("\n")}
+` : "";
+  
+  if (components.length === 0) {
+    return `
+# Component Set
+${notFoundSection}
+None of the requested components are in the catalog.
+`;
+  }
+  
+  const usageSections = components.map(details => `
+### ${details.displayName}
+
+${details.description}
+
+\`\`\`${details.usage.language}
+${details.usage.code}
+\`\`\`
+
+📚 [Documentation](${details.docs.url})
+`);
+  
+  return `
+# Component Set: ${components.map(details => details.displayName).join(", ")}
+
+## 📦 Installation
+${installation.alreadyInstalled.length > 0 ? `
+Already installed and skipped: ${installation.alreadyInstalled.map(name => `\`${name}\``).join(", ")}
+` : ""}${generatePinNote(plan)}
+\`\`\`bash
+cd ${installation.projectPath}
+${formatPlanCommands(plan)}
+\`\`\`
+
+## 🔧 Imports
+
+\`\`\`${imports.language}
+${imports.statement}
+\`\`\`
+
+## 💡 Usage
+${usageSections.join("")}${generateDependencySection(plan)}${notFoundSection}`;
+}
+
+/**
+ * Compare similar components side by side
+ * @param request - Component names to compare
+ * @returns Markdown comparison table and the structured comparison, or the names that are not in the catalog
+ */
+export interface CompareComponentsRequest {
+  componentNames: string[];
+}
+
+export interface CompareComponentsResult {
+  result: string;
+  /** Null when any name is unknown */
+  comparison: ComponentComparison | null;
+  notFound: Array<{ componentName: string; suggestions: ComponentSuggestion[] }>;
+}
+
+export function getComponentComparison(
+  request: CompareComponentsRequest
+): CompareComponentsResult {
+  const names = [...new Set(request.componentNames)];
+  
+  console.log(`⚖️ Comparing components: ${names.join(", ")}`);
+  
+  const components = names.map(name => getComponentByName(name));
+  const notFound = names
+    .filter((name, index) => !components[index])
+    .map(componentName => ({ componentName, suggestions: suggestComponents(componentName) }));
+  
+  if (notFound.length > 0) {
+    return {
+      result: `Unknown components: ${notFound.map(({ componentName, suggestions }) => `\`${componentName}\`${suggestions.length > 0 ? ` (did you mean \`${suggestions[0].componentName}\`?)` : ""}`).join(", ")}`,
+      comparison: null,
+      notFound
+    };
+  }
+  
+  const comparison = compareComponents(components.filter((component): component is ComponentInfo => component !== null));
+  
+  console.log(`✅ Comparison generated for ${comparison.components.length} components`);
+  return { result: generateComparisonResponse(comparison), comparison, notFound };
+}
+
+/**
+ * Generate the comparison table of similar components
+ * @param comparison - Side-by-side comparison
+ * @returns Markdown with one column per component and one row per attribute
+ */
+function generateComparisonResponse(comparison: ComponentComparison): string {
+  const { components, matrix } = comparison;
+  
+  return `
+# Component Comparison: ${components.map(entry => entry.displayName).join(" vs ")}
+
+| | ${components.map(entry => `**${escapeTableCell(entry.displayName)}** (\`${entry.componentName}\`)`).join(" | ")} |
+| --- | ${components.map(() => "---").join(" | ")} |
+${matrix.map(row => `| **${row.attribute}** | ${row.values.map(escapeTableCell).join(" | ")} |`).join("\n")}
+
+Bundle weight is the heaviest runtime package of the component and its dependencies: none, light (under ~10 kB gzipped), medium (under ~50 kB) or heavy.
+`;
+}
+
+/**
+ * Get the documentation links of a component
  * @param componentInfo - Component information
+ * @returns Component documentation first, then its library's collection or shadcn/ui and Radix docs
+ */
+function getDocumentationLinks(componentInfo: ComponentInfo): DocumentationLink[] {
+  const links = [{
+    title: "Documentation",
+    url: componentInfo.documentationUrl || `https://ui.shadcn.com/docs/components/${componentInfo.componentName}`
+  }];
+  
+  // Add specific documentation for extended libraries
+  if (componentInfo.library === "shadcn-ai") {
+    links.push({ title: "AI Components Collection", url: "https://www.shadcn.io/ai" });
+  } else if (componentInfo.library === "shadcn-button") {
+    links.push({ title: "Button Components Collection", url: "https://www.shadcn.io/button" });
+  } else if (componentInfo.library === "shadcn-text") {
+    links.push({ title: "Text Components Collection", url: "https://www.shadcn.io/text" });
+  } else {
+    links.push(
+      { title: "shadcn/ui Documentation", url: "https://ui.shadcn.com/docs/components" },
+      { title: "Radix UI Documentation", url: "https://www.radix-ui.com/primitives" }
+    );
+  }
+  
+  return links;
+}
+
+/**
+ * Get the pro tips for a component
+ * @param componentInfo - Component information
+ * @returns General tips followed by category-specific ones
+ */
+function getProTips(componentInfo: ComponentInfo): string[] {
+  const tips = [
+    "Check the component's props in the documentation for customization options",
+    "Use Tailwind CSS classes for styling"
+  ];
+  
+  // Add category-specific tips
+  if (componentInfo.category === "ai") {
+    tips.push(
+      "These AI components are designed for chat and conversational interfaces",
+      "Consider streaming responses for better UX",
+      "Integrate with AI SDKs like Vercel AI SDK or LangChain"
+    );
+  } else if (componentInfo.category === "advanced-button") {
+    tips.push(
+      "These buttons include advanced animations and effects",
+      "Test performance on lower-end devices",
+      "Consider using reduced-motion queries for accessibility"
+    );
+  } else if (componentInfo.category === "text") {
+    tips.push(
+      "These text components include animations that may need performance tuning",
+      "Test readability and accessibility with screen readers",
+      "Consider animation timing based on text length"
+    );
+  } else {
+    tips.push(
+      "Consider using the component's variants (e.g., `variant=\"outline\"` for buttons)",
+      "Test the component in different states (loading, disabled, error, etc.)"
+    );
+  }
+  
+  return tips;
+}
+
+/**
+ * Build the structured installation guide of a component
+ * @param componentInfo - Component information (with the project's import aliases applied)
  * @param installPath - Installation path
  * @param projectPath - Project root path
+ * @param plan - Install plan resolved for the component
+ * @param projectConfig - Project components.json and tsconfig settings
+ * @returns Component details
+ */
+function buildComponentDetails(
+  componentInfo: ComponentInfo,
+  installPath: string,
+  projectPath: string,
+  plan: InstallPlan,
+  projectConfig?: ProjectConfig,
+  scenario?: string
+): ComponentDetails {
+  const language = getCodeLanguage(projectConfig);
+  const resources = getDocumentationLinks(componentInfo);
+  const selection = selectExamples(componentInfo.examples ?? [], scenario);
+  
+  return {
+    componentName: componentInfo.componentName,
+    displayName: componentInfo.displayName,
+    description: componentInfo.description,
+    category: componentInfo.category,
+    library: getComponentLibrary(componentInfo),
+    packageName: componentInfo.packageName,
+    tags: componentInfo.tags,
+    installation: {
+      commands: plan.commands,
+      projectPath,
+      installPath,
+      installable: componentInfo.installable !== false,
+      installed: plan.alreadyInstalled.includes(componentInfo.componentName),
+      alreadyInstalled: plan.alreadyInstalled,
+      packageManager: plan.packageManager,
+      pin: plan.pin,
+      unpinned: plan.unpinned
+    },
+    imports: { statement: componentInfo.importStatement, language },
+    usage: { code: componentInfo.usage, language },
+    api: componentInfo.api ?? null,
+    examples: selection.examples,
+    scenario: scenario === undefined ? undefined : { query: scenario, matched: selection.matched },
+    dependencies: {
+      components: plan.steps
+        .filter(step => step.componentName !== componentInfo.componentName)
+        .map(({ componentName, requiredBy, installed }) => ({ componentName, requiredBy, installed })),
+      npmPackages: plan.npmDependencies,
+      unresolved: plan.unresolved
+    },
+    docs: { url: resources[0].url, resources },
+    tips: getProTips(componentInfo),
+    version: getComponentVersion(componentInfo)
+  };
+}
+
+/**
+ * Generate detailed component response with installation guide
+ * @param componentInfo - Component information
+ * @param details - Structured guide the markdown is rendered from
+ * @param plan - Install plan resolved for the component
  * @returns Formatted detailed response
  */
 function generateDetailedComponentResponse(
   componentInfo: ComponentInfo,
-  installPath: string,
-  projectPath: string
+  details: ComponentDetails,
+  plan: InstallPlan
 ): string {
-  // Determine installation command
-  const installCommand = componentInfo.installCommand || 
-    `npx shadcn@latest add ${componentInfo.componentName}`;
-  
-  // Build documentation link
-  const docUrl = componentInfo.documentationUrl || 
-    `https://ui.shadcn.com/docs/components/${componentInfo.componentName}`;
+  const { installation, imports, usage, docs, tips } = details;
   
   let response = `
 # ${componentInfo.displayName}
@@ -355,29 +1053,31 @@ function generateDetailedComponentResponse(
 ${componentInfo.description}
 
 ## 📦 Installation
-
+${installation.installable ? "" : `
+${componentInfo.displayName} has no registry item of its own: it is composed from the components below. Install them, then build it as shown in the documentation.
+`}${generateInstalledNote(plan, componentInfo)}${generatePinNote(plan)}
 \`\`\`bash
-cd ${projectPath}
-${installCommand}
+cd ${installation.projectPath}
+${formatPlanCommands(plan)}
 \`\`\`
 
 ## 📁 Installation Path
 
 The component will be installed to:
-\`${installPath}\`
+\`${installation.installPath}\`
 
 ## 🔧 Import Statement
 
-\`\`\`tsx
-${componentInfo.importStatement}
+\`\`\`${imports.language}
+${imports.statement}
 \`\`\`
 
 ## 💡 Basic Usage
 
-\`\`\`tsx
-${componentInfo.usage}
+\`\`\`${usage.language}
+${usage.code}
 \`\`\`
-
+${generateExamplesSection(details)}${generateApiSection(details)}${generateDependencySection(plan)}
 ## 🏷️ Component Details
 
 - **Name**: ${componentInfo.displayName}
@@ -386,6 +1086,10 @@ ${componentInfo.usage}
 - **Tags**: ${componentInfo.tags.join(", ")}
 `;
 
+  if (details.version) {
+    response += `- **Version**: ${formatComponentVersion(details.version)}\n`;
+  }
+
   // Add library info if it's an extended component
   if (componentInfo.library && componentInfo.library !== "shadcn-ui") {
     response += `- **Library**: ${componentInfo.library}\n`;
@@ -394,23 +1098,8 @@ ${componentInfo.usage}
   response += `
 ## 📚 Additional Resources
 
-- [Documentation](${docUrl})
-`;
+${docs.resources.map(link => `- [${link.title}](${link.url})`).join("\n")}
 
-  // Add specific documentation for extended libraries
-  if (componentInfo.library === "shadcn-ai") {
-    response += `- [AI Components Collection](https://www.shadcn.io/ai)\n`;
-  } else if (componentInfo.library === "shadcn-button") {
-    response += `- [Button Components Collection](https://www.shadcn.io/button)\n`;
-  } else if (componentInfo.library === "shadcn-text") {
-    response += `- [Text Components Collection](https://www.shadcn.io/text)\n`;
-  } else {
-    response += `- [shadcn/ui Documentation](https://ui.shadcn.com/docs/components)
-- [Radix UI Documentation](https://www.radix-ui.com/primitives)
-`;
-  }
-
-  response += `
 ## 🚀 Next Steps
 
 1. Run the installation command above
@@ -420,31 +1109,33 @@ ${componentInfo.usage}
 
 ## 💡 Pro Tips
 
-- Check the component's props in the documentation for customization options
-- Use Tailwind CSS classes for styling
-`;
-
-  // Add category-specific tips
-  if (componentInfo.category === "ai") {
-    response += `- These AI components are designed for chat and conversational interfaces
-- Consider streaming responses for better UX
-- Integrate with AI SDKs like Vercel AI SDK or LangChain
-`;
-  } else if (componentInfo.category === "advanced-button") {
-    response += `- These buttons include advanced animations and effects
-- Test performance on lower-end devices
-- Consider using reduced-motion queries for accessibility
-`;
-  } else if (componentInfo.category === "text") {
-    response += `- These text components include animations that may need performance tuning
-- Test readability and accessibility with screen readers
-- Consider animation timing based on text length
+${tips.map(tip => `- ${tip}`).join("\n")}
 `;
-  } else {
-    response += `- Consider using the component's variants (e.g., \`variant="outline"\` for buttons)
-- Test the component in different states (loading, disabled, error, etc.)
-`;
-  }
 
   return response;
 }
+
+/**
+ * Resolve a transitive install plan for a set of components
+ * @param request - Install plan request with component names
+ * @returns Ordered, deduplicated install plan
+ */
+export interface InstallPlanRequest {
+  componentNames: string[];
+  packageManager?: PackageManager;
+  projectInspection?: ProjectInspection;
+  pin?: InstallPin;
+}
+
+export function getInstallPlan(
+  request: InstallPlanRequest
+): InstallPlan {
+  const { componentNames, packageManager = DEFAULT_PACKAGE_MANAGER, projectInspection, pin } = request;
+  
+  console.log(`🧩 Resolving ${packageManager} install plan for: ${componentNames.join(", ")}`);
+  
+  const plan = resolveInstallPlan(componentNames, packageManager, getInstalledComponentNames(projectInspection), pin);
+  
+  console.log(`✅ Install plan resolved: ${plan.steps.length} components, ${plan.npmDependencies.length} npm packages`);
+  return plan;
+}
@@ -0,0 +1,86 @@
+/**
+ * Behaviour checks for classifying installed component files against the registry cache
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it, mock } from "node:test";
+import { initializeCatalog } from "../utils/component-catalog.js";
+import { CachedRegistryItem, writeCachedRegistryItem } from "../utils/registry-cache.js";
+import { refreshMirrorIndex } from "../utils/registry-mirror.js";
+import { checkComponentDrift } from "./drift-service.js";
+
+/**
+ * Build a button registry item
+ * @param content - Source of its only file
+ * @returns Registry item
+ */
+const buttonItem = (content: string): CachedRegistryItem => ({
+  name: "button",
+  type: "registry:ui",
+  files: [{ path: "registry/new-york/ui/button.tsx", type: "registry:ui", content }],
+});
+
+const OLD_BUTTON = "export function Button() {\n  return <button />;\n}\n";
+const NEW_BUTTON = 'export function Button() {\n  return <button type="button" />;\n}\n';
+
+describe("checkComponentDrift", () => {
+  let cacheDirectory: string;
+
+  before(async () => {
+    // Lines logged while tests run can garble the report stream of the Node 20 test runner
+    mock.method(console, "log", () => undefined);
+    cacheDirectory = mkdtempSync(path.join(tmpdir(), "superui-registry-cache-"));
+    process.env.REGISTRY_CACHE_DIR = cacheDirectory;
+    await initializeCatalog();
+    await writeCachedRegistryItem("button", buttonItem(OLD_BUTTON), { revision: "v1" });
+    await writeCachedRegistryItem("button", buttonItem(NEW_BUTTON), { revision: "v2" });
+    await refreshMirrorIndex();
+  });
+
+  after(() => {
+    delete process.env.REGISTRY_CACHE_DIR;
+    rmSync(cacheDirectory, { recursive: true, force: true });
+  });
+
+  /**
+   * Check the drift of one installed button file
+   * @param content - Installed file contents
+   * @returns Drift of the file
+   */
+  const checkButton = async (content: string) => {
+    const { files } = await checkComponentDrift({ files: [{ path: "components/ui/button.tsx", content }] });
+    return files[0];
+  };
+
+  it("reports a file matching the current version as unchanged, ignoring line endings", async () => {
+    const drift = await checkButton(NEW_BUTTON.replace(/\n/g, "\r\n"));
+    assert.equal(drift.status, "unchanged");
+    assert.equal(drift.installedVersion?.revision, "v2");
+  });
+
+  it("reports a file matching an older version as outdated with the upstream diff", async () => {
+    const drift = await checkButton(OLD_BUTTON);
+    assert.equal(drift.status, "outdated");
+    assert.equal(drift.installedVersion?.revision, "v1");
+    assert.equal(drift.currentVersion?.revision, "v2");
+    assert.match(drift.diff ?? "", /^\+ {2}return <button type="button" \/>;$/m);
+  });
+
+  it("reports a locally edited file as modified and merges the upstream change into it", async () => {
+    const drift = await checkButton(OLD_BUTTON.replace("export function", "// local\nexport function"));
+    assert.equal(drift.status, "modified");
+    assert.equal(drift.installedVersion?.revision, "v1");
+    assert.equal(drift.threeWay?.conflicts, 0);
+    assert.equal(drift.threeWay?.merged, `// local\n${NEW_BUTTON}`);
+  });
+
+  it("reports files without a cached registry item as unknown", async () => {
+    const { files, summary } = await checkComponentDrift({ files: [{ path: "components/ui/accordion.tsx", content: "" }] });
+    assert.equal(files[0].status, "unknown");
+    assert.match(files[0].reason ?? "", /not in the registry cache/);
+    assert.equal(summary.unknown, 1);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Drift service for SuperUI API Server
+ * Compares installed component files against the versions recorded in the registry cache
+ */
+
+import path from "node:path";
+import { getComponentByName } from "../utils/component-finder.js";
+import { ProjectConfig, ProjectAliases, resolveAliases, rewriteImportAliases } from "../utils/project-config.js";
+import { ProjectInspection } from "../utils/project-inspection.js";
+import { CachedRegistryItem, getRegistryItemKey } from "../utils/registry-cache.js";
+import { getMirroredItem } from "../utils/registry-mirror.js";
+import { mergeThreeWay } from "../utils/three-way-merge.js";
+import { createUnifiedDiff, diffLines, toLines } from "../utils/unified-diff.js";
+import { resolveRegistryFilePath } from "./install-service.js";
+import { getComponentItemKey, readItemVersion } from "./version-service.js";
+
+export const DRIFT_STATUSES = ["unchanged", "outdated", "modified", "unknown"] as const;
+
+export type DriftStatus = (typeof DRIFT_STATUSES)[number];
+
+/** Component files checked by one drift check; further files are reported as not checked */
+export const DRIFT_FILE_LIMIT = 300;
+
+export interface ProjectFileContent {
+  /** Path relative to the project root, using forward slashes */
+  path: string;
+  content: string;
+}
+
+export interface ComponentDriftRequest {
+  files: ProjectFileContent[];
+  projectConfig?: ProjectConfig;
+  projectInspection?: ProjectInspection;
+}
+
+export interface DriftVersion {
+  hash: string;
+  revision?: string;
+}
+
+export interface FileDrift {
+  path: string;
+  componentName: string | null;
+  /** Registry item the file belongs to */
+  item: string | null;
+  status: DriftStatus;
+  /** Why the file cannot be checked (unknown) */
+  reason?: string;
+  /** Version the file matches (unchanged, outdated) or was most likely edited from (modified) */
+  installedVersion?: DriftVersion;
+  currentVersion?: DriftVersion;
+  /** Upstream changes since the installed version (outdated) */
+  diff?: string;
+  /** Local and upstream changes since the installed version, and the two merged (modified) */
+  threeWay?: {
+    localDiff: string;
+    /** Empty when the installed version is the current one */
+    upstreamDiff: string;
+    /** Local edits applied to the current version, with conflict markers where both changed the same lines */
+    merged: string;
+    conflicts: number;
+  };
+}
+
+export interface ComponentDriftReport {
+  files: FileDrift[];
+  summary: Record<DriftStatus, number>;
+  /** True when the request had more than DRIFT_FILE_LIMIT files and only the first ones were checked */
+  truncated: boolean;
+  /** Paths of the files that were not checked */
+  notChecked: string[];
+}
+
+/**
+ * Normalize file contents for comparison
+ * Line endings and trailing whitespace differ between editors and are not treated as changes
+ * @param content - File contents
+ * @returns Normalized contents
+ */
+function normalizeContent(content: string): string {
+  return `${content
+    .replace(/\r\n/g, "\n")
+    .replace(/[ \t]+$/gm, "")
+    .trimEnd()}\n`;
+}
+
+/**
+ * Count the lines that differ between two texts
+ * @param from - Old text
+ * @param to - New text
+ * @returns Removed plus added lines
+ */
+function countChangedLines(from: string, to: string): number {
+  return diffLines(toLines(from), toLines(to)).filter((line) => line.type !== " ").length;
+}
+
+/**
+ * Find the content a registry item installs at a project path
+ * @param item - Registry item
+ * @param filePath - Project-relative path
+ * @param aliases - Project aliases
+ * @param request - Drift request with the project settings
+ * @returns Normalized content as installed (imports rewritten to the project aliases), or null when the item has no such file
+ */
+function getInstalledContent(item: CachedRegistryItem, filePath: string, aliases: ProjectAliases, request: ComponentDriftRequest): string | null {
+  const file =
+    item.files.find((itemFile) => resolveRegistryFilePath(itemFile, aliases, request.projectConfig, request.projectInspection) === filePath) ??
+    item.files.find((itemFile) => path.posix.basename(itemFile.path) === path.posix.basename(filePath));
+  return file ? normalizeContent(rewriteImportAliases(file.content, aliases)) : null;
+}
+
+/**
+ * Check one component file against the recorded versions of its registry item
+ * @param file - Project file
+ * @param aliases - Project aliases
+ * @param request - Drift request with the project settings
+ * @returns Drift of the file
+ */
+async function checkFileDrift(file: ProjectFileContent, aliases: ProjectAliases, request: ComponentDriftRequest): Promise<FileDrift> {
+  const name = path.posix.basename(file.path).replace(/\.[jt]sx?$/, "");
+  const component = getComponentByName(name);
+  const key = component ? getComponentItemKey(component) : getRegistryItemKey(name);
+  const drift: FileDrift = { path: file.path, componentName: component?.componentName ?? null, item: key, status: "unknown" };
+
+  const mirrored = key ? getMirroredItem(key) : undefined;
+  if (!key || !mirrored) {
+    drift.reason = !component
+      ? "Not a catalog component and not in the registry cache"
+      : !key
+        ? "Installed with its own command, not from a registry item"
+        : `Registry item "${key}" is not in the registry cache (run \`npm run registry:cache\` on the server)`;
+    return drift;
+  }
+
+  // Installed content of every recorded version, newest first
+  const versions: Array<DriftVersion & { content: string }> = [];
+  for (const version of [...mirrored.versions].reverse()) {
+    if (versions.some((known) => known.hash === version.hash)) {
+      continue;
+    }
+    const item = await readItemVersion(key, version.hash, mirrored.currentHash);
+    const content = item ? getInstalledContent(item, file.path, aliases, request) : null;
+    if (content !== null) {
+      versions.push({ hash: version.hash, revision: version.revision, content });
+    }
+  }
+
+  const current = versions.find((version) => version.hash === mirrored.currentHash);
+  if (!current) {
+    drift.reason = `Registry item "${key}" has no file for ${file.path}`;
+    return drift;
+  }
+
+  const local = normalizeContent(file.content);
+  const currentVersion = { hash: current.hash, revision: current.revision };
+  const matching = versions.find((version) => version.content === local);
+
+  if (matching) {
+    return {
+      ...drift,
+      status: matching === current ? "unchanged" : "outdated",
+      installedVersion: { hash: matching.hash, revision: matching.revision },
+      currentVersion,
+      diff: matching === current ? undefined : createUnifiedDiff(file.path, matching.content, current.content),
+    };
+  }
+
+  // Locally modified: diff against the version it is closest to
+  const base = versions.reduce((closest, version) =>
+    countChangedLines(version.content, local) < countChangedLines(closest.content, local) ? version : closest
+  );
+  const { merged, conflicts } = mergeThreeWay(base.content, local, current.content, {
+    local: "local",
+    base: `base (${base.revision ?? base.hash})`,
+    upstream: `upstream (${current.revision ?? current.hash})`,
+  });
+
+  return {
+    ...drift,
+    status: "modified",
+    installedVersion: { hash: base.hash, revision: base.revision },
+    currentVersion,
+    threeWay: {
+      localDiff: createUnifiedDiff(file.path, base.content, local),
+      upstreamDiff: createUnifiedDiff(file.path, base.content, current.content),
+      merged,
+      conflicts,
+    },
+  };
+}
+
+/**
+ * Check installed component files for drift from the registry
+ * Each file is matched to a registry item by name: files identical to the current version are unchanged,
+ * files identical to an older recorded version are outdated, other files are locally modified
+ * Only the first DRIFT_FILE_LIMIT files are checked; the rest are listed in notChecked
+ * @param request - Component files and project settings
+ * @returns Drift per file with a summary
+ */
+export async function checkComponentDrift(request: ComponentDriftRequest): Promise<ComponentDriftReport> {
+  const aliases = resolveAliases(request.projectConfig);
+  const files: FileDrift[] = [];
+  const checked = request.files.slice(0, DRIFT_FILE_LIMIT);
+  const notChecked = request.files.slice(DRIFT_FILE_LIMIT).map((file) => file.path);
+
+  console.log(`🔎 Checking ${checked.length} component files for drift`);
+  if (notChecked.length > 0) {
+    console.warn(`⚠️ Drift check limited to ${DRIFT_FILE_LIMIT} files, ${notChecked.length} not checked`);
+  }
+
+  for (const file of checked) {
+    files.push(await checkFileDrift(file, aliases, request));
+  }
+
+  const summary = Object.fromEntries(DRIFT_STATUSES.map((status) => [status, files.filter((file) => file.status === status).length])) as Record<
+    DriftStatus,
+    number
+  >;
+
+  console.log(`✅ Drift checked: ${DRIFT_STATUSES.map((status) => `${summary[status]} ${status}`).join(", ")}`);
+  return { files, summary, truncated: notChecked.length > 0, notChecked };
+}
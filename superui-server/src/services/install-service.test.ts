@@ -0,0 +1,114 @@
+/**
+ * Behaviour checks for mapping registry files to project paths
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it, mock } from "node:test";
+import { initializeCatalog } from "../utils/component-catalog.js";
+import { parseProjectConfig, resolveAliases } from "../utils/project-config.js";
+import { parseProjectInspection } from "../utils/project-inspection.js";
+import { CachedRegistryFile, writeCachedRegistryItem } from "../utils/registry-cache.js";
+import { getComponentInstallation, resolveRegistryFilePath } from "./install-service.js";
+
+/**
+ * Build a registry file
+ * @param type - Registry file type
+ * @param filePath - Path in the registry
+ * @param target - Explicit install target
+ * @returns Registry file without content
+ */
+const registryFile = (type: string, filePath: string, target?: string): CachedRegistryFile => ({ type, path: filePath, content: "", target });
+
+describe("resolveRegistryFilePath", () => {
+  const aliases = resolveAliases();
+
+  it("maps files to the default alias directories by type", () => {
+    assert.equal(resolveRegistryFilePath(registryFile("registry:ui", "registry/new-york-v4/ui/button.tsx"), aliases), "components/ui/button.tsx");
+    assert.equal(resolveRegistryFilePath(registryFile("registry:component", "blocks/login-form.tsx"), aliases), "components/login-form.tsx");
+    assert.equal(resolveRegistryFilePath(registryFile("registry:hook", "hooks/use-mobile.ts"), aliases), "hooks/use-mobile.ts");
+    assert.equal(resolveRegistryFilePath(registryFile("registry:lib", "lib/utils.ts"), aliases), "lib/utils.ts");
+  });
+
+  it("follows the project's tsconfig paths", () => {
+    const config = parseProjectConfig({ tsconfig: { baseUrl: ".", paths: { "@/*": ["./src/*"] } } });
+    assert.equal(resolveRegistryFilePath(registryFile("registry:ui", "ui/button.tsx"), resolveAliases(config), config), "src/components/ui/button.tsx");
+  });
+
+  it("places aliases below the inspected components directory", () => {
+    const inspection = parseProjectInspection({
+      framework: { name: "next" },
+      tailwind: {},
+      shadcn: { configured: true },
+      componentsDirectory: "src/components",
+    });
+    assert.equal(resolveRegistryFilePath(registryFile("registry:ui", "ui/button.tsx"), aliases, undefined, inspection), "src/components/ui/button.tsx");
+  });
+
+  it("writes files with a target to that target", () => {
+    assert.equal(resolveRegistryFilePath(registryFile("registry:page", "page.tsx", "app/login/page.tsx"), aliases), "app/login/page.tsx");
+    assert.equal(resolveRegistryFilePath(registryFile("registry:file", "env", "~/.env.example"), aliases), ".env.example");
+  });
+
+  it("refuses targets outside the project", () => {
+    for (const target of ["../evil.ts", "app/../../evil.ts", "/etc/passwd", ".."]) {
+      assert.equal(resolveRegistryFilePath(registryFile("registry:file", "evil.ts", target), aliases), null, target);
+    }
+  });
+
+  it("refuses aliases that lead outside the project", () => {
+    const config = parseProjectConfig({ componentsJson: { aliases: { ui: "@/../../outside" } } });
+    assert.equal(resolveRegistryFilePath(registryFile("registry:ui", "ui/button.tsx"), resolveAliases(config), config), null);
+  });
+
+  it("has no location for file types without an alias or target", () => {
+    assert.equal(resolveRegistryFilePath(registryFile("registry:style", "style.css"), aliases), null);
+  });
+});
+
+describe("getComponentInstallation", () => {
+  let cacheDirectory: string;
+
+  before(async () => {
+    // Lines logged while tests run can garble the report stream of the Node 20 test runner
+    mock.method(console, "log", () => undefined);
+    cacheDirectory = mkdtempSync(path.join(tmpdir(), "superui-registry-cache-"));
+    process.env.REGISTRY_CACHE_DIR = cacheDirectory;
+    await initializeCatalog();
+    await writeCachedRegistryItem("button", {
+      name: "button",
+      type: "registry:ui",
+      registryDependencies: ["label", "@acme/spinner"],
+      files: [{ path: "registry/new-york/ui/button.tsx", type: "registry:ui", content: "export function Button() {}\n" }],
+    });
+  });
+
+  after(() => {
+    mock.restoreAll();
+    delete process.env.REGISTRY_CACHE_DIR;
+    rmSync(cacheDirectory, { recursive: true, force: true });
+  });
+
+  it("reports registry dependencies of a cached item that its catalog entry does not list", async () => {
+    const { components, skipped } = await getComponentInstallation({ componentNames: ["button"], packageManager: "pnpm" });
+
+    assert.deepEqual(components, ["button"]);
+    assert.deepEqual(
+      skipped.map(({ componentName }) => componentName),
+      ["label", "@acme/spinner"]
+    );
+    assert.match(skipped[0].reason, /add it to componentNames/);
+    assert.match(skipped[1].reason, /pnpm dlx shadcn@latest add @acme\/spinner/);
+  });
+
+  it("does not report registry dependencies requested along with the item", async () => {
+    const { skipped } = await getComponentInstallation({ componentNames: ["button", "label"], packageManager: "npm" });
+
+    assert.deepEqual(
+      skipped.filter(({ reason }) => reason.startsWith("Required by")).map(({ componentName }) => componentName),
+      ["@acme/spinner"]
+    );
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Install service for SuperUI API Server
+ * Turns an install plan into the component files to write into a project, read from the local registry cache
+ */
+
+import path from "node:path";
+import { getComponentByName } from "../utils/component-finder.js";
+import { resolveInstallPlan } from "../utils/install-plan.js";
+import { DEFAULT_PACKAGE_MANAGER, formatShadcnAddCommand, PackageManager } from "../utils/package-manager.js";
+import { getCodeLanguage, ProjectAliases, ProjectConfig, resolveAliases, resolveModulePath, rewriteImportAliases } from "../utils/project-config.js";
+import { getInstalledComponentNames, ProjectInspection } from "../utils/project-inspection.js";
+import { CachedRegistryFile, getRegistryItemKey, readCachedRegistryItem } from "../utils/registry-cache.js";
+
+/**
+ * Alias each registry file type is installed under (files of other types need a `target`)
+ */
+const FILE_TYPE_ALIASES: Record<string, keyof ProjectAliases> = {
+  "registry:ui": "ui",
+  "registry:component": "components",
+  "registry:block": "components",
+  "registry:example": "components",
+  "registry:hook": "hooks",
+  "registry:lib": "lib",
+};
+
+export interface InstallComponentsRequest {
+  componentNames: string[];
+  packageManager?: PackageManager;
+  projectConfig?: ProjectConfig;
+  projectInspection?: ProjectInspection;
+}
+
+export interface InstallFile {
+  /** Component (or external registry item) the file belongs to */
+  componentName: string;
+  /** Path relative to the project root, using forward slashes */
+  path: string;
+  content: string;
+}
+
+export interface ComponentInstallation {
+  packageManager: PackageManager;
+  /** Components whose files are included, dependencies first */
+  components: string[];
+  files: InstallFile[];
+  /** npm packages of the included components, from the catalog and the cached registry items */
+  npmDependencies: string[];
+  alreadyInstalled: string[];
+  /** Components that cannot be installed from the cache, and registry dependencies of cached items the plan does not cover, with the reason */
+  skipped: Array<{ componentName: string; reason: string }>;
+  unresolved: string[];
+  warnings: string[];
+}
+
+/**
+ * Map an alias to a project directory
+ * Uses the tsconfig paths, then places the alias below the directory that holds `components` (e.g. `src`)
+ * @param alias - Alias such as "@/components/ui"
+ * @param config - Project configuration
+ * @param inspection - Project inspection
+ * @returns Project-relative directory
+ */
+function resolveAliasDirectory(alias: string, config?: ProjectConfig, inspection?: ProjectInspection): string {
+  const mapped = resolveModulePath(alias, config?.tsconfig);
+  if (mapped !== null) {
+    return mapped;
+  }
+
+  const componentsDirectory = inspection?.componentsDirectory?.replace(/\\/g, "/");
+  const sourceRoot = componentsDirectory && path.posix.basename(componentsDirectory) === "components" ? path.posix.dirname(componentsDirectory) : ".";
+  const aliasPath = alias.includes("/") ? alias.slice(alias.indexOf("/") + 1) : alias.replace(/^\W+/, "");
+  return path.posix.join(sourceRoot, aliasPath);
+}
+
+/**
+ * Determine where a registry file is written in the project
+ * @param file - Cached registry file
+ * @param aliases - Project aliases
+ * @param config - Project configuration
+ * @param inspection - Project inspection
+ * @returns Project-relative file path, or null when the file has no known location or would leave the project
+ */
+export function resolveRegistryFilePath(
+  file: CachedRegistryFile,
+  aliases: ProjectAliases,
+  config?: ProjectConfig,
+  inspection?: ProjectInspection
+): string | null {
+  const alias = FILE_TYPE_ALIASES[file.type];
+  const filePath = file.target
+    ? path.posix.normalize(file.target.replace(/^~\//, ""))
+    : alias
+      ? path.posix.join(resolveAliasDirectory(aliases[alias], config, inspection), path.posix.basename(file.path))
+      : null;
+
+  return filePath && filePath !== ".." && !filePath.startsWith("../") && !path.posix.isAbsolute(filePath) ? filePath : null;
+}
+
+/**
+ * Collect the files that install components into a project
+ * Dependencies are resolved transitively; components already in the project are left out
+ * @param request - Component names and project settings
+ * @returns Files to write, npm dependencies, and the components that cannot be installed offline
+ */
+export async function getComponentInstallation(request: InstallComponentsRequest): Promise<ComponentInstallation> {
+  const { componentNames, packageManager = DEFAULT_PACKAGE_MANAGER, projectConfig, projectInspection } = request;
+  const installedComponents = getInstalledComponentNames(projectInspection);
+  const plan = resolveInstallPlan(componentNames, packageManager, installedComponents);
+  const aliases = resolveAliases(projectConfig);
+  // Items the plan covers, by component name and by the cache key of their registry item
+  const plannedItems = new Set(plan.steps.flatMap((step) => [step.componentName, ...(step.target ? [getRegistryItemKey(step.target)] : [])]));
+  // Registry dependencies declared by cached items but not by the catalog, with the components whose items declare them
+  const undeclaredDependencies = new Map<string, string[]>();
+
+  const components: string[] = [];
+  const files = new Map<string, InstallFile>();
+  const npmDependencies = new Set<string>();
+  const skipped: ComponentInstallation["skipped"] = [];
+  const warnings: string[] = [];
+  // Several components can share one registry item (e.g. a registry bundle)
+  const loadedItems = new Map<string, string>();
+
+  if (getCodeLanguage(projectConfig) === "jsx") {
+    warnings.push("components.json sets tsx: false, but registry files are written as TypeScript (.tsx/.ts)");
+  }
+
+  for (const step of plan.steps.filter((planStep) => !planStep.installed)) {
+    if (!step.installable) {
+      skipped.push({ componentName: step.componentName, reason: "No registry item: it is composed from its dependencies (see its usage example)" });
+      continue;
+    }
+
+    const key = step.target ? getRegistryItemKey(step.target) : null;
+    if (!key) {
+      skipped.push({ componentName: step.componentName, reason: "Installed with its own command, not from a registry item" });
+      continue;
+    }
+
+    const sharedWith = loadedItems.get(key);
+    if (sharedWith) {
+      components.push(step.componentName);
+      step.dependencies.forEach((dependency) => npmDependencies.add(dependency));
+      console.log(`📦 ${step.componentName} shares registry item "${key}" with ${sharedWith}`);
+      continue;
+    }
+
+    const item = await readCachedRegistryItem(key);
+    if (!item) {
+      skipped.push({
+        componentName: step.componentName,
+        reason: `Registry item "${key}" is not in the registry cache (run \`npm run registry:cache\` on the server)`,
+      });
+      continue;
+    }
+
+    loadedItems.set(key, step.componentName);
+    components.push(step.componentName);
+    [...step.dependencies, ...(item.dependencies ?? [])].forEach((dependency) => npmDependencies.add(dependency));
+    for (const dependency of item.registryDependencies ?? []) {
+      if (!plannedItems.has(dependency) && !plannedItems.has(getRegistryItemKey(dependency)) && !installedComponents.has(dependency)) {
+        undeclaredDependencies.set(dependency, [...(undeclaredDependencies.get(dependency) ?? []), step.componentName]);
+      }
+    }
+
+    for (const file of item.files) {
+      const filePath = resolveRegistryFilePath(file, aliases, projectConfig, projectInspection);
+      if (!filePath) {
+        warnings.push(`${step.componentName}: skipped ${file.path} (${file.type} file without a target inside the project)`);
+        continue;
+      }
+      files.set(filePath, { componentName: step.componentName, path: filePath, content: rewriteImportAliases(file.content, aliases) });
+    }
+  }
+
+  for (const [dependency, requiredBy] of undeclaredDependencies) {
+    skipped.push({
+      componentName: dependency,
+      reason: getComponentByName(dependency)
+        ? `Required by the registry item of ${requiredBy.join(", ")} but not by the catalog; add it to componentNames`
+        : `Required by the registry item of ${requiredBy.join(", ")}, but not in the catalog; add it with \`${formatShadcnAddCommand([dependency], packageManager)}\``,
+    });
+  }
+
+  console.log(`✅ Install prepared: ${files.size} files for ${components.length} components, ${skipped.length} skipped`);
+
+  return {
+    packageManager,
+    components,
+    files: Array.from(files.values()),
+    npmDependencies: Array.from(npmDependencies),
+    alreadyInstalled: plan.alreadyInstalled,
+    skipped,
+    unresolved: plan.unresolved,
+    warnings,
+  };
+}
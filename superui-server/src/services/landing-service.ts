@@ -9,6 +9,8 @@ import {
   LandingAnswers,
   getNextQuestion 
 } from '../utils/landing-conversation.js';
+import { getShadcnPackage, resolveInstallPlan } from '../utils/install-plan.js';
+import { DEFAULT_PACKAGE_MANAGER, formatRunCommand, PackageManager } from '../utils/package-manager.js';
 
 export interface LandingRequest {
   message: string;
@@ -16,6 +18,7 @@ export interface LandingRequest {
   absolutePathToCurrentFile: string;
   absolutePathToProjectDirectory: string;
   standaloneRequestQuery: string;
+  packageManager?: PackageManager;
 }
 
 /**
@@ -24,7 +27,7 @@ export interface LandingRequest {
  * @returns Conversation response or generated landing page
  */
 export async function getLanding(request: LandingRequest): Promise<string> {
-  const { message, conversationState, absolutePathToCurrentFile, absolutePathToProjectDirectory } = request;
+  const { message, conversationState, absolutePathToCurrentFile, absolutePathToProjectDirectory, packageManager = DEFAULT_PACKAGE_MANAGER } = request;
   
   console.log(`🎨 Processing landing page request: ${message}`);
   
@@ -35,11 +38,11 @@ export async function getLanding(request: LandingRequest): Promise<string> {
   
   // If conversation is in progress, process the current step
   if (conversationState.currentStep <= 4) {
-    return processLandingConversation(conversationState, message);
+    return processLandingConversation(conversationState, message, packageManager);
   }
   
   // If conversation is complete, generate landing page
-  return generateLandingFromConversation(conversationState, absolutePathToProjectDirectory);
+  return generateLandingFromConversation(conversationState, absolutePathToProjectDirectory, packageManager);
 }
 
 /**
@@ -73,10 +76,11 @@ Please respond with the number or name of your choice, and I'll ask the next que
  * Process the current conversation step
  * @param conversationState - Current conversation state
  * @param userAnswer - User's answer
+ * @param packageManager - Package manager used by the project
  * @returns Next question or landing page result
  */
-function processLandingConversation(conversationState: ConversationState, userAnswer: string): string {
-  const result = processConversationStep(conversationState, userAnswer);
+function processLandingConversation(conversationState: ConversationState, userAnswer: string, packageManager: PackageManager): string {
+  const result = processConversationStep(conversationState, userAnswer, packageManager);
   
   if (result.type === 'question') {
     const nextState = result.data as ConversationState;
@@ -136,11 +140,13 @@ ${Object.entries(answers).map(([key, value]) => `- ${key}: ${value}`).join('\n')
  * Generate landing page from completed conversation
  * @param conversationState - Completed conversation state
  * @param projectPath - Project root path
+ * @param packageManager - Package manager used by the project
  * @returns Generated landing page
  */
 function generateLandingFromConversation(
   conversationState: ConversationState, 
-  projectPath: string
+  projectPath: string,
+  packageManager: PackageManager
 ): string {
   const { answers } = conversationState;
   
@@ -152,6 +158,8 @@ function generateLandingFromConversation(
     style: answers.style || ''
   };
   const sections = generateSectionsFromAnswers(landingAnswers);
+  // Sections can reuse the same block, so install each one only once
+  const installPlan = resolveInstallPlan(sections.map(section => `@tailark/${section.tailarkComponent}`), packageManager);
   
   return `
 # 🎨 Your Custom Landing Page Template
@@ -172,7 +180,7 @@ ${sections.map((section, index) => `
 - **Tailark Component**: \`@tailark/${section.tailarkComponent}\`
 - **Description**: ${section.description}
 - **Priority**: ${section.priority}/10
-- **Installation**: \`pnpm dlx shadcn add @tailark/${section.tailarkComponent}\`
+- **Installation**: \`${formatRunCommand(`${getShadcnPackage()} add @tailark/${section.tailarkComponent}`, packageManager)}\`
 `).join('')}
 
 ## 🚀 Quick Setup
@@ -181,7 +189,7 @@ ${sections.map((section, index) => `
 cd ${projectPath}
 
 # Install all recommended components
-${sections.map(section => `pnpm dlx shadcn add @tailark/${section.tailarkComponent}`).join('\n')}
+${installPlan.commands.join('\n')}
 \`\`\`
 
 ## 📁 Suggested File Structure
@@ -0,0 +1,294 @@
+/**
+ * Component preview service for SuperUI API Server
+ * Renders catalog usage examples in the local preview sandbox with Playwright and caches PNG thumbnails
+ */
+
+import { createHash } from "node:crypto";
+import { access, mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Route } from "playwright";
+import { ComponentInfo } from "../utils/component-catalog.js";
+import { getBrowser } from "./screenshot-service.js";
+
+export const PREVIEW_THEMES = ["light", "dark"] as const;
+
+export type PreviewTheme = (typeof PREVIEW_THEMES)[number];
+
+const serverRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+/**
+ * Default sandbox directory (superui-server/preview-sandbox): the bundle with Tailwind and the components built by `npm run preview:build`
+ */
+export const DEFAULT_SANDBOX_DIR = path.join(serverRoot, "preview-sandbox");
+
+/**
+ * Default thumbnail cache directory (superui-server/data/previews)
+ */
+export const DEFAULT_PREVIEW_CACHE_DIR = path.join(serverRoot, "data/previews");
+
+/** Components previewed per list request; rendering is too slow to preview a whole page of results */
+export const PREVIEW_LIST_LIMIT = 6;
+
+/** Origin the sandbox is served from inside the browser; every other request is blocked */
+const SANDBOX_ORIGIN = "http://preview-sandbox.local";
+
+const PREVIEW_VIEWPORT = { width: 800, height: 600 };
+
+/** Time given to entry animations before the screenshot */
+const PREVIEW_SETTLE_MS = 300;
+
+const PREVIEW_TIMEOUT_MS = 15000;
+
+export interface ComponentPreview {
+  componentName: string;
+  theme: PreviewTheme;
+  data: string; // base64 encoded PNG
+  mimeType: "image/png";
+  metadata: {
+    width: number;
+    height: number;
+    /** True when the thumbnail came from the cache */
+    cached: boolean;
+  };
+}
+
+export interface PreviewFailure {
+  componentName: string;
+  theme: PreviewTheme;
+  error: string;
+}
+
+export interface PreviewBatch {
+  images: ComponentPreview[];
+  failures: PreviewFailure[];
+  /** Why no previews could be rendered (e.g. the sandbox bundle is missing) */
+  warning?: string;
+}
+
+/**
+ * Entry point the sandbox page exposes on window
+ */
+interface PreviewSandboxWindow {
+  renderPreview?: (input: { componentName: string; code: string; theme: PreviewTheme }) => Promise<void>;
+}
+
+/** Renders share one browser on a single core, so they run one at a time */
+let renderQueue: Promise<unknown> = Promise.resolve();
+const pendingRenders = new Map<string, Promise<ComponentPreview>>();
+
+/**
+ * Parse the preview themes sent with a request
+ * @param value - true for every theme, a theme, or an array of themes
+ * @returns Requested themes, or undefined when missing, false or invalid
+ */
+export function parsePreviewThemes(value: unknown): PreviewTheme[] | undefined {
+  if (value === true) {
+    return [...PREVIEW_THEMES];
+  }
+  const values = Array.isArray(value) ? value : [value];
+  const themes = PREVIEW_THEMES.filter((theme) => values.includes(theme));
+  return themes.length > 0 && themes.length === new Set(values).size ? themes : undefined;
+}
+
+/**
+ * Get the sandbox directory
+ * @returns PREVIEW_SANDBOX_DIR or the default sandbox directory
+ */
+export function getSandboxDir(): string {
+  return path.resolve(process.env.PREVIEW_SANDBOX_DIR || DEFAULT_SANDBOX_DIR);
+}
+
+/**
+ * Get the thumbnail cache directory
+ * @returns PREVIEW_CACHE_DIR or the default cache directory
+ */
+function getCacheDir(): string {
+  return path.resolve(process.env.PREVIEW_CACHE_DIR || DEFAULT_PREVIEW_CACHE_DIR);
+}
+
+/**
+ * Check whether previews can be rendered
+ * @returns Null when the sandbox bundle exists, otherwise the reason previews are unavailable
+ */
+export async function getPreviewUnavailableReason(): Promise<string | null> {
+  const indexPath = path.join(getSandboxDir(), "index.html");
+  try {
+    await access(indexPath);
+    return null;
+  } catch {
+    return `Preview sandbox not found: ${indexPath} is missing (build it with \`npm run preview:build\` or set PREVIEW_SANDBOX_DIR to a built sandbox bundle)`;
+  }
+}
+
+/**
+ * Compute the cache key of a thumbnail
+ * The sandbox index.html is part of the key: bundlers fingerprint asset names, so a rebuilt bundle changes it
+ * @param component - Catalog component
+ * @param theme - Color theme
+ * @returns 16 hex characters
+ */
+async function getCacheKey(component: ComponentInfo, theme: PreviewTheme): Promise<string> {
+  const sandboxIndex = await readFile(path.join(getSandboxDir(), "index.html"), "utf-8");
+  return createHash("sha256")
+    .update(JSON.stringify([component.componentName, theme, component.usage, PREVIEW_VIEWPORT, sandboxIndex]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Read the width and height of a PNG from its header
+ * @param png - PNG data
+ * @returns Image dimensions
+ */
+function getPngSize(png: Buffer): { width: number; height: number } {
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+/**
+ * Serve a sandbox file to the browser
+ * @param route - Intercepted sandbox request
+ */
+async function serveSandboxFile(route: Route): Promise<void> {
+  const sandboxDir = getSandboxDir();
+  const { pathname } = new URL(route.request().url());
+  const filePath = path.resolve(sandboxDir, `.${decodeURIComponent(pathname)}`);
+
+  if (!filePath.startsWith(`${sandboxDir}${path.sep}`)) {
+    await route.fulfill({ status: 404 });
+    return;
+  }
+  try {
+    await route.fulfill({ path: filePath });
+  } catch {
+    await route.fulfill({ status: 404 });
+  }
+}
+
+/**
+ * Render a component's usage example in the sandbox
+ * @param component - Catalog component
+ * @param theme - Color theme
+ * @returns PNG thumbnail of the preview root
+ */
+async function renderPreview(component: ComponentInfo, theme: PreviewTheme): Promise<Buffer> {
+  const browser = await getBrowser();
+  const page = await browser.newPage({ viewport: PREVIEW_VIEWPORT, colorScheme: theme });
+
+  try {
+    // Routes run in reverse registration order: sandbox files are served, everything else is blocked
+    await page.route("**/*", (route) => route.abort());
+    await page.route(`${SANDBOX_ORIGIN}/**`, serveSandboxFile);
+
+    await page.goto(`${SANDBOX_ORIGIN}/index.html`, { waitUntil: "load", timeout: PREVIEW_TIMEOUT_MS });
+    await page.waitForFunction(() => typeof (window as PreviewSandboxWindow).renderPreview === "function", undefined, { timeout: PREVIEW_TIMEOUT_MS });
+    await page.evaluate((input) => (window as PreviewSandboxWindow).renderPreview?.(input), {
+      componentName: component.componentName,
+      code: component.usage,
+      theme,
+    });
+    await page.waitForTimeout(PREVIEW_SETTLE_MS);
+
+    return await page.locator("#preview-root").screenshot({ type: "png", animations: "disabled", timeout: PREVIEW_TIMEOUT_MS });
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Save a thumbnail atomically and drop older thumbnails of the same component and theme
+ * @param component - Catalog component
+ * @param theme - Color theme
+ * @param filePath - Thumbnail path
+ * @param png - PNG data
+ */
+async function saveThumbnail(component: ComponentInfo, theme: PreviewTheme, filePath: string, png: Buffer): Promise<void> {
+  const cacheDir = path.dirname(filePath);
+  await mkdir(cacheDir, { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, png);
+  await rename(tempPath, filePath);
+
+  const stalePattern = new RegExp(`^${component.componentName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-${theme}-[0-9a-f]{16}\\.png$`);
+  const staleFiles = (await readdir(cacheDir)).filter((file) => stalePattern.test(file) && file !== path.basename(filePath));
+  await Promise.all(staleFiles.map((file) => unlink(path.join(cacheDir, file)).catch(() => undefined)));
+}
+
+/**
+ * Get the preview thumbnail of a component, rendering it on a cache miss
+ * @param component - Catalog component
+ * @param theme - Color theme
+ * @returns Base64 PNG thumbnail
+ * @throws Error if the sandbox is missing or rendering fails
+ */
+export async function getComponentPreview(component: ComponentInfo, theme: PreviewTheme): Promise<ComponentPreview> {
+  const unavailableReason = await getPreviewUnavailableReason();
+  if (unavailableReason) {
+    throw new Error(unavailableReason);
+  }
+
+  const filePath = path.join(getCacheDir(), `${component.componentName}-${theme}-${await getCacheKey(component, theme)}.png`);
+  const toPreview = (png: Buffer, cached: boolean): ComponentPreview => ({
+    componentName: component.componentName,
+    theme,
+    data: png.toString("base64"),
+    mimeType: "image/png",
+    metadata: { ...getPngSize(png), cached },
+  });
+
+  try {
+    return toPreview(await readFile(filePath), true);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  // Concurrent requests for the same thumbnail share one render
+  const pending = pendingRenders.get(filePath);
+  if (pending) {
+    return pending;
+  }
+
+  const render = renderQueue
+    .catch(() => undefined)
+    .then(async () => {
+      console.log(`🖼️ Rendering ${theme} preview: ${component.componentName}`);
+      const png = await renderPreview(component, theme);
+      await saveThumbnail(component, theme, filePath, png);
+      return toPreview(png, false);
+    })
+    .finally(() => pendingRenders.delete(filePath));
+  renderQueue = render;
+  pendingRenders.set(filePath, render);
+  return render;
+}
+
+/**
+ * Get preview thumbnails of several components
+ * Failures are reported per thumbnail instead of failing the batch
+ * @param components - Catalog components
+ * @param themes - Color themes to render each component in
+ * @returns Thumbnails, failures, and a warning when the sandbox is missing
+ */
+export async function getComponentPreviews(components: ComponentInfo[], themes: PreviewTheme[]): Promise<PreviewBatch> {
+  const unavailableReason = await getPreviewUnavailableReason();
+  if (unavailableReason) {
+    console.warn(`⚠️ ${unavailableReason}`);
+    return { images: [], failures: [], warning: unavailableReason };
+  }
+
+  const images: ComponentPreview[] = [];
+  const failures: PreviewFailure[] = [];
+  for (const component of components) {
+    for (const theme of themes) {
+      try {
+        images.push(await getComponentPreview(component, theme));
+      } catch (error) {
+        console.error(`❌ Preview failed for ${component.componentName} (${theme}):`, error instanceof Error ? error.message : error);
+        failures.push({ componentName: component.componentName, theme, error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  }
+  return { images, failures };
+}
@@ -0,0 +1,135 @@
+/**
+ * Project service for SuperUI API Server
+ * Turns a project inspection into a report of the setup and the catalog components already installed,
+ * and diffs the project files the MCP tools are about to change
+ */
+
+import { getComponentByName } from "../utils/component-finder.js";
+import { getShadcnPackage } from "../utils/install-plan.js";
+import { DEFAULT_PACKAGE_MANAGER, formatRunCommand, PackageManager } from "../utils/package-manager.js";
+import { getInstalledComponentNames, ProjectInspection } from "../utils/project-inspection.js";
+import { createUnifiedDiff } from "../utils/unified-diff.js";
+
+export interface ProjectReportRequest {
+  projectInspection: ProjectInspection;
+  absolutePathToProjectDirectory: string;
+  packageManager?: PackageManager;
+}
+
+export interface ProjectReport {
+  result: string;
+  installedComponents: string[];
+}
+
+export interface ProjectFileContents {
+  /** Path relative to the project root, shown in the diff header */
+  path: string;
+  /** Contents in the project, or null when the file does not exist */
+  oldContent: string | null;
+  /** Contents after the change, or null when the file is removed */
+  newContent: string | null;
+}
+
+const FRAMEWORK_NAMES: Record<ProjectInspection["framework"]["name"], string> = {
+  next: "Next.js",
+  vite: "Vite",
+  remix: "Remix / React Router",
+  astro: "Astro",
+  unknown: "Unknown",
+};
+
+/**
+ * Describe the detected framework
+ * @param framework - Framework information from the inspection
+ * @returns Human-readable framework line
+ */
+function describeFramework(framework: ProjectInspection["framework"]): string {
+  const router = framework.router ? ` (${framework.router === "app" ? "App Router" : "Pages Router"})` : "";
+  const version = framework.version ? ` ${framework.version}` : "";
+  return `${FRAMEWORK_NAMES[framework.name]}${version}${router}`;
+}
+
+/**
+ * Describe the Tailwind CSS setup
+ * @param tailwind - Tailwind information from the inspection
+ * @returns Human-readable Tailwind line
+ */
+function describeTailwind(tailwind: ProjectInspection["tailwind"]): string {
+  if (!tailwind.major && !tailwind.version) {
+    return "Not detected";
+  }
+
+  const setup =
+    tailwind.major === 4
+      ? `v4 (CSS-first${tailwind.css ? `, configured in \`${tailwind.css}\`` : ""})`
+      : `v3${tailwind.config ? ` (\`${tailwind.config}\`)` : ""}`;
+  return tailwind.version ? `${setup}, ${tailwind.version}` : setup;
+}
+
+/**
+ * Build the project report for the inspect_project tool
+ * @param request - Inspection sent by the MCP server
+ * @returns Markdown report and installed catalog components
+ */
+export function getProjectReport(request: ProjectReportRequest): ProjectReport {
+  const { projectInspection, absolutePathToProjectDirectory, packageManager = DEFAULT_PACKAGE_MANAGER } = request;
+
+  console.log(`🔎 Building project report for: ${absolutePathToProjectDirectory || "(unknown path)"}`);
+
+  const installedComponents = Array.from(getInstalledComponentNames(projectInspection)).sort();
+  const { framework, reactVersion, tailwind, shadcn, componentsDirectory, componentFiles } = projectInspection;
+
+  const shadcnLine = shadcn.configured
+    ? `Configured (style: ${shadcn.style ?? "default"}, base color: ${shadcn.baseColor ?? "n/a"}, RSC: ${shadcn.rsc ? "yes" : "no"}, TSX: ${shadcn.tsx === false ? "no" : "yes"})`
+    : `Not initialized — run \`${formatRunCommand(`${getShadcnPackage()} init`, packageManager)}\` first`;
+
+  const installedList =
+    installedComponents.length > 0
+      ? installedComponents
+          .map((name) => {
+            const component = getComponentByName(name);
+            return `- \`${name}\`${component ? ` (${component.displayName})` : ""}`;
+          })
+          .join("\n")
+      : "- None of the catalog components were found on disk";
+
+  const otherFiles = Math.max(0, componentFiles.length - installedComponents.length);
+  const tailwindNote =
+    tailwind.major === 4
+      ? "- Tailwind v4 projects keep theme tokens in CSS; components added with shadcn@latest are v4-ready\n"
+      : tailwind.major === 3
+        ? "- Tailwind v3 projects need the component's theme extensions in tailwind.config\n"
+        : "";
+
+  const result = `
+# 🔎 Project Inspection
+
+## 🧱 Setup
+
+- **Framework**: ${describeFramework(framework)}
+- **React**: ${reactVersion ?? "Not detected"}
+- **Tailwind CSS**: ${describeTailwind(tailwind)}
+- **shadcn/ui**: ${shadcnLine}
+- **Components directory**: ${componentsDirectory ? `\`${componentsDirectory}\`` : "Not found"}
+
+## ✅ Installed Catalog Components (${installedComponents.length})
+
+${installedList}
+${otherFiles > 0 ? `\n${otherFiles} other component file(s) in the components directory are not in the catalog.\n` : ""}
+## 💡 Notes
+
+- \`list_components\` marks these components as installed and install plans skip them, as long as the project directory is passed along
+${tailwindNote}${framework.name === "next" && framework.router === "app" ? '- App Router: interactive components need the `"use client"` directive in the files that use them\n' : ""}`;
+
+  console.log(`✅ Project report built: ${installedComponents.length} catalog components installed`);
+  return { result, installedComponents };
+}
+
+/**
+ * Diff project files against the contents a tool is about to write
+ * @param files - Current and new contents of each file
+ * @returns Unified diff per file, in request order; empty for unchanged files
+ */
+export function diffProjectFiles(files: ProjectFileContents[]): string[] {
+  return files.map((file) => createUnifiedDiff(file.path, file.oldContent, file.newContent));
+}
@@ -0,0 +1,127 @@
+/**
+ * Registry mirror service for SuperUI API Server
+ * Imports registry items from a tarball or folder into the local mirror served at /r/:name.json
+ */
+
+import { execFile } from "node:child_process";
+import { mkdtemp, readdir, readFile, rm, stat } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { cachedRegistryItemSchema, getRegistryItemKey, REGISTRY_VERSIONS_DIR, RegistryItemOrigin, writeCachedRegistryItem } from "../utils/registry-cache.js";
+import { refreshMirrorIndex, RegistryMirrorStatus } from "../utils/registry-mirror.js";
+
+const execFileAsync = promisify(execFile);
+
+const TARBALL_PATTERN = /\.(tgz|tar\.gz|tar)$/;
+
+/** Directories never searched for registry items */
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git", REGISTRY_VERSIONS_DIR]);
+
+export interface MirrorSyncResult {
+  source: string;
+  /** Revision label recorded for the imported versions */
+  revision?: string;
+  /** Imported item keys */
+  imported: string[];
+  /** JSON files that are not importable registry items, with the reason */
+  skipped: Array<{ file: string; reason: string }>;
+  mirror: RegistryMirrorStatus;
+}
+
+/**
+ * List JSON files below a directory
+ * @param directory - Directory to search
+ * @returns Absolute file paths, sorted so imports are deterministic
+ */
+async function findJsonFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+      files.push(...(await findJsonFiles(entryPath)));
+    } else if (entry.isFile() && entry.name.endsWith(".json")) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Import the registry items of a folder into the mirror
+ * Every JSON file holding a registry item with file contents is imported (e.g. the `public/r` output of `shadcn build`);
+ * items inside an `@namespace` directory keep their namespace
+ * @param directory - Folder to import
+ * @param origin - Revision and source recorded with every imported version
+ * @returns Imported keys and skipped files, relative to the folder
+ */
+async function importFolder(directory: string, origin: RegistryItemOrigin): Promise<Pick<MirrorSyncResult, "imported" | "skipped">> {
+  const imported = new Map<string, string>();
+  const skipped: MirrorSyncResult["skipped"] = [];
+
+  for (const filePath of await findJsonFiles(directory)) {
+    const file = path.relative(directory, filePath);
+    let parsed;
+    try {
+      parsed = cachedRegistryItemSchema.safeParse(JSON.parse(await readFile(filePath, "utf-8")));
+    } catch (error) {
+      skipped.push({ file, reason: error instanceof Error ? error.message : "Unreadable file" });
+      continue;
+    }
+    if (!parsed.success) {
+      skipped.push({ file, reason: "Not a registry item with file contents" });
+      continue;
+    }
+
+    const namespace = path.basename(path.dirname(filePath));
+    const key = getRegistryItemKey(namespace.startsWith("@") ? `${namespace}/${parsed.data.name}` : parsed.data.name);
+    if (!key) {
+      skipped.push({ file, reason: `Invalid item name "${parsed.data.name}"` });
+      continue;
+    }
+
+    const duplicateOf = imported.get(key);
+    if (duplicateOf) {
+      skipped.push({ file, reason: `Duplicate of ${duplicateOf}` });
+      continue;
+    }
+
+    await writeCachedRegistryItem(key, parsed.data, origin);
+    imported.set(key, file);
+  }
+
+  return { imported: Array.from(imported.keys()), skipped };
+}
+
+/**
+ * Import registry items into the mirror and refresh the mirror index
+ * @param source - Path to a tarball (.tgz, .tar.gz, .tar) or a folder
+ * @param revision - Revision of the registry the source was built from (e.g. a release tag or commit)
+ * @returns Imported items, skipped files and the updated mirror status
+ * @throws Error if the source does not exist or the tarball cannot be extracted
+ */
+export async function syncRegistryMirror(source: string, revision?: string): Promise<MirrorSyncResult> {
+  const sourcePath = path.resolve(source);
+  const sourceStats = await stat(sourcePath);
+  const origin: RegistryItemOrigin = { revision, source: sourcePath };
+
+  if (sourceStats.isDirectory()) {
+    const result = await importFolder(sourcePath, origin);
+    return { source: sourcePath, revision, ...result, mirror: await refreshMirrorIndex() };
+  }
+
+  if (!TARBALL_PATTERN.test(sourcePath)) {
+    throw new Error(`Unsupported mirror source ${sourcePath}: expected a folder or a .tgz, .tar.gz or .tar file`);
+  }
+
+  const extractDir = await mkdtemp(path.join(os.tmpdir(), "superui-mirror-"));
+  try {
+    // tar detects gzip compression itself
+    await execFileAsync("tar", ["-xf", sourcePath, "-C", extractDir]);
+    const result = await importFolder(extractDir, origin);
+    return { source: sourcePath, revision, ...result, mirror: await refreshMirrorIndex() };
+  } finally {
+    await rm(extractDir, { recursive: true, force: true });
+  }
+}
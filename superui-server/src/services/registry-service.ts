@@ -0,0 +1,136 @@
+/**
+ * Registry service for SuperUI API Server
+ * Loads configured shadcn-style registries into the component catalog and refreshes them on demand
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { setExternalComponents } from "../utils/component-catalog.js";
+import { loadRegistryComponents, registryConfigSchema, type RegistrySourceConfig } from "../utils/registry-source.js";
+
+/**
+ * Default registry configuration file (superui-server/registries.json)
+ */
+const DEFAULT_REGISTRY_CONFIG = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../registries.json");
+
+export interface RegistryStatus {
+  name: string;
+  source: string;
+  componentCount: number;
+  refreshedAt?: string;
+  error?: string;
+}
+
+const registryStatus = new Map<string, RegistryStatus>();
+
+/**
+ * Read the registry configuration file
+ * A missing file means no registries are configured
+ * @param configPath - Path to registries.json
+ * @returns Registry sources with paths resolved relative to the config file
+ */
+async function readRegistryConfig(configPath: string): Promise<RegistrySourceConfig[]> {
+  let content: string;
+  try {
+    content = await readFile(configPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const parsed = registryConfigSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Invalid registry config ${configPath}: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+
+  return parsed.data.registries.map((registry) => ({
+    ...registry,
+    source: path.resolve(path.dirname(configPath), registry.source),
+  }));
+}
+
+/**
+ * Load one registry into the catalog and record its status
+ * @param registry - Registry source configuration
+ * @returns Updated registry status
+ */
+async function refreshRegistry(registry: RegistrySourceConfig): Promise<RegistryStatus> {
+  const previous = registryStatus.get(registry.name);
+
+  try {
+    const components = await loadRegistryComponents(registry);
+    setExternalComponents(`registry:${registry.name}`, components);
+
+    const status: RegistryStatus = {
+      name: registry.name,
+      source: registry.source,
+      componentCount: components.length,
+      refreshedAt: new Date().toISOString(),
+    };
+    registryStatus.set(registry.name, status);
+    console.log(`📦 Loaded ${components.length} components from registry "${registry.name}"`);
+    return status;
+  } catch (error) {
+    // Keep the components from the last successful refresh
+    const status: RegistryStatus = {
+      name: registry.name,
+      source: registry.source,
+      componentCount: previous?.componentCount ?? 0,
+      refreshedAt: previous?.refreshedAt,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+    registryStatus.set(registry.name, status);
+    console.error(`❌ Failed to load registry "${registry.name}":`, status.error);
+    return status;
+  }
+}
+
+/**
+ * Refresh registries from the configuration file
+ * Registries that were removed from the configuration are dropped from the catalog
+ * @param names - Optional registry names to refresh (defaults to all)
+ * @param configPath - Path to registries.json (defaults to REGISTRY_CONFIG or the bundled location)
+ * @returns Status of every refreshed registry
+ */
+export async function refreshRegistries(names?: string[], configPath = process.env.REGISTRY_CONFIG || DEFAULT_REGISTRY_CONFIG): Promise<RegistryStatus[]> {
+  const registries = await readRegistryConfig(configPath);
+  const configuredNames = new Set(registries.map((registry) => registry.name));
+
+  for (const name of Array.from(registryStatus.keys())) {
+    if (!configuredNames.has(name)) {
+      setExternalComponents(`registry:${name}`, []);
+      registryStatus.delete(name);
+    }
+  }
+
+  const selected = names && names.length > 0 ? registries.filter((registry) => names.includes(registry.name)) : registries;
+  const results: RegistryStatus[] = [];
+  for (const registry of selected) {
+    results.push(await refreshRegistry(registry));
+  }
+  return results;
+}
+
+/**
+ * Load all configured registries at startup
+ * @throws Error if any registry fails to load
+ */
+export async function initializeRegistries(): Promise<void> {
+  const results = await refreshRegistries();
+  const failed = results.filter((result) => result.error);
+
+  if (failed.length > 0) {
+    throw new Error(failed.map((result) => `Registry "${result.name}": ${result.error}`).join("\n"));
+  }
+}
+
+/**
+ * Get the status of every loaded registry
+ * @returns Registry statuses
+ */
+export function getRegistryStatus(): RegistryStatus[] {
+  return Array.from(registryStatus.values());
+}
@@ -10,7 +10,7 @@ let browser: Browser | null = null;
 /**
  * Initialize browser instance (singleton pattern for performance)
  */
-async function getBrowser(): Promise<Browser> {
+export async function getBrowser(): Promise<Browser> {
   if (!browser || !browser.isConnected()) {
     console.log("🌐 Launching browser...");
     browser = await chromium.launch({
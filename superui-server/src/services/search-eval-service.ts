@@ -0,0 +1,104 @@
+/**
+ * Search evaluation service for SuperUI API Server
+ * Loads the labeled query set, runs it and compares the results with the saved baseline
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import {
+  diffSearchEval,
+  runSearchEval,
+  SearchEvalDiff,
+  SearchEvalReport,
+  searchEvalReportSchema,
+  searchEvalSetSchema,
+  SearchEvalSet,
+} from "../utils/search-eval.js";
+import { SearchMode } from "../utils/semantic-index.js";
+
+const serverRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+/**
+ * Labeled queries (superui-server/search-eval.json)
+ */
+export const DEFAULT_EVAL_SET_PATH = path.join(serverRoot, "search-eval.json");
+
+/**
+ * Saved baseline report (superui-server/search-eval.baseline.json)
+ */
+export const DEFAULT_BASELINE_PATH = path.join(serverRoot, "search-eval.baseline.json");
+
+export interface SearchEvalResult {
+  report: SearchEvalReport;
+  /** Comparison with the saved baseline, null when none has been saved */
+  diff: SearchEvalDiff | null;
+}
+
+/**
+ * Read and validate a JSON file
+ * @param filePath - File path
+ * @param schema - Expected shape
+ * @returns Parsed data
+ * @throws Error naming the file and every invalid field
+ */
+async function readJsonFile<T>(filePath: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+  const parsed = schema.safeParse(JSON.parse(await readFile(filePath, "utf-8")));
+  if (!parsed.success) {
+    throw new Error(`Invalid ${filePath}: ${parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load the labeled query set
+ * @param filePath - Query set path (defaults to SEARCH_EVAL_SET or search-eval.json)
+ * @returns Labeled queries
+ */
+export function loadSearchEvalSet(filePath = process.env.SEARCH_EVAL_SET || DEFAULT_EVAL_SET_PATH): Promise<SearchEvalSet> {
+  return readJsonFile(filePath, searchEvalSetSchema);
+}
+
+/**
+ * Load the saved baseline report
+ * @param filePath - Baseline path (defaults to SEARCH_EVAL_BASELINE or search-eval.baseline.json)
+ * @returns Baseline report, or null when none has been saved
+ */
+export async function loadSearchEvalBaseline(filePath = process.env.SEARCH_EVAL_BASELINE || DEFAULT_BASELINE_PATH): Promise<SearchEvalReport | null> {
+  try {
+    return await readJsonFile(filePath, searchEvalReportSchema);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Save a report as the new baseline, atomically
+ * @param report - Evaluation report
+ * @param filePath - Baseline path (defaults to SEARCH_EVAL_BASELINE or search-eval.baseline.json)
+ */
+export async function saveSearchEvalBaseline(report: SearchEvalReport, filePath = process.env.SEARCH_EVAL_BASELINE || DEFAULT_BASELINE_PATH): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, `${JSON.stringify(report, null, 2)}\n`, "utf-8");
+  await rename(tempPath, filePath);
+  console.log(`💾 Saved search evaluation baseline to ${filePath}`);
+}
+
+/**
+ * Evaluate search quality against the labeled queries and the saved baseline
+ * @param mode - Ranking mode to evaluate
+ * @returns Report and baseline diff
+ */
+export async function evaluateSearch(mode: SearchMode = "lexical"): Promise<SearchEvalResult> {
+  const [evalSet, baseline] = await Promise.all([loadSearchEvalSet(), loadSearchEvalBaseline()]);
+  const report = await runSearchEval(evalSet, mode);
+  const { mrr, recallAt5, ndcg } = report.summary;
+
+  console.log(`📏 Search evaluation (${report.mode}, ${report.summary.queries} queries): MRR ${mrr}, recall@5 ${recallAt5}, nDCG ${ndcg}`);
+  return { report, diff: baseline ? diffSearchEval(report, baseline) : null };
+}
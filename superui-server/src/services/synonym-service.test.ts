@@ -0,0 +1,65 @@
+/**
+ * Behaviour checks for saving synonym edits
+ */
+
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import { deleteSynonym, initializeSynonyms, listSynonyms, upsertSynonym } from "./synonym-service.js";
+
+/**
+ * Read a saved dictionary
+ * @param filePath - Dictionary path
+ * @returns Saved phrases and their expansions
+ */
+const readSaved = (filePath: string): Record<string, string[]> =>
+  (JSON.parse(readFileSync(filePath, "utf-8")) as { synonyms: Record<string, string[]> }).synonyms;
+
+describe("synonym persistence", () => {
+  let directory: string;
+
+  before(() => {
+    mock.method(console, "log", () => undefined);
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "superui-synonyms-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("saves added, updated and removed phrases", async () => {
+    const configPath = path.join(directory, "synonyms.json");
+    writeFileSync(configPath, JSON.stringify({ synonyms: { btn: ["button"] } }));
+    await initializeSynonyms(configPath);
+
+    assert.deepEqual(await upsertSynonym("Modal Window", ["dialog"], "alice"), { phrase: "modal window", created: true });
+    assert.deepEqual(await upsertSynonym("btn", ["button", "glow-button"], "alice"), { phrase: "btn", created: false });
+    assert.equal(await deleteSynonym("modal window", "bob"), true);
+    assert.equal(await deleteSynonym("modal window", "bob"), false);
+
+    assert.deepEqual(readSaved(configPath), { btn: ["button", "glow-button"] });
+  });
+
+  it("keeps the active dictionary when a write fails and saves later edits", async () => {
+    const configDirectory = path.join(directory, "config");
+    const configPath = path.join(configDirectory, "synonyms.json");
+    await initializeSynonyms(configPath);
+
+    // A file where the dictionary's directory should be makes every write fail
+    writeFileSync(configDirectory, "");
+    await assert.rejects(upsertSynonym("btn", ["button"], "alice"));
+    assert.deepEqual(listSynonyms(), {});
+
+    rmSync(configDirectory);
+    mkdirSync(configDirectory);
+    await upsertSynonym("modal", ["dialog"], "alice");
+
+    assert.deepEqual(listSynonyms(), { modal: ["dialog"] });
+    assert.deepEqual(readSaved(configPath), { modal: ["dialog"] });
+  });
+});
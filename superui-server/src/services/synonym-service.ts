@@ -0,0 +1,114 @@
+/**
+ * Synonym service for SuperUI API Server
+ * Loads the search synonym dictionary from its config file and persists runtime edits back to it
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createTaskQueue, writeFileAtomically } from "../utils/file-store.js";
+import { getSynonyms, normalizePhrase, setSynonyms, synonymDictionarySchema, SynonymDictionary } from "../utils/synonyms.js";
+
+/**
+ * Default synonym dictionary (superui-server/synonyms.json)
+ */
+const DEFAULT_SYNONYMS_PATH = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../synonyms.json");
+
+let configPath = process.env.SYNONYMS_CONFIG || DEFAULT_SYNONYMS_PATH;
+const runExclusive = createTaskQueue();
+
+/**
+ * Activate an edited dictionary and save it
+ * Runs inside runExclusive; when the file cannot be written the previous dictionary is restored
+ * @param dictionary - Edited dictionary
+ * @param previous - Dictionary before the edit
+ */
+async function saveSynonyms(dictionary: SynonymDictionary, previous: SynonymDictionary): Promise<void> {
+  setSynonyms(dictionary);
+  try {
+    await writeFileAtomically(configPath, `${JSON.stringify({ synonyms: getSynonyms() }, null, 2)}\n`);
+  } catch (error) {
+    setSynonyms(previous);
+    throw error;
+  }
+}
+
+/**
+ * Load the synonym dictionary
+ * A missing file starts with an empty dictionary; an invalid one fails startup
+ * @param filePath - Dictionary path (defaults to SYNONYMS_CONFIG or synonyms.json)
+ * @returns Number of loaded phrases
+ */
+export async function initializeSynonyms(filePath = configPath): Promise<number> {
+  configPath = filePath;
+
+  let dictionary: SynonymDictionary = {};
+  try {
+    const parsed = synonymDictionarySchema.safeParse((JSON.parse(await readFile(configPath, "utf-8")) as { synonyms?: unknown }).synonyms);
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "));
+    }
+    dictionary = parsed.data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(`Failed to read synonyms ${configPath}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  setSynonyms(dictionary);
+  const count = Object.keys(getSynonyms()).length;
+  console.log(`🔤 Loaded ${count} search synonyms from ${configPath}`);
+  return count;
+}
+
+/**
+ * List the active synonyms
+ * @returns Phrases and their expansions
+ */
+export function listSynonyms(): SynonymDictionary {
+  return getSynonyms();
+}
+
+/**
+ * Add or replace the expansions of a phrase
+ * @param phrase - Word or phrase
+ * @param expansions - Component names or search terms the phrase stands for
+ * @param actor - Who made the change
+ * @returns Normalized phrase and whether it was new
+ */
+export function upsertSynonym(phrase: string, expansions: string[], actor: string): Promise<{ phrase: string; created: boolean }> {
+  const normalizedPhrase = normalizePhrase(phrase);
+
+  return runExclusive(async () => {
+    const dictionary = getSynonyms();
+    const created = !(normalizedPhrase in dictionary);
+    await saveSynonyms({ ...dictionary, [normalizedPhrase]: expansions }, dictionary);
+
+    console.log(`🔤 ${actor} ${created ? "added" : "updated"} synonym "${normalizedPhrase}" → ${expansions.join(", ")}`);
+    return { phrase: normalizedPhrase, created };
+  });
+}
+
+/**
+ * Remove a phrase from the dictionary
+ * @param phrase - Word or phrase
+ * @param actor - Who made the change
+ * @returns True if the phrase existed
+ */
+export function deleteSynonym(phrase: string, actor: string): Promise<boolean> {
+  const normalizedPhrase = normalizePhrase(phrase);
+
+  return runExclusive(async () => {
+    const dictionary = getSynonyms();
+    if (!(normalizedPhrase in dictionary)) {
+      return false;
+    }
+
+    const remaining = { ...dictionary };
+    delete remaining[normalizedPhrase];
+    await saveSynonyms(remaining, dictionary);
+
+    console.log(`🔤 ${actor} removed synonym "${normalizedPhrase}"`);
+    return true;
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Behaviour checks for saving team registry changes
+ */
+
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import { getComponentByName } from "../utils/component-finder.js";
+import { initializeCatalog } from "../utils/component-catalog.js";
+import { createTeamComponent, deleteTeamComponent, initializeTeamRegistry, listTeamComponents, TeamComponentInput } from "./team-registry-service.js";
+
+/**
+ * Build the fields of a team component
+ * @param componentName - Component name
+ * @returns Component fields
+ */
+const teamComponent = (componentName: string): TeamComponentInput => ({
+  componentName,
+  displayName: componentName,
+  description: `The ${componentName} component`,
+  importPath: `@/components/acme/${componentName}`,
+  usage: "<AcmeHero />",
+  category: "layout",
+  tags: [],
+  registryDependencies: [],
+  dependencies: [],
+  files: [],
+});
+
+describe("team registry persistence", () => {
+  let directory: string;
+
+  before(async () => {
+    mock.method(console, "log", () => undefined);
+    await initializeCatalog();
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "superui-team-registry-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("saves changes to the store file and publishes them to the catalog", async () => {
+    const storePath = path.join(directory, "team-registry.json");
+    await initializeTeamRegistry(storePath);
+
+    await createTeamComponent(teamComponent("acme-hero"), "alice");
+    await createTeamComponent(teamComponent("acme-footer"), "bob");
+    assert.equal(await deleteTeamComponent("acme-hero", "alice"), true);
+
+    const saved = JSON.parse(readFileSync(storePath, "utf-8")) as { components: Array<{ componentName: string }>; history: unknown[] };
+    assert.deepEqual(
+      saved.components.map((entry) => entry.componentName),
+      ["acme-footer"]
+    );
+    assert.equal(saved.history.length, 3);
+    assert.equal(getComponentByName("acme-footer")?.library, "team");
+    assert.equal(getComponentByName("acme-hero"), null);
+  });
+
+  it("leaves the store unchanged when a write fails and saves later changes", async () => {
+    const blocked = path.join(directory, "store");
+    await initializeTeamRegistry(path.join(blocked, "team-registry.json"));
+
+    // A file where the store's directory should be makes every write fail
+    writeFileSync(blocked, "");
+
+    await assert.rejects(createTeamComponent(teamComponent("acme-hero"), "alice"));
+    assert.deepEqual(listTeamComponents(), []);
+    assert.equal(getComponentByName("acme-hero"), null);
+
+    rmSync(blocked);
+    mkdirSync(blocked);
+    await createTeamComponent(teamComponent("acme-footer"), "bob");
+
+    assert.deepEqual(
+      listTeamComponents().map((entry) => entry.componentName),
+      ["acme-footer"]
+    );
+    const saved = JSON.parse(readFileSync(path.join(blocked, "team-registry.json"), "utf-8")) as { components: Array<{ componentName: string }> };
+    assert.deepEqual(
+      saved.components.map((entry) => entry.componentName),
+      ["acme-footer"]
+    );
+  });
+
+  it("refuses a store file that does not match the store format", async () => {
+    const storePath = path.join(directory, "team-registry.json");
+    writeFileSync(storePath, JSON.stringify({ version: 1, components: [{ componentName: "acme-hero" }], history: [] }));
+
+    await assert.rejects(initializeTeamRegistry(storePath), /Failed to read team registry .*components\.0\.displayName/);
+  });
+});
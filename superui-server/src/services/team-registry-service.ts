@@ -0,0 +1,354 @@
+/**
+ * Team registry service for SuperUI API Server
+ * Persists privately published components to a JSON store and merges them into the catalog
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import {
+  componentApiSchema,
+  componentExampleSchema,
+  ComponentInfo,
+  componentInfoSchema,
+  getCatalog,
+  setExternalComponents,
+} from "../utils/component-catalog.js";
+import { createTaskQueue, writeFileAtomically } from "../utils/file-store.js";
+import { formatShadcnAddCommand } from "../utils/package-manager.js";
+
+/**
+ * Default store location (superui-server/data/team-registry.json)
+ */
+const DEFAULT_STORE_PATH = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../data/team-registry.json");
+
+const SOURCE_ID = "team-registry";
+
+/**
+ * Library name shown for team components
+ */
+export const TEAM_LIBRARY = process.env.TEAM_REGISTRY_LIBRARY || "team";
+
+/**
+ * Fields a team member provides when publishing a component
+ */
+export const teamComponentInputSchema = z
+  .object({
+    componentName: componentInfoSchema.shape.componentName,
+    displayName: z.string().min(1),
+    description: z.string().min(1),
+    importPath: z.string().min(1),
+    exports: z
+      .array(z.string().regex(/^[A-Za-z_$][\w$]*$/, "exports must be valid identifiers"))
+      .min(1)
+      .optional(),
+    usage: z.string().min(1),
+    category: z.string().min(1),
+    tags: z.array(z.string().min(1)).default([]),
+    registryDependencies: z.array(z.string().min(1)).default([]),
+    dependencies: z.array(z.string().min(1)).default([]),
+    packageName: z.string().min(1).optional(),
+    documentationUrl: z.string().url().optional(),
+    api: componentApiSchema.optional(),
+    examples: z.array(componentExampleSchema).optional(),
+    files: z
+      .array(
+        z
+          .object({
+            path: z.string().min(1),
+            content: z.string(),
+            type: z.string().default("registry:ui"),
+          })
+          .strict()
+      )
+      .default([]),
+  })
+  .strict();
+
+export type TeamComponentInput = z.infer<typeof teamComponentInputSchema>;
+
+export interface TeamComponentEntry extends TeamComponentInput {
+  createdBy: string;
+  createdAt: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface TeamRegistryChange {
+  action: "create" | "update" | "delete";
+  componentName: string;
+  actor: string;
+  at: string;
+}
+
+interface TeamRegistryStore {
+  version: 1;
+  components: TeamComponentEntry[];
+  history: TeamRegistryChange[];
+}
+
+/**
+ * Store file as written by this service
+ */
+const teamRegistryStoreSchema = z.object({
+  version: z.literal(1),
+  components: z.array(
+    teamComponentInputSchema.extend({
+      createdBy: z.string(),
+      createdAt: z.string(),
+      updatedBy: z.string(),
+      updatedAt: z.string(),
+    })
+  ),
+  history: z.array(
+    z.object({
+      action: z.enum(["create", "update", "delete"]),
+      componentName: z.string(),
+      actor: z.string(),
+      at: z.string(),
+    })
+  ),
+});
+
+let store: TeamRegistryStore = { version: 1, components: [], history: [] };
+let storePath = process.env.TEAM_REGISTRY_PATH || DEFAULT_STORE_PATH;
+const runExclusive = createTaskQueue();
+
+/**
+ * Convert a kebab-case name to PascalCase
+ * @param name - Kebab-case name
+ * @returns PascalCase name
+ */
+function toPascalCase(name: string): string {
+  return name
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+/**
+ * Public base URL used in install commands for team components
+ */
+function getPublicUrl(): string {
+  return (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, "");
+}
+
+/**
+ * Convert a stored entry into a catalog entry
+ * @param entry - Stored team component
+ * @returns Catalog entry
+ */
+function toComponentInfo(entry: TeamComponentEntry): ComponentInfo {
+  const exportsList = entry.exports ?? [toPascalCase(entry.componentName)];
+  const itemUrl = `${getPublicUrl()}/api/registry/r/${entry.componentName}.json`;
+
+  return {
+    componentName: entry.componentName,
+    displayName: entry.displayName,
+    packageName: entry.packageName ?? TEAM_LIBRARY,
+    importStatement: `import { ${exportsList.join(", ")} } from "${entry.importPath}"`,
+    usage: entry.usage,
+    description: entry.description,
+    category: entry.category,
+    tags: entry.tags,
+    registryDependencies: entry.registryDependencies,
+    dependencies: entry.dependencies,
+    library: TEAM_LIBRARY,
+    installCommand: entry.files.length > 0 ? formatShadcnAddCommand([itemUrl]) : undefined,
+    documentationUrl: entry.documentationUrl,
+    api: entry.api,
+    examples: entry.examples,
+    registry: {
+      name: TEAM_LIBRARY,
+      item: entry.componentName,
+      url: itemUrl,
+      files: entry.files.map((file) => file.path),
+    },
+  };
+}
+
+/**
+ * Publish the stored components to the catalog
+ */
+function syncCatalog(): void {
+  setExternalComponents(SOURCE_ID, store.components.map(toComponentInfo));
+}
+
+/**
+ * Apply a change to a copy of the store, save it and publish it
+ * Changes run one at a time. The store and the catalog only change once the file was written,
+ * so a failed write leaves both as they were and later changes still go through
+ * @param change - Edits the copy and returns the result, or throws to abort
+ * @returns Result of the change
+ */
+function commitChange<T>(change: (draft: TeamRegistryStore) => T): Promise<T> {
+  return runExclusive(async () => {
+    const draft = structuredClone(store);
+    const result = change(draft);
+    await writeFileAtomically(storePath, JSON.stringify(draft, null, 2));
+    store = draft;
+    syncCatalog();
+    return result;
+  });
+}
+
+/**
+ * Load the team registry store and merge it into the catalog
+ * A missing store file starts an empty registry
+ * @param filePath - Store path (defaults to TEAM_REGISTRY_PATH or data/team-registry.json)
+ */
+export async function initializeTeamRegistry(filePath = storePath): Promise<void> {
+  storePath = filePath;
+
+  try {
+    const parsed = teamRegistryStoreSchema.safeParse(JSON.parse(await readFile(storePath, "utf-8")));
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; "));
+    }
+    store = parsed.data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(`Failed to read team registry ${storePath}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    store = { version: 1, components: [], history: [] };
+  }
+
+  syncCatalog();
+  console.log(`👥 Loaded ${store.components.length} team components from ${storePath}`);
+}
+
+/**
+ * List stored team components
+ * @returns Stored entries including audit fields
+ */
+export function listTeamComponents(): TeamComponentEntry[] {
+  return store.components;
+}
+
+/**
+ * Get a stored team component
+ * @param componentName - Component name
+ * @returns Stored entry or null if not found
+ */
+export function getTeamComponent(componentName: string): TeamComponentEntry | null {
+  return store.components.find((entry) => entry.componentName === componentName) ?? null;
+}
+
+/**
+ * Get the change history of the team registry
+ * @param componentName - Optional component name to filter by
+ * @returns Recorded changes, oldest first
+ */
+export function getTeamRegistryHistory(componentName?: string): TeamRegistryChange[] {
+  return componentName ? store.history.filter((change) => change.componentName === componentName) : store.history;
+}
+
+/**
+ * Find where a component name is already defined
+ * @param componentName - Component name
+ * @returns Source of the existing definition (manifest file, registry or team registry) or null if the name is free
+ */
+export function findComponentSource(componentName: string): string | null {
+  if (getTeamComponent(componentName)) {
+    return SOURCE_ID;
+  }
+  return getCatalog().sources.get(componentName) ?? null;
+}
+
+/**
+ * Publish a new team component
+ * @param input - Component fields
+ * @param actor - Who is publishing
+ * @returns Stored entry
+ * @throws Error if the name is already used
+ */
+export function createTeamComponent(input: TeamComponentInput, actor: string): Promise<TeamComponentEntry> {
+  return commitChange((draft) => {
+    const existingSource = findComponentSource(input.componentName);
+    if (existingSource) {
+      throw new Error(`Component "${input.componentName}" is already defined in ${existingSource}`);
+    }
+
+    const now = new Date().toISOString();
+    const entry: TeamComponentEntry = { ...input, createdBy: actor, createdAt: now, updatedBy: actor, updatedAt: now };
+
+    draft.components.push(entry);
+    draft.history.push({ action: "create", componentName: entry.componentName, actor, at: now });
+    return entry;
+  });
+}
+
+/**
+ * Replace an existing team component
+ * @param input - New component fields, matched by componentName
+ * @param actor - Who is updating
+ * @returns Updated entry or null if not found
+ */
+export async function updateTeamComponent(input: TeamComponentInput, actor: string): Promise<TeamComponentEntry | null> {
+  const { componentName } = input;
+  if (!getTeamComponent(componentName)) {
+    return null;
+  }
+
+  return commitChange((draft) => {
+    const index = draft.components.findIndex((entry) => entry.componentName === componentName);
+    if (index === -1) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const previous = draft.components[index];
+    const entry: TeamComponentEntry = { ...input, createdBy: previous.createdBy, createdAt: previous.createdAt, updatedBy: actor, updatedAt: now };
+
+    draft.components[index] = entry;
+    draft.history.push({ action: "update", componentName, actor, at: now });
+    return entry;
+  });
+}
+
+/**
+ * Remove a team component
+ * @param componentName - Component to remove
+ * @param actor - Who is removing
+ * @returns True if the component existed
+ */
+export async function deleteTeamComponent(componentName: string, actor: string): Promise<boolean> {
+  if (!getTeamComponent(componentName)) {
+    return false;
+  }
+
+  return commitChange((draft) => {
+    const index = draft.components.findIndex((entry) => entry.componentName === componentName);
+    if (index === -1) {
+      return false;
+    }
+
+    draft.components.splice(index, 1);
+    draft.history.push({ action: "delete", componentName, actor, at: new Date().toISOString() });
+    return true;
+  });
+}
+
+/**
+ * Build a shadcn registry item for a team component so `shadcn add <url>` can install it
+ * @param componentName - Component name
+ * @returns Registry item JSON or null if not found
+ */
+export function getTeamRegistryItem(componentName: string): Record<string, unknown> | null {
+  const entry = getTeamComponent(componentName);
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    $schema: "https://ui.shadcn.com/schema/registry-item.json",
+    name: entry.componentName,
+    type: entry.files[0]?.type ?? "registry:ui",
+    title: entry.displayName,
+    description: entry.description,
+    registryDependencies: entry.registryDependencies,
+    dependencies: entry.dependencies,
+    files: entry.files,
+  };
+}
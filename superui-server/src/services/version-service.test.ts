@@ -0,0 +1,50 @@
+/**
+ * Behaviour checks for the versions reported for catalog components
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it, mock } from "node:test";
+import { initializeCatalog } from "../utils/component-catalog.js";
+import { getComponentByName } from "../utils/component-finder.js";
+import { CachedRegistryItem, getRegistryItemHash, writeCachedRegistryItem } from "../utils/registry-cache.js";
+import { refreshMirrorIndex } from "../utils/registry-mirror.js";
+import { getComponentVersion } from "./version-service.js";
+
+const BUTTON: CachedRegistryItem = {
+  name: "button",
+  type: "registry:ui",
+  files: [{ path: "registry/new-york/ui/button.tsx", type: "registry:ui", content: "export function Button() {}\n" }],
+};
+
+describe("getComponentVersion", () => {
+  let cacheDirectory: string;
+
+  before(async () => {
+    // Lines logged while tests run can garble the report stream of the Node 20 test runner
+    mock.method(console, "log", () => undefined);
+    cacheDirectory = mkdtempSync(path.join(tmpdir(), "superui-registry-cache-"));
+    process.env.REGISTRY_CACHE_DIR = cacheDirectory;
+    await initializeCatalog();
+    await writeCachedRegistryItem("button", BUTTON, { revision: "v2" });
+    await refreshMirrorIndex();
+  });
+
+  after(() => {
+    mock.restoreAll();
+    delete process.env.REGISTRY_CACHE_DIR;
+    rmSync(cacheDirectory, { recursive: true, force: true });
+  });
+
+  it("reports the hash and revision of the cached registry item", () => {
+    const version = getComponentVersion(getComponentByName("button")!);
+    assert.equal(version?.hash, getRegistryItemHash(BUTTON));
+    assert.equal(version?.revision, "v2");
+  });
+
+  it("reports no version when the registry item is not cached", () => {
+    assert.equal(getComponentVersion(getComponentByName("card")!), null);
+  });
+});
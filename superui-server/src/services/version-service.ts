@@ -0,0 +1,196 @@
+/**
+ * Version service for SuperUI API Server
+ * Reports the recorded versions of catalog components and what changed between them
+ */
+
+import { ComponentInfo, getComponentByName } from "../utils/component-finder.js";
+import { getInstallTarget } from "../utils/install-plan.js";
+import { CachedRegistryItem, getRegistryItemKey, readCachedRegistryItem, readRegistryItemVersion, RegistryItemVersion } from "../utils/registry-cache.js";
+import { getMirroredItem, resolveItemVersion } from "../utils/registry-mirror.js";
+import { createUnifiedDiff } from "../utils/unified-diff.js";
+
+export interface ComponentVersion {
+  /** Registry revision recorded with the cached registry item, when it was synced from a labelled revision */
+  revision?: string;
+  /** Content hash of the registry item */
+  hash: string;
+  /** When the cached version was recorded */
+  recordedAt?: string;
+}
+
+export interface ComponentVersionEntry extends RegistryItemVersion {
+  current: boolean;
+}
+
+export interface ComponentFileChange {
+  path: string;
+  status: "added" | "removed" | "modified";
+  diff: string;
+}
+
+export interface ComponentVersionDiff {
+  /** Hash of the older version */
+  from: string;
+  /** Hash of the newer version */
+  to: string;
+  files: ComponentFileChange[];
+  dependencies: { added: string[]; removed: string[] };
+  registryDependencies: { added: string[]; removed: string[] };
+}
+
+export interface ComponentVersions {
+  componentName: string;
+  /** Registry item the versions are recorded for, or null when the component is not added with `shadcn add` */
+  item: string | null;
+  current: ComponentVersion | null;
+  /** Recorded versions, newest first */
+  versions: ComponentVersionEntry[];
+  /** Changes between two versions (by default the previous and the current one); null when there is nothing to compare */
+  diff: ComponentVersionDiff | null;
+  /** Requested revisions that match no recorded version */
+  unknownRevisions: string[];
+}
+
+export interface ComponentVersionsRequest {
+  componentName: string;
+  /** Revision to diff from: "current", a revision label or a version hash */
+  from?: string;
+  /** Revision to diff to */
+  to?: string;
+}
+
+/**
+ * Get the registry item key of a component
+ * @param component - Catalog component
+ * @returns Item key, or null when the component has a non-shadcn install command
+ */
+export function getComponentItemKey(component: ComponentInfo): string | null {
+  const target = component.installable === false ? null : getInstallTarget(component);
+  return target ? getRegistryItemKey(target) : null;
+}
+
+/**
+ * Get the version of a catalog component
+ * The version is the one installs actually receive: the content hash of the cached registry item, with the upstream revision it was recorded under
+ * @param component - Catalog component
+ * @returns Version, or null when the registry item is not cached
+ */
+export function getComponentVersion(component: ComponentInfo): ComponentVersion | null {
+  const key = getComponentItemKey(component);
+  const recorded = key ? resolveItemVersion(key, "current") : null;
+
+  if (!recorded) {
+    return null;
+  }
+  return {
+    revision: recorded.revision,
+    hash: recorded.hash,
+    recordedAt: recorded.recordedAt,
+  };
+}
+
+/**
+ * List the added and removed entries between two lists
+ * @param from - Older list
+ * @param to - Newer list
+ */
+function diffLists(from: string[] = [], to: string[] = []): { added: string[]; removed: string[] } {
+  return {
+    added: to.filter((entry) => !from.includes(entry)),
+    removed: from.filter((entry) => !to.includes(entry)),
+  };
+}
+
+/**
+ * Diff two versions of a registry item file by file
+ * @param fromHash - Hash of the older version
+ * @param from - Older item
+ * @param toHash - Hash of the newer version
+ * @param to - Newer item
+ * @returns Changed files and dependency changes
+ */
+function diffItemVersions(fromHash: string, from: CachedRegistryItem, toHash: string, to: CachedRegistryItem): ComponentVersionDiff {
+  const fromFiles = new Map(from.files.map((file) => [file.path, file.content]));
+  const toFiles = new Map(to.files.map((file) => [file.path, file.content]));
+  const paths = [...new Set([...fromFiles.keys(), ...toFiles.keys()])];
+
+  const files = paths.flatMap((filePath): ComponentFileChange[] => {
+    const oldText = fromFiles.get(filePath) ?? null;
+    const newText = toFiles.get(filePath) ?? null;
+    const diff = createUnifiedDiff(filePath, oldText, newText);
+    if (!diff) {
+      return [];
+    }
+    return [{ path: filePath, status: oldText === null ? "added" : newText === null ? "removed" : "modified", diff }];
+  });
+
+  return {
+    from: fromHash,
+    to: toHash,
+    files,
+    dependencies: diffLists(from.dependencies, to.dependencies),
+    registryDependencies: diffLists(from.registryDependencies, to.registryDependencies),
+  };
+}
+
+/**
+ * Read a recorded version of an item, falling back to the cached item for its current version
+ * @param key - Item key
+ * @param hash - Version hash
+ * @param currentHash - Hash of the cached item
+ * @returns Item at that version, or null when it was not recorded
+ */
+export async function readItemVersion(key: string, hash: string, currentHash: string): Promise<CachedRegistryItem | null> {
+  const item = await readRegistryItemVersion(key, hash);
+  return item ?? (hash === currentHash ? readCachedRegistryItem(key) : null);
+}
+
+/**
+ * List the recorded versions of a component and diff two of them
+ * @param request - Component name and the revisions to diff
+ * @returns Versions and diff, or null when the component is not in the catalog
+ */
+export async function getComponentVersions(request: ComponentVersionsRequest): Promise<ComponentVersions | null> {
+  const { componentName, from, to } = request;
+  const component = getComponentByName(componentName);
+  if (!component) {
+    return null;
+  }
+
+  const key = getComponentItemKey(component);
+  const mirrored = key ? getMirroredItem(key) : undefined;
+  const result: ComponentVersions = {
+    componentName: component.componentName,
+    item: key,
+    current: getComponentVersion(component),
+    versions: [],
+    diff: null,
+    unknownRevisions: [],
+  };
+  if (!key || !mirrored) {
+    result.unknownRevisions = [from, to].filter((revision): revision is string => revision !== undefined);
+    return result;
+  }
+
+  result.versions = mirrored.versions.map((version) => ({ ...version, current: version.hash === mirrored.currentHash })).reverse();
+
+  // By default, compare the version before the current one with the current one
+  const toVersion = resolveItemVersion(key, to ?? "current");
+  const toIndex = result.versions.findIndex((version) => version.hash === toVersion?.hash);
+  const previous = toIndex === -1 ? undefined : result.versions.slice(toIndex).find((version) => version.hash !== toVersion?.hash);
+  const fromVersion = from ? resolveItemVersion(key, from) : (previous ?? null);
+  result.unknownRevisions = [...(from && !fromVersion ? [from] : []), ...(to && !toVersion ? [to] : [])];
+
+  if (fromVersion && toVersion) {
+    const [fromItem, toItem] = await Promise.all([
+      readItemVersion(key, fromVersion.hash, mirrored.currentHash),
+      readItemVersion(key, toVersion.hash, mirrored.currentHash),
+    ]);
+    if (fromItem && toItem) {
+      result.diff = diffItemVersions(fromVersion.hash, fromItem, toVersion.hash, toItem);
+    }
+  }
+
+  console.log(`🕒 ${result.versions.length} recorded versions of ${key}`);
+  return result;
+}
@@ -0,0 +1,79 @@
+/**
+ * Behaviour checks for the API key middleware
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { Request, Response } from "express";
+import { requireApiKey } from "./api-key-auth.js";
+
+interface GuardResult {
+  status: number | null;
+  body: unknown;
+  actor: unknown;
+  nextCalled: boolean;
+}
+
+/**
+ * Run the middleware against a request with the given headers
+ * @param headers - Request headers, lower-case names
+ * @returns Response status and body, the actor set on the response and whether the request was let through
+ */
+const runGuard = (headers: Record<string, string>): GuardResult => {
+  const result: GuardResult = { status: null, body: undefined, actor: undefined, nextCalled: false };
+  const req = { get: (name: string) => headers[name.toLowerCase()] } as unknown as Request;
+  const res = {
+    locals: {} as Record<string, unknown>,
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return this;
+    },
+  };
+
+  requireApiKey(req, res as unknown as Response, () => {
+    result.nextCalled = true;
+  });
+  result.actor = res.locals.actor;
+  return result;
+};
+
+describe("requireApiKey", () => {
+  beforeEach(() => {
+    process.env.REGISTRY_API_KEYS = "alice:s3cret, t0ken";
+  });
+
+  afterEach(() => {
+    delete process.env.REGISTRY_API_KEYS;
+  });
+
+  it("accepts a key from X-API-Key and records the name paired with it", () => {
+    const result = runGuard({ "x-api-key": "s3cret" });
+    assert.equal(result.nextCalled, true);
+    assert.equal(result.actor, "alice");
+  });
+
+  it("accepts a bearer token and attributes a bare key to api-key", () => {
+    const result = runGuard({ authorization: "Bearer t0ken" });
+    assert.equal(result.nextCalled, true);
+    assert.equal(result.actor, "api-key");
+  });
+
+  it("rejects missing and unknown keys with 401", () => {
+    for (const headers of [{}, { "x-api-key": "wrong" }, { "x-api-key": "s3cre" }, { authorization: "Basic s3cret" }] as Array<Record<string, string>>) {
+      const result = runGuard(headers);
+      assert.equal(result.nextCalled, false);
+      assert.equal(result.status, 401);
+    }
+  });
+
+  it("disables guarded endpoints with 503 when no keys are configured", () => {
+    delete process.env.REGISTRY_API_KEYS;
+    const result = runGuard({ "x-api-key": "s3cret" });
+    assert.equal(result.nextCalled, false);
+    assert.equal(result.status, 503);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * API key authentication for SuperUI API Server
+ * Guards write endpoints and identifies who made a change
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+
+interface ApiKeyEntry {
+  actor: string;
+  key: string;
+}
+
+/**
+ * Parse REGISTRY_API_KEYS
+ * Format: comma-separated `name:key` pairs (e.g. "alice:s3cret,ci:t0ken"); a bare key is attributed to "api-key"
+ * @param value - Raw environment value
+ * @returns Configured keys
+ */
+function parseApiKeys(value: string | undefined): ApiKeyEntry[] {
+  return (value ?? "")
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const separator = pair.indexOf(":");
+      return separator === -1 ? { actor: "api-key", key: pair } : { actor: pair.slice(0, separator), key: pair.slice(separator + 1) };
+    });
+}
+
+/**
+ * Compare two keys in constant time
+ */
+function keysMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Read the API key from `X-API-Key` or `Authorization: Bearer <key>`
+ * @param req - Express request
+ * @returns Provided key or null
+ */
+function getProvidedKey(req: Request): string | null {
+  const headerKey = req.get("X-API-Key");
+  if (headerKey) {
+    return headerKey;
+  }
+
+  const authorization = req.get("Authorization");
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Express middleware requiring a valid API key
+ * Sets `res.locals.actor` to the name attached to the key
+ */
+export function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+  const apiKeys = parseApiKeys(process.env.REGISTRY_API_KEYS);
+
+  if (apiKeys.length === 0) {
+    res.status(503).json({
+      error: "Write access is disabled: set REGISTRY_API_KEYS on the API server",
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const providedKey = getProvidedKey(req);
+  const entry = providedKey ? apiKeys.find((apiKey) => keysMatch(apiKey.key, providedKey)) : undefined;
+
+  if (!entry) {
+    res.status(401).json({
+      error: "Missing or invalid API key",
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.locals.actor = entry.actor;
+  next();
+}
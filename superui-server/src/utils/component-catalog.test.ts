@@ -0,0 +1,20 @@
+/**
+ * Behaviour checks for the bundled component manifests
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CATALOG_DIR, loadCatalog } from "./component-catalog.js";
+import { getImportedNames } from "./import-block.js";
+
+describe("bundled catalog", () => {
+  it("imports every component a usage snippet renders", async () => {
+    const { components } = await loadCatalog(DEFAULT_CATALOG_DIR);
+
+    for (const component of components.values()) {
+      const names = new Set(getImportedNames(component.importStatement));
+      const missing = Array.from(component.usage.matchAll(/<([A-Z]\w*)/g), ([, tag]) => tag).filter((tag) => !names.has(tag));
+      assert.deepEqual(missing, [], `${component.componentName} renders components it does not import`);
+    }
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Component catalog loader for SuperUI API Server
+ * Loads component manifests (JSON/YAML) from disk, validates them and keeps them fresh
+ */
+
+import { watch, type FSWatcher } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+/**
+ * Schema for one prop of a component part
+ */
+export const componentPropSchema = z
+  .object({
+    name: z.string().min(1),
+    /** TypeScript type as written in the component source, e.g. "boolean" or "(open: boolean) => void" */
+    type: z.string().min(1),
+    /** Default value as source code, e.g. "\"default\"" or "false" */
+    default: z.string().min(1).optional(),
+    required: z.boolean().optional(),
+    /** Allowed values of variant-style props */
+    values: z.array(z.string().min(1)).min(1).optional(),
+    description: z.string().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * Schema for an exported part of a component (e.g. Select, SelectTrigger, SelectContent)
+ */
+export const componentPartSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().min(1).optional(),
+    /** Element or primitive the part renders; its native props are accepted too */
+    extends: z.string().min(1).optional(),
+    props: z.array(componentPropSchema).optional(),
+  })
+  .strict();
+
+/**
+ * Machine-readable API reference: the exported parts, root part first
+ */
+export const componentApiSchema = z
+  .object({
+    parts: z.array(componentPartSchema).min(1),
+  })
+  .strict();
+
+/**
+ * Schema for a named usage example (e.g. "controlled", "with react-hook-form")
+ */
+export const componentExampleSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().min(1).optional(),
+    /** Extra scenario keywords the example should be found by */
+    tags: z.array(z.string().min(1)).optional(),
+    /** Complete snippet, including imports and state wiring */
+    code: z.string().min(1),
+  })
+  .strict();
+
+export type ComponentProp = z.infer<typeof componentPropSchema>;
+
+export type ComponentExample = z.infer<typeof componentExampleSchema>;
+
+export type ComponentApi = z.infer<typeof componentApiSchema>;
+
+/**
+ * Schema for a single catalog entry
+ * The ComponentInfo type is inferred from it so the two never drift apart
+ */
+export const componentInfoSchema = z
+  .object({
+    componentName: z
+      .string()
+      .min(1)
+      .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "componentName must be kebab-case"),
+    displayName: z.string().min(1),
+    packageName: z.string().min(1),
+    importStatement: z.string().min(1),
+    usage: z.string().min(1),
+    description: z.string().min(1),
+    category: z.string().min(1),
+    tags: z.array(z.string().min(1)),
+    registryDependencies: z.array(z.string().min(1)).optional(),
+    dependencies: z.array(z.string().min(1)).optional(),
+    installable: z.boolean().optional(),
+    library: z.string().min(1).optional(),
+    installCommand: z.string().min(1).optional(),
+    documentationUrl: z.string().url().optional(),
+    api: componentApiSchema.optional(),
+    examples: z.array(componentExampleSchema).optional(),
+    registry: z
+      .object({
+        name: z.string().min(1),
+        item: z.string().min(1),
+        url: z.string().min(1),
+        files: z.array(z.string().min(1)),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type ComponentInfo = z.infer<typeof componentInfoSchema>;
+
+/**
+ * Schema for a manifest file
+ * A manifest is either a bare array of components or an object with a `components` array
+ */
+const manifestSchema = z.union([z.array(z.unknown()), z.object({ components: z.array(z.unknown()) }).strict()]);
+
+const MANIFEST_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * Default catalog directory (superui-server/catalog), resolved from both src/ and dist/
+ */
+export const DEFAULT_CATALOG_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../catalog");
+
+export interface CatalogSnapshot {
+  directory: string;
+  components: Map<string, ComponentInfo>;
+  sources: Map<string, string>;
+  loadedAt: string;
+}
+
+let manifestCatalog: CatalogSnapshot | null = null;
+let currentCatalog: CatalogSnapshot | null = null;
+let watcher: FSWatcher | null = null;
+
+/**
+ * Components contributed by sources other than the manifests (e.g. registries), keyed by source id
+ */
+const externalSources = new Map<string, ComponentInfo[]>();
+
+/**
+ * Listeners notified whenever the active catalog is replaced
+ */
+const changeListeners = new Set<(catalog: CatalogSnapshot) => void>();
+
+/**
+ * Parse a manifest file according to its extension
+ * @param filePath - Manifest file path
+ * @param content - Raw file content
+ * @returns Parsed manifest data
+ */
+function parseManifest(filePath: string, content: string): unknown {
+  return path.extname(filePath) === ".json" ? JSON.parse(content) : parseYaml(content);
+}
+
+/**
+ * Format zod issues into readable lines
+ * @param issues - Validation issues
+ * @returns Issue descriptions prefixed with their field path
+ */
+function formatIssues(issues: z.ZodIssue[]): string[] {
+  return issues.map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Load and validate every manifest in a directory
+ * Manifests are read in lexical file order, which also determines listing order
+ * @param directory - Catalog directory
+ * @returns Validated catalog snapshot
+ * @throws Error listing every invalid entry and duplicate componentName
+ */
+export async function loadCatalog(directory: string): Promise<CatalogSnapshot> {
+  const files = (await readdir(directory)).filter((file) => MANIFEST_EXTENSIONS.includes(path.extname(file))).sort();
+
+  if (files.length === 0) {
+    throw new Error(`No component manifests (${MANIFEST_EXTENSIONS.join(", ")}) found in ${directory}`);
+  }
+
+  const components = new Map<string, ComponentInfo>();
+  const sources = new Map<string, string>();
+  const problems: string[] = [];
+
+  for (const file of files) {
+    let manifest: unknown;
+    try {
+      manifest = parseManifest(file, await readFile(path.join(directory, file), "utf-8"));
+    } catch (error) {
+      problems.push(`${file}: ${error instanceof Error ? error.message : "Unable to parse manifest"}`);
+      continue;
+    }
+
+    const parsedManifest = manifestSchema.safeParse(manifest);
+    if (!parsedManifest.success) {
+      problems.push(...formatIssues(parsedManifest.error.issues).map((issue) => `${file}: ${issue}`));
+      continue;
+    }
+
+    const entries = Array.isArray(parsedManifest.data) ? parsedManifest.data : parsedManifest.data.components;
+
+    entries.forEach((entry, index) => {
+      const parsedEntry = componentInfoSchema.safeParse(entry);
+      if (!parsedEntry.success) {
+        problems.push(...formatIssues(parsedEntry.error.issues).map((issue) => `${file} [${index}]: ${issue}`));
+        return;
+      }
+
+      const component = parsedEntry.data;
+      const existingSource = sources.get(component.componentName);
+      if (existingSource) {
+        problems.push(`${file} [${index}]: duplicate componentName "${component.componentName}" (already defined in ${existingSource})`);
+        return;
+      }
+
+      components.set(component.componentName, component);
+      sources.set(component.componentName, file);
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid component catalog in ${directory}:\n  - ${problems.join("\n  - ")}`);
+  }
+
+  return {
+    directory,
+    components,
+    sources,
+    loadedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Merge the manifest catalog with every external source into the active catalog
+ * Manifest entries win; external components whose name is already taken are skipped
+ */
+function rebuildCatalog(): void {
+  if (!manifestCatalog) {
+    return;
+  }
+
+  const components = new Map(manifestCatalog.components);
+  const sources = new Map(manifestCatalog.sources);
+
+  for (const [sourceId, sourceComponents] of externalSources) {
+    for (const component of sourceComponents) {
+      const existingSource = sources.get(component.componentName);
+      if (existingSource) {
+        console.warn(`⚠️ Skipping "${component.componentName}" from ${sourceId}: name already defined in ${existingSource}`);
+        continue;
+      }
+
+      components.set(component.componentName, component);
+      sources.set(component.componentName, sourceId);
+    }
+  }
+
+  currentCatalog = {
+    directory: manifestCatalog.directory,
+    components,
+    sources,
+    loadedAt: new Date().toISOString(),
+  };
+
+  for (const listener of changeListeners) {
+    listener(currentCatalog);
+  }
+}
+
+/**
+ * Load the catalog and make it the active one
+ * @param directory - Catalog directory (defaults to CATALOG_DIR or the bundled catalog)
+ * @returns Loaded catalog snapshot
+ */
+export async function initializeCatalog(directory = process.env.CATALOG_DIR || DEFAULT_CATALOG_DIR): Promise<CatalogSnapshot> {
+  manifestCatalog = await loadCatalog(directory);
+  rebuildCatalog();
+  console.log(`📚 Loaded ${manifestCatalog.components.size} components from ${directory}`);
+  return getCatalog();
+}
+
+/**
+ * Replace the components contributed by an external source
+ * @param sourceId - Unique source id (e.g. "registry:magicui")
+ * @param components - Components provided by the source; an empty array removes the source
+ */
+export function setExternalComponents(sourceId: string, components: ComponentInfo[]): void {
+  if (components.length === 0) {
+    externalSources.delete(sourceId);
+  } else {
+    externalSources.set(sourceId, components);
+  }
+  rebuildCatalog();
+}
+
+/**
+ * Get the active catalog
+ * @returns Active catalog snapshot
+ * @throws Error if the catalog has not been loaded yet
+ */
+export function getCatalog(): CatalogSnapshot {
+  if (!currentCatalog) {
+    throw new Error("Component catalog has not been loaded. Call initializeCatalog() first.");
+  }
+  return currentCatalog;
+}
+
+/**
+ * Register a listener that runs every time the active catalog changes
+ * (initial load, manifest reload or an external source update)
+ * @param listener - Called with the new catalog snapshot
+ * @returns Function that removes the listener
+ */
+export function onCatalogChange(listener: (catalog: CatalogSnapshot) => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Watch the active catalog directory and reload it when a manifest changes
+ * A failed reload is logged and the previous catalog stays active
+ * @param debounceMs - Delay used to coalesce bursts of file events
+ */
+export function watchCatalog(debounceMs = 200): void {
+  const { directory } = getCatalog();
+  let reloadTimer: NodeJS.Timeout | null = null;
+
+  watcher?.close();
+  watcher = watch(directory, { persistent: false }, (_event, filename) => {
+    if (filename && !MANIFEST_EXTENSIONS.includes(path.extname(filename))) {
+      return;
+    }
+
+    if (reloadTimer) {
+      clearTimeout(reloadTimer);
+    }
+
+    reloadTimer = setTimeout(() => {
+      loadCatalog(directory)
+        .then((catalog) => {
+          manifestCatalog = catalog;
+          rebuildCatalog();
+          console.log(`🔄 Reloaded ${catalog.components.size} components from ${directory}`);
+        })
+        .catch((error: unknown) => {
+          console.error("❌ Catalog reload failed, keeping previous catalog:", error instanceof Error ? error.message : error);
+        });
+    }, debounceMs);
+  });
+
+  console.log(`👀 Watching component catalog: ${directory}`);
+}
+
+/**
+ * Stop watching the catalog directory
+ */
+export function unwatchCatalog(): void {
+  watcher?.close();
+  watcher = null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Component comparison utility for SuperUI API Server
+ * Builds a side-by-side matrix of similar components from catalog metadata
+ */
+
+import { ComponentInfo } from "./component-catalog.js";
+import { resolveInstallPlan } from "./install-plan.js";
+import { getComponentLibrary } from "./search-facets.js";
+
+/** Components compared in one request */
+export const COMPARE_MIN_COMPONENTS = 2;
+export const COMPARE_MAX_COMPONENTS = 5;
+
+export const BUNDLE_WEIGHT_TIERS = ["none", "light", "medium", "heavy"] as const;
+
+export type BundleWeightTier = (typeof BUNDLE_WEIGHT_TIERS)[number];
+
+/** JavaScript animation libraries, by package name */
+const ANIMATION_LIBRARIES: Record<string, string> = {
+  motion: "Motion",
+  "framer-motion": "Framer Motion",
+  gsap: "GSAP",
+  "react-spring": "React Spring",
+  "@react-spring/web": "React Spring",
+};
+
+/**
+ * Approximate weight of known runtime packages (min+gzip: light < 10 kB, medium < 50 kB, heavy above)
+ * Radix primitives are matched by prefix and count as light
+ */
+const PACKAGE_WEIGHTS: Record<string, BundleWeightTier> = {
+  "@hookform/resolvers": "light",
+  "@radix-ui/react-slot": "light",
+  cmdk: "light",
+  "date-fns": "light",
+  "embla-carousel-react": "light",
+  "input-otp": "light",
+  "next-themes": "light",
+  "react-resizable-panels": "light",
+  sonner: "light",
+  "use-stick-to-bottom": "light",
+  "react-hook-form": "medium",
+  "react-day-picker": "medium",
+  zod: "medium",
+  motion: "medium",
+  "framer-motion": "medium",
+  gsap: "medium",
+  "react-spring": "medium",
+  "@react-spring/web": "medium",
+  "react-syntax-highlighter": "heavy",
+  streamdown: "heavy",
+};
+
+const ANIMATED_TERMS = /\b(animat\w*|motion|transition|shimmer|pulse|typewriter|spring)\b/i;
+
+export interface ComparisonEntry {
+  componentName: string;
+  displayName: string;
+  library: string;
+  category: string;
+  dependencies: {
+    /** Catalog components installed with this one (transitively) */
+    components: string[];
+    /** npm packages of the component and its component dependencies */
+    npmPackages: string[];
+  };
+  animation: {
+    /** "js" for an animation library, "css" for styling-only animation, "none" for static components */
+    technique: "js" | "css" | "none";
+    library: string | null;
+    summary: string;
+  };
+  bundleWeight: {
+    /** Heaviest runtime package (unknown packages count as light); "none" without runtime packages */
+    tier: BundleWeightTier;
+    packages: Array<{ name: string; tier: BundleWeightTier | "unknown" }>;
+  };
+  accessibility: string[];
+  recommendedUse: string;
+  /** Tags no other compared component has: what sets this one apart */
+  distinctiveTags: string[];
+}
+
+export interface ComponentComparison {
+  components: ComparisonEntry[];
+  /** Attributes as rows, one value per component (in component order) */
+  matrix: Array<{ attribute: string; values: string[] }>;
+}
+
+/**
+ * Get the weight tier of an npm package
+ * @param name - Package name
+ * @returns Known tier, or "unknown"
+ */
+function getPackageWeight(name: string): BundleWeightTier | "unknown" {
+  if (name.startsWith("@radix-ui/")) {
+    return "light";
+  }
+  return PACKAGE_WEIGHTS[name] ?? "unknown";
+}
+
+/**
+ * Describe how a component animates
+ * @param component - Catalog component
+ * @param npmPackages - Runtime packages of the component and its dependencies
+ * @returns Animation technique
+ */
+function describeAnimation(component: ComponentInfo, npmPackages: string[]): ComparisonEntry["animation"] {
+  const animationPackage = npmPackages.find((name) => ANIMATION_LIBRARIES[name]);
+  if (animationPackage) {
+    return { technique: "js", library: animationPackage, summary: `JavaScript, ${ANIMATION_LIBRARIES[animationPackage]} (${animationPackage})` };
+  }
+  if (component.tags.some((tag) => ANIMATED_TERMS.test(tag)) || ANIMATED_TERMS.test(component.description)) {
+    return { technique: "css", library: null, summary: "CSS (Tailwind classes and keyframes, no animation library)" };
+  }
+  return { technique: "none", library: null, summary: "None" };
+}
+
+/**
+ * Collect accessibility notes for a component
+ * @param component - Catalog component
+ * @param npmPackages - Runtime packages of the component and its dependencies
+ * @param animation - Animation technique
+ * @returns Notes, most important first
+ */
+function describeAccessibility(component: ComponentInfo, npmPackages: string[], animation: ComparisonEntry["animation"]): string[] {
+  const notes: string[] = [];
+  const primitives = npmPackages.filter((name) => name.startsWith("@radix-ui/react-") && name !== "@radix-ui/react-slot");
+
+  if (primitives.length > 0) {
+    notes.push(
+      `Built on Radix primitives (${primitives.map((name) => name.replace("@radix-ui/react-", "")).join(", ")}): keyboard navigation, focus management and ARIA roles are handled`
+    );
+  } else if (component.category === "advanced-button" || component.tags.includes("button")) {
+    notes.push("Custom button: check it renders a native <button> with a visible focus ring");
+  }
+  if (animation.technique !== "none") {
+    notes.push(
+      animation.technique === "js"
+        ? "Animates with JavaScript: honor prefers-reduced-motion (e.g. Motion's useReducedMotion)"
+        : "Animates with CSS: honor prefers-reduced-motion (e.g. Tailwind motion-safe: / motion-reduce:)"
+    );
+  }
+  if (component.category === "text" && animation.technique !== "none") {
+    notes.push("Animated text may be announced piece by piece: expose the full text (e.g. aria-label) and hide the animated copy from screen readers");
+  }
+  if (component.tags.includes("hover") || component.tags.includes("cursor")) {
+    notes.push("Effect is pointer driven: make sure it has a keyboard and touch equivalent");
+  }
+  return notes.length > 0 ? notes : ["No specific notes: semantic HTML styled with Tailwind"];
+}
+
+/**
+ * Compare components side by side
+ * @param components - Catalog components, in display order
+ * @returns Comparison entries and the attribute matrix
+ */
+export function compareComponents(components: ComponentInfo[]): ComponentComparison {
+  const tagCounts = new Map<string, number>();
+  for (const tag of components.flatMap((component) => [...new Set(component.tags)])) {
+    tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+  }
+
+  const entries = components.map((component): ComparisonEntry => {
+    const plan = resolveInstallPlan([component.componentName]);
+    const npmPackages = plan.npmDependencies;
+    const animation = describeAnimation(component, npmPackages);
+    const packages = npmPackages.map((name) => ({ name, tier: getPackageWeight(name) }));
+    const tier = packages.reduce<BundleWeightTier>((heaviest, { tier: packageTier }) => {
+      const rank = BUNDLE_WEIGHT_TIERS.indexOf(packageTier === "unknown" ? "light" : packageTier);
+      return rank > BUNDLE_WEIGHT_TIERS.indexOf(heaviest) ? BUNDLE_WEIGHT_TIERS[rank] : heaviest;
+    }, "none");
+
+    return {
+      componentName: component.componentName,
+      displayName: component.displayName,
+      library: getComponentLibrary(component),
+      category: component.category,
+      dependencies: {
+        components: plan.steps.filter((step) => !step.requested).map((step) => step.componentName),
+        npmPackages,
+      },
+      animation,
+      bundleWeight: { tier, packages },
+      accessibility: describeAccessibility(component, npmPackages, animation),
+      recommendedUse: component.description,
+      distinctiveTags: component.tags.filter((tag) => tagCounts.get(tag) === 1),
+    };
+  });
+
+  const list = (values: string[]): string => (values.length > 0 ? values.join(", ") : "none");
+  const matrix = [
+    { attribute: "Library", values: entries.map((entry) => entry.library) },
+    { attribute: "Component dependencies", values: entries.map((entry) => list(entry.dependencies.components)) },
+    { attribute: "npm packages", values: entries.map((entry) => list(entry.dependencies.npmPackages)) },
+    { attribute: "Animation", values: entries.map((entry) => entry.animation.summary) },
+    { attribute: "Bundle weight", values: entries.map((entry) => entry.bundleWeight.tier) },
+    { attribute: "Accessibility", values: entries.map((entry) => entry.accessibility.join("; ")) },
+    { attribute: "Recommended use", values: entries.map((entry) => entry.recommendedUse) },
+    { attribute: "Distinctive tags", values: entries.map((entry) => list(entry.distinctiveTags)) },
+  ];
+
+  return { components: entries, matrix };
+}
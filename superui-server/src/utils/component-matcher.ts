@@ -4,6 +4,8 @@
  */
 
 import { ComponentInfo, getComponentByName } from "./component-finder.js";
+import { InstallPlan, resolveInstallPlan } from "./install-plan.js";
+import { DEFAULT_PACKAGE_MANAGER, PackageManager } from "./package-manager.js";
 
 export interface VisualPattern {
   keywords: string[];
@@ -109,10 +111,17 @@ export const VISUAL_PATTERNS: Record<string, VisualPattern> = {
 /**
  * Match components from analysis text
  * @param analysis - LLM's analysis of the target screenshot
- * @returns Matched components and installation commands
+ * @param packageManager - Package manager the install commands are rendered for
+ * @param installedComponents - Components that already exist in the project and are left out of the install plan
+ * @returns Matched components, their install plan and its commands
  */
-export async function matchComponentsFromAnalysis(analysis: string): Promise<{
+export async function matchComponentsFromAnalysis(
+  analysis: string,
+  packageManager: PackageManager = DEFAULT_PACKAGE_MANAGER,
+  installedComponents: Set<string> = new Set()
+): Promise<{
   components: ComponentInfo[];
+  installPlan: InstallPlan;
   installations: string[];
 }> {
   const lowerAnalysis = analysis.toLowerCase();
@@ -162,11 +171,14 @@ export async function matchComponentsFromAnalysis(analysis: string): Promise<{
 
   console.log(`✅ Matched ${components.length} components`);
 
-  // Generate installation commands
-  const installations = components.map(
-    (c) => c.installCommand || `Install command for '${c.componentName}' component not found. Try installing it by yourself.`
+  // Resolve one install plan for all matched components (dependencies included, duplicates removed)
+  const installPlan = resolveInstallPlan(
+    components.map((c) => c.componentName),
+    packageManager,
+    installedComponents
   );
+  const installations = installPlan.commands;
 
   // Return a promise for consistency with other async functions and future maintenance
-  return Promise.resolve({ components, installations });
+  return Promise.resolve({ components, installPlan, installations });
 }
@@ -0,0 +1,39 @@
+/**
+ * File store utility for SuperUI API Server
+ * Saves state that services keep in a JSON file and edit at runtime
+ */
+
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Runs tasks one at a time, in the order they were queued
+ */
+export type TaskQueue = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a queue that runs tasks one at a time
+ * A task that fails rejects only its own promise; the tasks queued after it still run
+ * @returns Queue function
+ */
+export function createTaskQueue(): TaskQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
+/**
+ * Write a file atomically: readers see either the old or the new contents, never a partial write
+ * @param filePath - Destination path; missing directories are created
+ * @param content - File contents
+ */
+export async function writeFileAtomically(filePath: string, content: string): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, content, "utf-8");
+  await rename(tempPath, filePath);
+}
@@ -0,0 +1,172 @@
+/**
+ * Fuzzy matching utility for SuperUI API Server
+ * Edit distance and trigram similarity for typo-tolerant lookups and "did you mean" suggestions
+ */
+
+import { ComponentInfo, getCatalog } from "./component-catalog.js";
+
+export interface ComponentSuggestion {
+  componentName: string;
+  displayName: string;
+  description: string;
+  category: string;
+  library?: string;
+  /** Similarity between the query and the component, from 0 to 1 */
+  similarity: number;
+}
+
+/** Minimum similarity for a component to be suggested */
+const MIN_SUGGESTION_SIMILARITY = 0.45;
+
+/** Minimum similarity for findComponent to treat a misspelling as the component itself */
+const MIN_MATCH_SIMILARITY = 0.75;
+
+/** Tags are weaker evidence than the component's own name */
+const TAG_SIMILARITY_FACTOR = 0.8;
+
+/**
+ * Compute the optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ * @param a - First string
+ * @param b - Second string
+ * @param maxDistance - Stop early and return maxDistance + 1 once the distance is known to exceed it
+ * @returns Number of edits turning a into b
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_value, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1);
+      }
+      nextRow.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1;
+    }
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Get the set of padded character trigrams of a string
+ * @param text - Text to split
+ * @returns Trigram set
+ */
+function getTrigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return trigrams;
+}
+
+/**
+ * Compute the Dice coefficient of two strings' trigrams
+ * @param a - First string
+ * @param b - Second string
+ * @returns Similarity from 0 to 1
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const trigramsA = getTrigrams(a);
+  const trigramsB = getTrigrams(b);
+  let shared = 0;
+  for (const trigram of trigramsA) {
+    if (trigramsB.has(trigram)) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (trigramsA.size + trigramsB.size);
+}
+
+/**
+ * Normalize text for fuzzy comparison; separators are dropped so "glowbutton" meets "glow-button"
+ * @param text - Text to normalize
+ * @returns Lowercase alphanumeric string
+ */
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Score how closely two strings match, combining edit distance and trigram overlap
+ * @param query - Normalized query
+ * @param candidate - Normalized candidate
+ * @returns Similarity from 0 to 1
+ */
+export function stringSimilarity(query: string, candidate: string): number {
+  if (!query || !candidate) {
+    return 0;
+  }
+  if (query === candidate) {
+    return 1;
+  }
+
+  const editSimilarity = 1 - editDistance(query, candidate) / Math.max(query.length, candidate.length);
+  return Math.max(editSimilarity, trigramSimilarity(query, candidate));
+}
+
+/**
+ * Score a component against a query by its name, display name and tags
+ * @param query - Compacted query
+ * @param component - Catalog component
+ * @returns Best similarity from 0 to 1
+ */
+function scoreComponent(query: string, component: ComponentInfo): number {
+  const nameSimilarity = Math.max(stringSimilarity(query, compact(component.componentName)), stringSimilarity(query, compact(component.displayName)));
+  const tagSimilarity = Math.max(0, ...component.tags.map((tag) => stringSimilarity(query, compact(tag)))) * TAG_SIMILARITY_FACTOR;
+  return Math.max(nameSimilarity, tagSimilarity);
+}
+
+/**
+ * Rank catalog components by how closely they resemble a (possibly misspelled) query
+ * @param query - Query that did not match a component exactly
+ * @param limit - Maximum number of suggestions
+ * @returns Suggestions, most similar first
+ */
+export function suggestComponents(query: string, limit = 5): ComponentSuggestion[] {
+  const normalizedQuery = compact(query);
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  return Array.from(getCatalog().components.values())
+    .map((component) => ({ component, similarity: scoreComponent(normalizedQuery, component) }))
+    .filter(({ similarity }) => similarity >= MIN_SUGGESTION_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity || a.component.componentName.localeCompare(b.component.componentName))
+    .slice(0, limit)
+    .map(({ component, similarity }) => ({
+      componentName: component.componentName,
+      displayName: component.displayName,
+      description: component.description,
+      category: component.category,
+      library: component.library,
+      similarity: Math.round(similarity * 100) / 100,
+    }));
+}
+
+/**
+ * Find the component a misspelled query most likely refers to
+ * @param query - Query that did not match a component exactly
+ * @returns Closest component, or null when nothing is similar enough
+ */
+export function findClosestComponent(query: string): ComponentInfo | null {
+  const [best] = suggestComponents(query, 1);
+  return best && best.similarity >= MIN_MATCH_SIMILARITY ? (getCatalog().components.get(best.componentName) ?? null) : null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Import block utility for SuperUI API Server
+ * Merges component import statements into one deduplicated block
+ */
+
+const NAMED_IMPORT = /^import\s*\{([^}]*)\}\s*from\s*(["'])([^"']+)\2;?$/;
+
+/**
+ * Merge import statements, combining named imports from the same module
+ * Other statements (namespace, default or side-effect imports) are kept once each, in first-seen order
+ * @param statements - Import statements, one or more lines each
+ * @returns Import block with one line per module
+ */
+export function mergeImportStatements(statements: string[]): string {
+  const namedImports = new Map<string, Set<string>>();
+  const otherLines = new Set<string>();
+  // Modules and verbatim lines in first-seen order
+  const order: Array<{ modulePath: string } | { line: string }> = [];
+
+  for (const line of statements.flatMap((statement) => statement.split("\n")).map((line) => line.trim())) {
+    const match = NAMED_IMPORT.exec(line);
+    if (!match) {
+      if (line && !otherLines.has(line)) {
+        otherLines.add(line);
+        order.push({ line });
+      }
+      continue;
+    }
+
+    const [, names, , modulePath] = match;
+    let moduleNames = namedImports.get(modulePath);
+    if (!moduleNames) {
+      moduleNames = new Set();
+      namedImports.set(modulePath, moduleNames);
+      order.push({ modulePath });
+    }
+    for (const name of names.split(",").map((name) => name.trim())) {
+      if (name) {
+        moduleNames.add(name);
+      }
+    }
+  }
+
+  return order
+    .map((entry) => ("line" in entry ? entry.line : `import { ${Array.from(namedImports.get(entry.modulePath) ?? []).join(", ")} } from "${entry.modulePath}"`))
+    .join("\n");
+}
+
+/**
+ * Get the names import statements bring into scope
+ * @param statements - Import statements, one or more per line
+ * @returns Named (or renamed) and default imports, in order
+ */
+export function getImportedNames(statements: string): string[] {
+  const names = new Set<string>();
+  for (const [, namedImports, defaultImport] of statements.matchAll(/import\s+(?:\{([^}]*)\}|(\w+))\s+from/g)) {
+    for (const name of namedImports?.split(",") ?? [defaultImport]) {
+      const localName = name.replace(/^.*\sas\s/, "").trim();
+      if (localName) {
+        names.add(localName);
+      }
+    }
+  }
+  return Array.from(names);
+}
@@ -0,0 +1,227 @@
+/**
+ * Install plan utility for SuperUI API Server
+ * Resolves component dependency graphs into ordered, deduplicated install plans
+ */
+
+import { z } from "zod";
+import { ComponentInfo, getComponentByName } from "./component-finder.js";
+import { DEFAULT_PACKAGE_MANAGER, formatAddCommand, formatInstallCommand, formatShadcnAddCommand, PackageManager } from "./package-manager.js";
+import { resolveMirrorTarget, resolvePinnedMirrorTarget } from "./registry-mirror.js";
+
+/** Catalog install commands that add a registry item, e.g. `npx shadcn@latest add button` */
+const SHADCN_ADD_PREFIX = formatShadcnAddCommand([]);
+
+/**
+ * Versions install commands are pinned to
+ * Values end up in shell commands and URLs, so only version-like strings are accepted
+ */
+export const installPinSchema = z
+  .object({
+    /** shadcn CLI version or dist-tag (e.g. "2.10.0", "canary") */
+    cliVersion: z
+      .string()
+      .regex(/^\w[\w.+-]*$/, "cliVersion must be a version or dist-tag")
+      .optional(),
+    /** Registry revision: "current", a revision label recorded by registry:sync/registry:cache, or a version hash */
+    registryRevision: z
+      .string()
+      .regex(/^\w[\w./+-]*$/, "registryRevision must be a revision label or version hash")
+      .optional(),
+  })
+  .strict();
+
+export type InstallPin = z.infer<typeof installPinSchema>;
+
+export interface InstallPlanStep {
+  componentName: string;
+  displayName: string;
+  library?: string;
+  /** False for compositions that have no registry item of their own (e.g. date-picker) */
+  installable: boolean;
+  /** Registry item passed to `shadcn add`, or null when the step has a custom command or is not installable */
+  target: string | null;
+  /** True for registry items outside the catalog (e.g. `@tailark/hero-section-1` or an item URL) */
+  external: boolean;
+  /** True when the component already exists in the project; installed steps are left out of the commands */
+  installed: boolean;
+  requested: boolean;
+  requiredBy: string[];
+  dependencies: string[];
+}
+
+export interface InstallPlan {
+  packageManager: PackageManager;
+  steps: InstallPlanStep[];
+  commands: string[];
+  npmDependencies: string[];
+  alreadyInstalled: string[];
+  /** Adds the npm dependencies directly; `shadcn add` already installs them, so this is only needed for manual setups */
+  dependencyInstallCommand: string | null;
+  unresolved: string[];
+  cycles: string[][];
+  pin: {
+    cliVersion: string;
+    registryRevision: string | null;
+  };
+  /** Components added at their current version because the pinned registry revision has no version of them */
+  unpinned: string[];
+}
+
+/**
+ * Get the shadcn package spec install commands run
+ * @param pin - Install pin
+ * @returns `shadcn@<version>`, using the pinned CLI version, SHADCN_CLI_VERSION or "latest"
+ */
+export function getShadcnPackage(pin: InstallPin = {}): string {
+  return `shadcn@${pin.cliVersion || process.env.SHADCN_CLI_VERSION || "latest"}`;
+}
+
+/**
+ * Check whether a name addresses a registry item outside the catalog
+ * Namespaced items (`@tailark/hero-section-1`), URLs and local item files are passed to `shadcn add` as-is
+ * @param name - Dependency or requested name
+ */
+function isExternalRegistryItem(name: string): boolean {
+  return /^@[\w-]+\/[\w.-]+$/.test(name) || /^https?:\/\//.test(name) || name.endsWith(".json");
+}
+
+/**
+ * Get the `shadcn add` target of a component
+ * In mirror mode, mirrored items are added from the local mirror instead of their registry
+ * @param component - Component information
+ * @returns Registry item to add, or null when the component has a non-shadcn install command
+ */
+export function getInstallTarget(component: ComponentInfo): string | null {
+  if (!component.installCommand) {
+    return resolveMirrorTarget(component.componentName);
+  }
+  return component.installCommand.startsWith(SHADCN_ADD_PREFIX) ? resolveMirrorTarget(component.installCommand.slice(SHADCN_ADD_PREFIX.length).trim()) : null;
+}
+
+/**
+ * Resolve components and their transitive registry dependencies into an install plan
+ * Steps are topologically ordered (dependencies first) and every component appears once
+ * @param componentNames - Requested component names (catalog names or external registry items)
+ * @param packageManager - Package manager the commands are rendered for
+ * @param installedComponents - Components that already exist in the project and must not be reinstalled
+ * @param pin - CLI version and registry revision the commands are pinned to
+ * @returns Install plan
+ */
+export function resolveInstallPlan(
+  componentNames: string[],
+  packageManager: PackageManager = DEFAULT_PACKAGE_MANAGER,
+  installedComponents: Set<string> = new Set(),
+  pin: InstallPin = {}
+): InstallPlan {
+  const requested = new Set(componentNames);
+  const steps = new Map<string, InstallPlanStep>();
+  const visiting: string[] = [];
+  const unresolved = new Set<string>();
+  const cycles: string[][] = [];
+  const unpinned: string[] = [];
+
+  // Pinned targets point at the recorded version in the mirror; items without one keep their current target
+  const pinTarget = (name: string, target: string | null): string | null => {
+    if (!target || !pin.registryRevision) {
+      return target;
+    }
+    const pinnedTarget = resolvePinnedMirrorTarget(target, pin.registryRevision);
+    if (!pinnedTarget) {
+      unpinned.push(name);
+    }
+    return pinnedTarget ?? target;
+  };
+
+  const visit = (name: string, requiredBy?: string): void => {
+    const existing = steps.get(name);
+    if (existing) {
+      if (requiredBy && !existing.requiredBy.includes(requiredBy)) {
+        existing.requiredBy.push(requiredBy);
+      }
+      return;
+    }
+
+    const cycleStart = visiting.indexOf(name);
+    if (cycleStart !== -1) {
+      cycles.push([...visiting.slice(cycleStart), name]);
+      return;
+    }
+
+    const component = getComponentByName(name);
+
+    if (!component) {
+      if (!isExternalRegistryItem(name)) {
+        unresolved.add(name);
+        return;
+      }
+
+      steps.set(name, {
+        componentName: name,
+        displayName: name,
+        installable: true,
+        target: pinTarget(name, resolveMirrorTarget(name)),
+        external: true,
+        installed: false,
+        requested: requested.has(name),
+        requiredBy: requiredBy ? [requiredBy] : [],
+        dependencies: [],
+      });
+      return;
+    }
+
+    visiting.push(name);
+    for (const dependency of component.registryDependencies ?? []) {
+      visit(dependency, name);
+    }
+    visiting.pop();
+
+    const installable = component.installable !== false;
+    steps.set(name, {
+      componentName: component.componentName,
+      displayName: component.displayName,
+      library: component.library,
+      installable,
+      target: installable ? pinTarget(component.componentName, getInstallTarget(component)) : null,
+      external: false,
+      installed: installedComponents.has(component.componentName),
+      requested: requested.has(name),
+      requiredBy: requiredBy ? [requiredBy] : [],
+      dependencies: component.dependencies ?? [],
+    });
+  };
+
+  componentNames.forEach((name) => visit(name));
+
+  const orderedSteps = Array.from(steps.values());
+  const pendingSteps = orderedSteps.filter((step) => !step.installed);
+  const targets = Array.from(new Set(pendingSteps.map((step) => step.target).filter((target): target is string => target !== null)));
+
+  // Components with their own (non-shadcn) install command keep it, deduplicated
+  const customCommands = Array.from(
+    new Set(
+      pendingSteps
+        .filter((step) => step.installable && step.target === null)
+        .map((step) => getComponentByName(step.componentName)?.installCommand)
+        .filter((command): command is string => Boolean(command))
+        .map((command) => formatInstallCommand(command, packageManager))
+    )
+  );
+
+  const npmDependencies = Array.from(new Set(pendingSteps.flatMap((step) => step.dependencies)));
+
+  return {
+    packageManager,
+    steps: orderedSteps,
+    commands: [...(targets.length > 0 ? [formatShadcnAddCommand(targets, packageManager, getShadcnPackage(pin))] : []), ...customCommands],
+    npmDependencies,
+    alreadyInstalled: orderedSteps.filter((step) => step.installed).map((step) => step.componentName),
+    dependencyInstallCommand: npmDependencies.length > 0 ? formatAddCommand(npmDependencies, packageManager) : null,
+    unresolved: Array.from(unresolved),
+    cycles,
+    pin: {
+      cliVersion: getShadcnPackage(pin).slice("shadcn@".length),
+      registryRevision: pin.registryRevision ?? null,
+    },
+    unpinned: unpinned.filter((name) => !installedComponents.has(name)),
+  };
+}
@@ -3,6 +3,9 @@
  * Handles the interactive conversation to gather user requirements
  */
 
+import { resolveInstallPlan } from './install-plan.js';
+import { DEFAULT_PACKAGE_MANAGER, PackageManager } from './package-manager.js';
+
 export interface ConversationState {
   currentStep: number;
   totalSteps: number;
@@ -78,11 +81,13 @@ export const CONVERSATION_QUESTIONS = {
  * Process conversation step and return next question or landing page
  * @param conversationState - Current conversation state
  * @param userAnswer - User's answer to current question
+ * @param packageManager - Package manager the install commands are rendered for
  * @returns Updated conversation state or landing page result
  */
 export function processConversationStep(
   conversationState: ConversationState,
-  userAnswer: string
+  userAnswer: string,
+  packageManager: PackageManager = DEFAULT_PACKAGE_MANAGER
 ): { type: 'question' | 'landing', data: ConversationState | string } {
   
   const { currentStep, answers } = conversationState;
@@ -102,7 +107,7 @@ export function processConversationStep(
     desiredAction: answers.desiredAction || '',
     style: answers.style || ''
   };
-  const landing = generateLandingFromAnswers(landingAnswers);
+  const landing = generateLandingFromAnswers(landingAnswers, packageManager);
     return { type: 'landing', data: landing };
   }
   
@@ -124,10 +129,12 @@ export function processConversationStep(
 /**
  * Generate landing page based on user answers
  * @param answers - User's answers to all questions
+ * @param packageManager - Package manager the install commands are rendered for
  * @returns Generated landing page structure
  */
-function generateLandingFromAnswers(answers: LandingAnswers): string {
+function generateLandingFromAnswers(answers: LandingAnswers, packageManager: PackageManager): string {
   const sections = selectSectionsForLanding(answers);
+  const installPlan = resolveInstallPlan(sections.map(section => `@tailark/${section.tailarkComponent}`), packageManager);
   
   return `
 # 🎨 Custom Landing Page Template
@@ -154,7 +161,7 @@ ${sections.map((section, index) => `
 
 \`\`\`bash
 # Install all recommended components
-${sections.map(section => `pnpm dlx shadcn add @tailark/${section.tailarkComponent}`).join('\n')}
+${installPlan.commands.join('\n')}
 \`\`\`
 
 ## 📁 File Structure
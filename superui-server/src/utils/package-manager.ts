@@ -0,0 +1,98 @@
+/**
+ * Package manager utility for SuperUI API Server
+ * Renders install commands for the package manager used by the caller's project
+ */
+
+export const PACKAGE_MANAGERS = ["npm", "pnpm", "yarn", "bun"] as const;
+
+export type PackageManager = (typeof PACKAGE_MANAGERS)[number];
+
+export const DEFAULT_PACKAGE_MANAGER: PackageManager = "npm";
+
+/**
+ * Command used to run a package binary without installing it (same runners as the shadcn CLI uses)
+ */
+const PACKAGE_RUNNERS: Record<PackageManager, string> = {
+  npm: "npx",
+  pnpm: "pnpm dlx",
+  yarn: "npx",
+  bun: "bunx --bun",
+};
+
+/**
+ * Command used to add dependencies to the project
+ */
+const PACKAGE_INSTALLERS: Record<PackageManager, string> = {
+  npm: "npm install",
+  pnpm: "pnpm add",
+  yarn: "yarn add",
+  bun: "bun add",
+};
+
+/**
+ * Parse a package manager sent by a client
+ * Accepts bare names as well as `packageManager` field values such as "pnpm@9.12.0"
+ * @param value - Raw value from the request
+ * @returns Package manager, or the default (npm) when missing or unknown
+ */
+export function parsePackageManager(value: unknown): PackageManager {
+  if (typeof value !== "string") {
+    return DEFAULT_PACKAGE_MANAGER;
+  }
+
+  const name = value.trim().toLowerCase().split("@")[0];
+  return PACKAGE_MANAGERS.find((packageManager) => packageManager === name) ?? DEFAULT_PACKAGE_MANAGER;
+}
+
+/**
+ * Build a command that runs a package binary (e.g. `shadcn@latest add button`)
+ * @param args - Package and its arguments
+ * @param packageManager - Target package manager
+ * @returns Runnable command
+ */
+export function formatRunCommand(args: string, packageManager: PackageManager = DEFAULT_PACKAGE_MANAGER): string {
+  return `${PACKAGE_RUNNERS[packageManager]} ${args}`;
+}
+
+/**
+ * Build a `shadcn add` command for registry items
+ * Catalog entries store it in npm form, which formatInstallCommand rewrites for other package managers
+ * @param targets - Registry items, item URLs or local item files
+ * @param packageManager - Target package manager
+ * @param shadcnPackage - shadcn package spec to run
+ * @returns Runnable command
+ */
+export function formatShadcnAddCommand(targets: string[], packageManager: PackageManager = DEFAULT_PACKAGE_MANAGER, shadcnPackage = "shadcn@latest"): string {
+  return formatRunCommand(`${shadcnPackage} add ${targets.join(" ")}`, packageManager);
+}
+
+/**
+ * Build a command that adds packages to the project
+ * @param packages - Package names
+ * @param packageManager - Target package manager
+ * @returns Install command
+ */
+export function formatAddCommand(packages: string[], packageManager: PackageManager = DEFAULT_PACKAGE_MANAGER): string {
+  return `${PACKAGE_INSTALLERS[packageManager]} ${packages.join(" ")}`;
+}
+
+/**
+ * Rewrite a catalog install command for a package manager
+ * Commands are stored in npm form (`npx ...`, `npm install ...`); other runners are recognised too, anything else is returned unchanged
+ * @param command - Install command as stored in the catalog
+ * @param packageManager - Target package manager
+ * @returns Command for the target package manager
+ */
+export function formatInstallCommand(command: string, packageManager: PackageManager = DEFAULT_PACKAGE_MANAGER): string {
+  const runMatch = command.match(/^(?:npx|pnpm dlx|yarn dlx|bunx(?: --bun)?)\s+(.+)$/);
+  if (runMatch) {
+    return formatRunCommand(runMatch[1], packageManager);
+  }
+
+  const installMatch = command.match(/^(?:npm (?:install|i)|pnpm add|yarn add|bun add)\s+(.+)$/);
+  if (installMatch) {
+    return formatAddCommand(installMatch[1].split(/\s+/), packageManager);
+  }
+
+  return command;
+}
@@ -0,0 +1,253 @@
+/**
+ * Project configuration utility for SuperUI API Server
+ * Rewrites catalog import paths and install locations for the caller's components.json and tsconfig paths
+ */
+
+import path from "node:path";
+import { z } from "zod";
+import { ComponentInfo } from "./component-catalog.js";
+
+/**
+ * Project settings sent by the MCP server
+ * Mirrors the parts of components.json and tsconfig.json SuperUI uses; unknown keys are ignored
+ */
+export const projectConfigSchema = z.object({
+  componentsJson: z
+    .object({
+      style: z.string().optional(),
+      rsc: z.boolean().optional(),
+      tsx: z.boolean().optional(),
+      tailwind: z
+        .object({
+          config: z.string().optional(),
+          css: z.string().optional(),
+          baseColor: z.string().optional(),
+          cssVariables: z.boolean().optional(),
+          prefix: z.string().optional(),
+        })
+        .optional(),
+      aliases: z
+        .object({
+          components: z.string().optional(),
+          ui: z.string().optional(),
+          utils: z.string().optional(),
+          lib: z.string().optional(),
+          hooks: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  tsconfig: z
+    .object({
+      baseUrl: z.string().optional(),
+      paths: z.record(z.array(z.string())).optional(),
+    })
+    .optional(),
+});
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+export interface ProjectAliases {
+  components: string;
+  ui: string;
+  utils: string;
+  lib: string;
+  hooks: string;
+}
+
+/**
+ * Aliases the catalog is written against (shadcn defaults)
+ */
+export const DEFAULT_ALIASES: ProjectAliases = {
+  components: "@/components",
+  ui: "@/components/ui",
+  utils: "@/lib/utils",
+  lib: "@/lib",
+  hooks: "@/hooks",
+};
+
+/**
+ * Catalog alias prefixes, longest first so `@/components/ui` wins over `@/components`
+ */
+const ALIAS_KEYS: (keyof ProjectAliases)[] = ["ui", "utils", "components", "lib", "hooks"];
+
+/**
+ * Parse the project configuration sent with a request
+ * @param value - Raw value from the request body
+ * @returns Project configuration, or undefined when missing or malformed
+ */
+export function parseProjectConfig(value: unknown): ProjectConfig | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const parsed = projectConfigSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn(`⚠️  Ignoring invalid projectConfig: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+    return undefined;
+  }
+  return parsed.data;
+}
+
+/**
+ * Strip the `/*` wildcard from a tsconfig path pattern
+ */
+function stripWildcard(pattern: string): string {
+  return pattern.replace(/\/?\*$/, "");
+}
+
+/**
+ * Normalize a tsconfig path target to a project-relative directory
+ * @param target - Path target such as "./src/*"
+ * @param baseUrl - tsconfig baseUrl
+ * @returns Relative directory using forward slashes ("" for the project root)
+ */
+function toProjectPath(target: string, baseUrl = "."): string {
+  const relative = path.posix.normalize(path.posix.join(baseUrl, stripWildcard(target)));
+  return relative === "." ? "" : relative.replace(/^\.\//, "");
+}
+
+/**
+ * Derive aliases from tsconfig paths when the project has no components.json aliases
+ * Handles a root alias (`@/*`, `~/*`) and dedicated aliases such as `#components/*`
+ * @param tsconfig - tsconfig compiler options
+ * @returns Aliases found in the paths mapping
+ */
+function deriveAliasesFromPaths(tsconfig: NonNullable<ProjectConfig["tsconfig"]>): Partial<ProjectAliases> {
+  const entries = Object.entries(tsconfig.paths ?? {})
+    .filter(([pattern, targets]) => pattern.endsWith("/*") && targets.length > 0)
+    .map(([pattern, targets]) => ({ alias: stripWildcard(pattern), target: toProjectPath(targets[0], tsconfig.baseUrl) }));
+
+  const aliases: Partial<ProjectAliases> = {};
+  const sourceRoot = entries.find((entry) => entry.target === "" || entry.target === "src" || entry.target === "app");
+  if (sourceRoot) {
+    aliases.components = `${sourceRoot.alias}/components`;
+    aliases.lib = `${sourceRoot.alias}/lib`;
+    aliases.hooks = `${sourceRoot.alias}/hooks`;
+  }
+
+  for (const key of ["components", "ui", "lib", "hooks"] as const) {
+    const dedicated = entries.find((entry) => path.posix.basename(entry.target) === key && entry.alias !== sourceRoot?.alias);
+    if (dedicated) {
+      aliases[key] = dedicated.alias;
+    }
+  }
+
+  return aliases;
+}
+
+/**
+ * Resolve the aliases a project uses for components, ui, lib, utils and hooks
+ * components.json wins, then tsconfig paths, then the shadcn defaults
+ * @param config - Project configuration
+ * @returns Complete alias set
+ */
+export function resolveAliases(config?: ProjectConfig): ProjectAliases {
+  const configured = { ...(config?.tsconfig ? deriveAliasesFromPaths(config.tsconfig) : {}), ...config?.componentsJson?.aliases };
+
+  const components = configured.components ?? DEFAULT_ALIASES.components;
+  const lib = configured.lib ?? (configured.utils ? path.posix.dirname(configured.utils) : siblingAlias(components, "lib"));
+
+  return {
+    components,
+    ui: configured.ui ?? `${components}/ui`,
+    lib,
+    utils: configured.utils ?? `${lib}/utils`,
+    hooks: configured.hooks ?? siblingAlias(components, "hooks"),
+  };
+}
+
+/**
+ * Derive a sibling alias of the components alias (`~/components` → `~/lib`)
+ * @param components - Components alias
+ * @param name - Sibling directory name
+ * @returns Sibling alias, or the default when the components alias has no parent (e.g. `#components`)
+ */
+function siblingAlias(components: string, name: "lib" | "hooks"): string {
+  return components.endsWith("/components") ? `${components.slice(0, -"components".length)}${name}` : DEFAULT_ALIASES[name];
+}
+
+/**
+ * Rewrite module specifiers that use the catalog's default aliases
+ * Works on import statements, usage snippets and any code containing `from "@/..."` or `import("@/...")`
+ * @param code - Code using the default aliases
+ * @param aliases - Project aliases
+ * @returns Code using the project aliases
+ */
+export function rewriteImportAliases(code: string, aliases: ProjectAliases): string {
+  return code.replace(/(["'])@\/(components\/ui|lib\/utils|components|lib|hooks)(?=["'/])/g, (match: string, quote: string, defaultPath: string) => {
+    const key = ALIAS_KEYS.find((aliasKey) => DEFAULT_ALIASES[aliasKey] === `@/${defaultPath}`);
+    return key ? `${quote}${aliases[key]}` : match;
+  });
+}
+
+/**
+ * Map an aliased module path to a project directory using tsconfig paths
+ * @param modulePath - Module path such as "~/components/ui"
+ * @param tsconfig - tsconfig compiler options
+ * @returns Project-relative directory or null when no path mapping matches
+ */
+export function resolveModulePath(modulePath: string, tsconfig: ProjectConfig["tsconfig"]): string | null {
+  const mappings = Object.entries(tsconfig?.paths ?? {})
+    .filter(([pattern, targets]) => pattern.endsWith("/*") && targets.length > 0)
+    .map(([pattern, targets]) => ({ alias: stripWildcard(pattern), target: toProjectPath(targets[0], tsconfig?.baseUrl) }))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  for (const { alias, target } of mappings) {
+    if (modulePath === alias || modulePath.startsWith(`${alias}/`)) {
+      return path.posix.join(target, modulePath.slice(alias.length)).replace(/^\//, "");
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Determine where a component's files end up in the project
+ * Uses the directory of the component's (rewritten) import path and the project's tsconfig paths
+ * @param component - Catalog component
+ * @param config - Project configuration
+ * @returns Project-relative directory, or null when it cannot be derived from the configuration
+ */
+export function resolveComponentInstallPath(component: ComponentInfo, config?: ProjectConfig): string | null {
+  if (!config) {
+    return null;
+  }
+
+  const specifier = component.importStatement.match(/from\s+["']([^"']+)["']/)?.[1];
+  if (!specifier) {
+    return null;
+  }
+
+  const modulePath = path.posix.dirname(rewriteImportAliases(`"${specifier}"`, resolveAliases(config)).slice(1, -1));
+  return resolveModulePath(modulePath, config.tsconfig);
+}
+
+/**
+ * Rewrite a catalog component's import statement, usage and examples for a project
+ * @param component - Catalog component
+ * @param config - Project configuration
+ * @returns Component with project aliases applied (the original when no configuration is given)
+ */
+export function applyProjectConfig(component: ComponentInfo, config?: ProjectConfig): ComponentInfo {
+  if (!config) {
+    return component;
+  }
+
+  const aliases = resolveAliases(config);
+  return {
+    ...component,
+    importStatement: rewriteImportAliases(component.importStatement, aliases),
+    usage: rewriteImportAliases(component.usage, aliases),
+    examples: component.examples?.map((example) => ({ ...example, code: rewriteImportAliases(example.code, aliases) })),
+  };
+}
+
+/**
+ * Code fence language for snippets shown to the project
+ * @param config - Project configuration
+ * @returns "jsx" for projects with `tsx: false` in components.json, otherwise "tsx"
+ */
+export function getCodeLanguage(config?: ProjectConfig): "tsx" | "jsx" {
+  return config?.componentsJson?.tsx === false ? "jsx" : "tsx";
+}
@@ -0,0 +1,86 @@
+/**
+ * Project inspection utility for SuperUI API Server
+ * Validates project reports sent by the MCP inspect_project scan and matches them against the catalog
+ */
+
+import { z } from "zod";
+import { ComponentInfo } from "./component-catalog.js";
+import { getAllComponents } from "./component-finder.js";
+
+/**
+ * Project report produced by the MCP server's project inspector
+ */
+export const projectInspectionSchema = z.object({
+  framework: z.object({
+    name: z.enum(["next", "vite", "remix", "astro", "unknown"]),
+    router: z.enum(["app", "pages"]).optional(),
+    version: z.string().optional(),
+  }),
+  reactVersion: z.string().optional(),
+  tailwind: z.object({
+    version: z.string().optional(),
+    major: z.union([z.literal(3), z.literal(4)]).optional(),
+    config: z.string().optional(),
+    css: z.string().optional(),
+  }),
+  shadcn: z.object({
+    configured: z.boolean(),
+    style: z.string().optional(),
+    baseColor: z.string().optional(),
+    rsc: z.boolean().optional(),
+    tsx: z.boolean().optional(),
+  }),
+  componentsDirectory: z.string().optional(),
+  componentFiles: z.array(z.string()).default([]),
+});
+
+export type ProjectInspection = z.infer<typeof projectInspectionSchema>;
+
+/**
+ * Parse the project inspection sent with a request
+ * @param value - Raw value from the request body
+ * @returns Project inspection, or undefined when missing or malformed
+ */
+export function parseProjectInspection(value: unknown): ProjectInspection | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const parsed = projectInspectionSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn(`⚠️  Ignoring invalid projectInspection: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+    return undefined;
+  }
+  return parsed.data;
+}
+
+/**
+ * Get a component's module path relative to the components directory (e.g. "ui/button", "ai/actions")
+ * @param component - Catalog component
+ * @returns Relative module path, or null when the component is not imported from a components directory
+ */
+function getComponentModule(component: ComponentInfo): string | null {
+  const specifier = component.importStatement.match(/from\s+["']([^"']+)["']/)?.[1];
+  return specifier?.match(/(?:^|\/)components\/(.+)$/)?.[1] ?? null;
+}
+
+/**
+ * Find catalog components whose files already exist in the project
+ * @param inspection - Project inspection
+ * @returns Names of installed catalog components
+ */
+export function getInstalledComponentNames(inspection?: ProjectInspection): Set<string> {
+  if (!inspection) {
+    return new Set();
+  }
+
+  const files = new Set(inspection.componentFiles);
+  return new Set(
+    getAllComponents()
+      .filter((component) => {
+        const module = getComponentModule(component);
+        return module !== null && files.has(module);
+      })
+      .map((component) => component.componentName)
+  );
+}
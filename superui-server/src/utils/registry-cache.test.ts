@@ -0,0 +1,90 @@
+/**
+ * Behaviour checks for registry cache versioning
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { CachedRegistryItem, getRegistryItemHash, readRegistryItemVersion, readRegistryItemVersions, writeCachedRegistryItem } from "./registry-cache.js";
+
+/**
+ * Build a button registry item
+ * @param content - Source of its only file
+ * @returns Registry item
+ */
+const buttonItem = (content: string): CachedRegistryItem => ({
+  name: "button",
+  type: "registry:ui",
+  files: [{ path: "registry/new-york/ui/button.tsx", type: "registry:ui", content }],
+});
+
+describe("getRegistryItemHash", () => {
+  it("ignores metadata that does not change what is installed", () => {
+    const item = buttonItem("export function Button() {}\n");
+    assert.match(getRegistryItemHash(item), /^[0-9a-f]{16}$/);
+    assert.equal(
+      getRegistryItemHash({ ...item, description: "A button", $schema: "https://ui.shadcn.com/schema/registry-item.json" }),
+      getRegistryItemHash(item)
+    );
+  });
+
+  it("changes with the file contents and dependencies", () => {
+    const item = buttonItem("export function Button() {}\n");
+    assert.notEqual(getRegistryItemHash(buttonItem("export function Button() { return null; }\n")), getRegistryItemHash(item));
+    assert.notEqual(getRegistryItemHash({ ...item, dependencies: ["@radix-ui/react-slot"] }), getRegistryItemHash(item));
+  });
+});
+
+describe("writeCachedRegistryItem", () => {
+  let cacheDirectory: string;
+
+  before(() => {
+    cacheDirectory = mkdtempSync(path.join(tmpdir(), "superui-registry-cache-"));
+    process.env.REGISTRY_CACHE_DIR = cacheDirectory;
+  });
+
+  after(() => {
+    delete process.env.REGISTRY_CACHE_DIR;
+    rmSync(cacheDirectory, { recursive: true, force: true });
+  });
+
+  it("records every distinct content as a version and archives it", async () => {
+    const first = buttonItem("export function Button() {}\n");
+    const second = buttonItem("export function Button() { return null; }\n");
+
+    await writeCachedRegistryItem("button", first, { source: "https://ui.shadcn.com/r/button.json" });
+    await writeCachedRegistryItem("button", first, { source: "https://ui.shadcn.com/r/button.json" });
+    await writeCachedRegistryItem("button", second);
+
+    const versions = await readRegistryItemVersions("button");
+    assert.deepEqual(
+      versions.map(({ hash }) => hash),
+      [getRegistryItemHash(first), getRegistryItemHash(second)]
+    );
+    assert.equal(versions[0].source, "https://ui.shadcn.com/r/button.json");
+    assert.deepEqual(await readRegistryItemVersion("button", getRegistryItemHash(first)), first);
+  });
+
+  it("labels unchanged content with the first revision it is synced under, and records it again under a new one", async () => {
+    const item = buttonItem("export function Button() { return null; }\n");
+
+    await writeCachedRegistryItem("button", item, { revision: "v1" });
+    await writeCachedRegistryItem("button", item, { revision: "v2" });
+
+    const versions = await readRegistryItemVersions("button");
+    assert.deepEqual(
+      versions.slice(1).map(({ hash, revision }) => ({ hash, revision })),
+      [
+        { hash: getRegistryItemHash(item), revision: "v1" },
+        { hash: getRegistryItemHash(item), revision: "v2" },
+      ]
+    );
+  });
+
+  it("has no versions for items that were never cached", async () => {
+    assert.deepEqual(await readRegistryItemVersions("card"), []);
+    assert.equal(await readRegistryItemVersion("card", "0123456789abcdef"), null);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Registry cache utility for SuperUI API Server
+ * Reads and writes shadcn registry items (with file contents) kept on disk for offline installs
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+
+/**
+ * Default registry cache directory (superui-server/data/registry-cache)
+ */
+export const DEFAULT_REGISTRY_CACHE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../data/registry-cache");
+
+/**
+ * Directory inside the cache that keeps every recorded version of an item (`.versions/<key>/<hash>.json`)
+ */
+export const REGISTRY_VERSIONS_DIR = ".versions";
+
+/**
+ * Registry item as served by `<registry>/r/<item>.json`, with the source of every file inlined
+ * Only the fields SuperUI uses are validated; anything else is kept as-is
+ */
+export const cachedRegistryItemSchema = z
+  .object({
+    name: z.string().min(1),
+    type: z.string().min(1),
+    dependencies: z.array(z.string()).optional(),
+    registryDependencies: z.array(z.string()).optional(),
+    files: z.array(
+      z
+        .object({
+          path: z.string().min(1),
+          type: z.string().min(1),
+          target: z.string().optional(),
+          content: z.string(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export type CachedRegistryItem = z.infer<typeof cachedRegistryItemSchema>;
+
+export type CachedRegistryFile = CachedRegistryItem["files"][number];
+
+export interface RegistryItemVersion {
+  /** Content hash from getRegistryItemHash */
+  hash: string;
+  /** Source revision the item was taken from (e.g. a registry release or commit), when known */
+  revision?: string;
+  /** URL, file or tarball the item was imported from */
+  source?: string;
+  recordedAt: string;
+}
+
+/**
+ * Where a cached item came from
+ */
+export interface RegistryItemOrigin {
+  revision?: string;
+  source?: string;
+}
+
+const registryItemVersionsSchema = z.array(
+  z.object({
+    hash: z.string().min(1),
+    revision: z.string().optional(),
+    source: z.string().optional(),
+    recordedAt: z.string(),
+  })
+);
+
+/**
+ * Get the registry cache directory
+ * @returns REGISTRY_CACHE_DIR or the default cache directory
+ */
+export function getRegistryCacheDir(): string {
+  return path.resolve(process.env.REGISTRY_CACHE_DIR || DEFAULT_REGISTRY_CACHE_DIR);
+}
+
+/**
+ * Get the cache key of a `shadcn add` target
+ * Item URLs and local item files are keyed by file name, namespaced items keep their namespace as a directory
+ * @param target - Registry item name, `@namespace/item`, URL or path to an item file
+ * @returns Cache key (e.g. "button", "@tailark/hero-section-1", "ai"), or null when the target cannot be cached
+ */
+export function getRegistryItemKey(target: string): string | null {
+  const itemPath = /^https?:\/\//.test(target) ? new URL(target).pathname : target;
+  const key = target.startsWith("@") ? target : path.posix.basename(itemPath.replace(/\\/g, "/"));
+  const name = key.replace(/\.json$/, "");
+  return /^(@[\w-]+\/)?[\w-][\w.-]*$/.test(name) ? name : null;
+}
+
+/**
+ * Hash the installable content of a registry item
+ * Only the fields that change what `shadcn add` writes are hashed, so reformatting or metadata edits keep the hash
+ * @param item - Registry item with file contents
+ * @returns First 16 hex characters of the SHA-256 hash
+ */
+export function getRegistryItemHash(item: CachedRegistryItem): string {
+  const content = {
+    name: item.name,
+    type: item.type,
+    dependencies: item.dependencies ?? [],
+    registryDependencies: item.registryDependencies ?? [],
+    files: item.files.map((file) => ({ path: file.path, type: file.type, target: file.target ?? null, content: file.content })),
+  };
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Write a file atomically
+ * @param filePath - Destination path
+ * @param data - JSON-serializable data
+ */
+async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`);
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Read and validate a cached registry item file
+ * @param filePath - Item file
+ * @returns Cached item, or null when the file does not exist
+ * @throws Error if the file is not a valid registry item
+ */
+async function readRegistryItemFile(filePath: string): Promise<CachedRegistryItem | null> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const parsed = cachedRegistryItemSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Invalid cached registry item ${filePath}: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Read a registry item from the cache
+ * @param key - Cache key from getRegistryItemKey
+ * @returns Cached item, or null when it is not cached
+ * @throws Error if the cached file is not a valid registry item
+ */
+export async function readCachedRegistryItem(key: string): Promise<CachedRegistryItem | null> {
+  return readRegistryItemFile(path.join(getRegistryCacheDir(), `${key}.json`));
+}
+
+/**
+ * Read the recorded versions of a cached item
+ * @param key - Cache key from getRegistryItemKey
+ * @returns Versions, oldest first; empty when no version was recorded
+ */
+export async function readRegistryItemVersions(key: string): Promise<RegistryItemVersion[]> {
+  const filePath = path.join(getRegistryCacheDir(), REGISTRY_VERSIONS_DIR, key, "versions.json");
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const parsed = registryItemVersionsSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Invalid version list ${filePath}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Read a recorded version of a cached item
+ * @param key - Cache key from getRegistryItemKey
+ * @param hash - Version hash
+ * @returns Item at that version, or null when the version was not recorded
+ */
+export async function readRegistryItemVersion(key: string, hash: string): Promise<CachedRegistryItem | null> {
+  if (!/^[0-9a-f]+$/.test(hash)) {
+    return null;
+  }
+  return readRegistryItemFile(path.join(getRegistryCacheDir(), REGISTRY_VERSIONS_DIR, key, `${hash}.json`));
+}
+
+/**
+ * Write a registry item to the cache atomically and record its version
+ * Every distinct content is archived under `.versions/<key>/`, so earlier versions can still be diffed and installed
+ * @param key - Cache key from getRegistryItemKey
+ * @param item - Registry item with file contents
+ * @param origin - Revision and source the item was taken from
+ * @returns Path of the cached file
+ */
+export async function writeCachedRegistryItem(key: string, item: CachedRegistryItem, origin: RegistryItemOrigin = {}): Promise<string> {
+  const filePath = path.join(getRegistryCacheDir(), `${key}.json`);
+  const versionsDir = path.join(getRegistryCacheDir(), REGISTRY_VERSIONS_DIR, key);
+  const hash = getRegistryItemHash(item);
+  const versions = await readRegistryItemVersions(key);
+  const latest = versions[versions.length - 1];
+
+  // Unchanged content is recorded again only under a new revision label, so every revision resolves to its version
+  if (latest?.hash === hash && origin.revision && !latest.revision) {
+    latest.revision = origin.revision;
+    await writeJsonFile(path.join(versionsDir, "versions.json"), versions);
+  } else if (latest?.hash !== hash || (origin.revision && origin.revision !== latest.revision)) {
+    await writeJsonFile(path.join(versionsDir, `${hash}.json`), item);
+    versions.push({ hash, ...origin, recordedAt: new Date().toISOString() });
+    await writeJsonFile(path.join(versionsDir, "versions.json"), versions);
+  }
+
+  await writeJsonFile(filePath, item);
+  return filePath;
+}
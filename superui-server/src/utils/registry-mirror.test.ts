@@ -0,0 +1,79 @@
+/**
+ * Behaviour checks for the registry mirror index and its install targets
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { CachedRegistryItem, getRegistryItemHash, writeCachedRegistryItem } from "./registry-cache.js";
+import { refreshMirrorIndex, resolveItemVersion, resolveMirrorTarget, resolvePinnedMirrorTarget } from "./registry-mirror.js";
+
+/**
+ * Build a button registry item
+ * @param content - Source of its only file
+ * @returns Registry item
+ */
+const buttonItem = (content: string): CachedRegistryItem => ({
+  name: "button",
+  type: "registry:ui",
+  files: [{ path: "registry/new-york/ui/button.tsx", type: "registry:ui", content }],
+});
+
+const OLD_BUTTON = buttonItem("export function Button() {}\n");
+const NEW_BUTTON = buttonItem('export function Button() {\n  return "button";\n}\n');
+
+describe("registry mirror", () => {
+  let cacheDirectory: string;
+
+  before(async () => {
+    cacheDirectory = mkdtempSync(path.join(tmpdir(), "superui-registry-mirror-"));
+    process.env.REGISTRY_CACHE_DIR = cacheDirectory;
+    process.env.REGISTRY_MIRROR_URL = "http://mirror.test/r";
+    await writeCachedRegistryItem("button", OLD_BUTTON, { revision: "v1" });
+    await writeCachedRegistryItem("button", NEW_BUTTON, { revision: "v2" });
+    await writeCachedRegistryItem("@acme/spinner", { name: "spinner", type: "registry:ui", files: [] });
+  });
+
+  after(() => {
+    delete process.env.REGISTRY_CACHE_DIR;
+    delete process.env.REGISTRY_MIRROR_URL;
+    delete process.env.REGISTRY_MIRROR;
+    rmSync(cacheDirectory, { recursive: true, force: true });
+  });
+
+  it("indexes plain and namespaced items in the cache directory", async () => {
+    const status = await refreshMirrorIndex();
+    assert.equal(status.itemCount, 2);
+    assert.equal(status.directory, path.resolve(cacheDirectory));
+  });
+
+  it("resolves the current version, revision labels and hash prefixes", () => {
+    const oldHash = getRegistryItemHash(OLD_BUTTON);
+    const newHash = getRegistryItemHash(NEW_BUTTON);
+
+    assert.equal(resolveItemVersion("button", "current")?.hash, newHash);
+    assert.equal(resolveItemVersion("button", "v1")?.hash, oldHash);
+    assert.equal(resolveItemVersion("button", oldHash.slice(0, 7))?.revision, "v1");
+    assert.equal(resolveItemVersion("button", oldHash.slice(0, 6)), null);
+    assert.equal(resolveItemVersion("button", "v3"), null);
+    assert.equal(resolveItemVersion("card", "current"), null);
+  });
+
+  it("points targets at mirrored items only in mirror mode", () => {
+    delete process.env.REGISTRY_MIRROR;
+    assert.equal(resolveMirrorTarget("button"), "button");
+
+    process.env.REGISTRY_MIRROR = "true";
+    assert.equal(resolveMirrorTarget("https://ui.shadcn.com/r/styles/new-york-v4/button.json"), "http://mirror.test/r/button.json");
+    assert.equal(resolveMirrorTarget("@acme/spinner"), "http://mirror.test/r/@acme/spinner.json");
+    assert.equal(resolveMirrorTarget("card"), "card");
+  });
+
+  it("points pinned targets at the recorded version whether or not mirror mode is on", () => {
+    delete process.env.REGISTRY_MIRROR;
+    assert.equal(resolvePinnedMirrorTarget("button", "v1"), `http://mirror.test/r/versions/${getRegistryItemHash(OLD_BUTTON)}/button.json`);
+    assert.equal(resolvePinnedMirrorTarget("button", "v3"), null);
+  });
+});
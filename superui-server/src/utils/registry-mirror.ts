@@ -0,0 +1,202 @@
+/**
+ * Registry mirror utility for SuperUI API Server
+ * Tracks the items of the local registry mirror (the registry cache directory) and their recorded versions,
+ * and points install targets at it in mirror mode or when a registry revision is pinned
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import {
+  getRegistryCacheDir,
+  getRegistryItemHash,
+  getRegistryItemKey,
+  readCachedRegistryItem,
+  readRegistryItemVersions,
+  RegistryItemVersion,
+} from "./registry-cache.js";
+
+export interface RegistryMirrorStatus {
+  /** True when REGISTRY_MIRROR=true: install commands use the mirror */
+  enabled: boolean;
+  directory: string;
+  /** Base URL of the mirrored items (`<baseUrl>/<item>.json`) */
+  baseUrl: string;
+  itemCount: number;
+  refreshedAt?: string;
+}
+
+export interface MirroredItem {
+  key: string;
+  /** Hash of the item currently in the mirror */
+  currentHash: string;
+  /** Recorded versions, oldest first; the current version is always included */
+  versions: RegistryItemVersion[];
+}
+
+/** Revision names that address the current version of an item */
+const CURRENT_REVISIONS = new Set(["current", "latest"]);
+
+/** Shortest hash prefix accepted as a revision */
+const MIN_HASH_PREFIX = 7;
+
+let mirrorItems = new Map<string, MirroredItem>();
+let refreshedAt: string | undefined;
+
+/**
+ * Check whether mirror mode is enabled
+ * @returns True when REGISTRY_MIRROR is "true"
+ */
+export function isMirrorEnabled(): boolean {
+  return process.env.REGISTRY_MIRROR === "true";
+}
+
+/**
+ * Get the base URL the mirror is served from
+ * @returns REGISTRY_MIRROR_URL, or the `/r` path of this server's public URL
+ */
+export function getMirrorBaseUrl(): string {
+  const publicUrl = (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, "");
+  return (process.env.REGISTRY_MIRROR_URL || `${publicUrl}/r`).replace(/\/$/, "");
+}
+
+/**
+ * List the items in a mirror directory
+ * Items are `<name>.json` files, namespaced items `@namespace/<name>.json`
+ * @param directory - Mirror directory
+ * @returns Item keys, empty when the directory does not exist
+ */
+async function listMirrorItems(directory: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const keys: string[] = [];
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name.endsWith(".json")) {
+      keys.push(entry.name.slice(0, -".json".length));
+    } else if (entry.isDirectory() && entry.name.startsWith("@")) {
+      const namespaced = await readdir(path.join(directory, entry.name));
+      keys.push(...namespaced.filter((name) => name.endsWith(".json")).map((name) => `${entry.name}/${name.slice(0, -".json".length)}`));
+    }
+  }
+  return keys.filter((key) => getRegistryItemKey(key) === key);
+}
+
+/**
+ * Load an item and its version history
+ * Items cached before versions were recorded get a single version dated from the file
+ * @param key - Item key
+ * @returns Mirrored item, or null when the file is not a valid registry item
+ */
+async function loadMirroredItem(key: string): Promise<MirroredItem | null> {
+  let item;
+  try {
+    item = await readCachedRegistryItem(key);
+  } catch (error) {
+    console.warn(`⚠️ Ignoring mirrored item ${key}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+  if (!item) {
+    return null;
+  }
+
+  const currentHash = getRegistryItemHash(item);
+  const versions = await readRegistryItemVersions(key);
+  if (!versions.some((version) => version.hash === currentHash)) {
+    const { mtime } = await stat(path.join(getRegistryCacheDir(), `${key}.json`));
+    versions.push({ hash: currentHash, recordedAt: mtime.toISOString() });
+  }
+  return { key, currentHash, versions };
+}
+
+/**
+ * Re-read the mirror directory
+ * @returns Mirror status after the refresh
+ */
+export async function refreshMirrorIndex(): Promise<RegistryMirrorStatus> {
+  const items = new Map<string, MirroredItem>();
+  for (const key of await listMirrorItems(getRegistryCacheDir())) {
+    const item = await loadMirroredItem(key);
+    if (item) {
+      items.set(key, item);
+    }
+  }
+  mirrorItems = items;
+  refreshedAt = new Date().toISOString();
+  return getMirrorStatus();
+}
+
+/**
+ * Get the mirror status
+ * @returns Mirror mode, location and item count
+ */
+export function getMirrorStatus(): RegistryMirrorStatus {
+  return {
+    enabled: isMirrorEnabled(),
+    directory: getRegistryCacheDir(),
+    baseUrl: getMirrorBaseUrl(),
+    itemCount: mirrorItems.size,
+    refreshedAt,
+  };
+}
+
+/**
+ * Get a mirrored item with its versions
+ * @param key - Item key from getRegistryItemKey
+ * @returns Mirrored item, or undefined when it is not mirrored
+ */
+export function getMirroredItem(key: string): MirroredItem | undefined {
+  return mirrorItems.get(key);
+}
+
+/**
+ * Find the version of a mirrored item a revision refers to
+ * @param key - Item key from getRegistryItemKey
+ * @param revision - "current", a recorded revision label or a hash (prefix of at least 7 characters)
+ * @returns Matching version (the most recent one when a label was recorded several times), or null
+ */
+export function resolveItemVersion(key: string, revision: string): RegistryItemVersion | null {
+  const item = mirrorItems.get(key);
+  if (!item) {
+    return null;
+  }
+
+  const matches = CURRENT_REVISIONS.has(revision)
+    ? item.versions.filter((version) => version.hash === item.currentHash)
+    : item.versions.filter(
+        (version) => version.revision === revision || (revision.length >= MIN_HASH_PREFIX && version.hash.startsWith(revision.toLowerCase()))
+      );
+  return matches[matches.length - 1] ?? null;
+}
+
+/**
+ * Point a `shadcn add` target at the mirror
+ * @param target - Registry item name, `@namespace/item`, URL or path to an item file
+ * @returns Mirror URL of the item in mirror mode when the item is mirrored, otherwise the target unchanged
+ */
+export function resolveMirrorTarget(target: string): string {
+  if (!isMirrorEnabled()) {
+    return target;
+  }
+  const key = getRegistryItemKey(target);
+  return key && mirrorItems.has(key) ? `${getMirrorBaseUrl()}/${key}.json` : target;
+}
+
+/**
+ * Point a `shadcn add` target at a pinned version in the mirror
+ * Registries only serve their latest items, so pinned versions are always added from the mirror, whether or not mirror mode is enabled
+ * @param target - Registry item name, `@namespace/item`, URL or path to an item file
+ * @param revision - Registry revision (see resolveItemVersion)
+ * @returns Mirror URL of the pinned version, or null when the item has no version at that revision
+ */
+export function resolvePinnedMirrorTarget(target: string, revision: string): string | null {
+  const key = getRegistryItemKey(target);
+  const version = key ? resolveItemVersion(key, revision) : null;
+  return key && version ? `${getMirrorBaseUrl()}/versions/${version.hash}/${key}.json` : null;
+}
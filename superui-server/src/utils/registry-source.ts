@@ -0,0 +1,236 @@
+/**
+ * Registry source utility for SuperUI API Server
+ * Converts shadcn-style registry.json indexes into catalog entries
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { ComponentInfo, componentInfoSchema } from "./component-catalog.js";
+import { formatShadcnAddCommand } from "./package-manager.js";
+
+/**
+ * Registry item as described by https://ui.shadcn.com/schema/registry-item.json
+ * Only the fields SuperUI uses are validated; anything else is ignored
+ */
+const registryItemSchema = z.object({
+  name: z.string().min(1),
+  type: z.string().min(1),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
+  registryDependencies: z.array(z.string()).optional(),
+  files: z
+    .array(
+      z.object({
+        path: z.string().min(1),
+        type: z.string().optional(),
+        target: z.string().optional(),
+      })
+    )
+    .optional(),
+  categories: z.array(z.string()).optional(),
+});
+
+/**
+ * Registry index as described by https://ui.shadcn.com/schema/registry.json
+ */
+const registryIndexSchema = z.object({
+  name: z.string().min(1),
+  homepage: z.string().optional(),
+  items: z.array(z.unknown()),
+});
+
+type RegistryItem = z.infer<typeof registryItemSchema>;
+
+/**
+ * Registry source configuration (one entry of registries.json)
+ */
+export const registrySourceConfigSchema = z
+  .object({
+    name: z.string().min(1),
+    source: z.string().min(1),
+    baseUrl: z.string().url().optional(),
+    library: z.string().min(1).optional(),
+    prefix: z.string().optional(),
+    category: z.string().min(1).optional(),
+    documentationUrl: z.string().optional(),
+  })
+  .strict();
+
+export type RegistrySourceConfig = z.infer<typeof registrySourceConfigSchema>;
+
+export const registryConfigSchema = z.object({ registries: z.array(registrySourceConfigSchema) }).strict();
+
+/**
+ * Item types that are installable on their own and therefore become catalog entries
+ */
+const COMPONENT_ITEM_TYPES = ["registry:ui", "registry:component", "registry:block", "registry:hook", "registry:lib"];
+
+/**
+ * Resolve a registry source to its index file
+ * A source may point at a registry.json file or at a mirrored directory that contains one
+ * @param source - File or directory path
+ * @returns Absolute path of the registry index
+ */
+async function resolveIndexPath(source: string): Promise<string> {
+  const absoluteSource = path.resolve(source);
+  const stats = await stat(absoluteSource);
+  return stats.isDirectory() ? path.join(absoluteSource, "registry.json") : absoluteSource;
+}
+
+/**
+ * Convert a kebab-case name to PascalCase
+ * @param name - Kebab-case name
+ * @returns PascalCase name
+ */
+function toPascalCase(name: string): string {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+/**
+ * Build the import statement for a registry item from its type and first file
+ * @param item - Registry item
+ * @returns Import statement using the default shadcn aliases
+ */
+function buildImportStatement(item: RegistryItem): string {
+  const fileName = path.basename(item.files?.[0]?.path ?? item.name).replace(/\.(tsx?|jsx?)$/, "");
+
+  if (item.type === "registry:hook") {
+    const hookName = toPascalCase(item.name).replace(/^Use/, "use");
+    return `import { ${hookName} } from "@/hooks/${fileName}"`;
+  }
+
+  if (item.type === "registry:lib") {
+    return `import * as ${toPascalCase(item.name).replace(/^./, (c) => c.toLowerCase())} from "@/lib/${fileName}"`;
+  }
+
+  const directory = item.type === "registry:ui" ? "@/components/ui" : "@/components";
+  return `import { ${toPascalCase(item.name)} } from "${directory}/${fileName}"`;
+}
+
+/**
+ * Build the usage example for a registry item
+ * @param item - Registry item
+ * @returns Usage snippet
+ */
+function buildUsage(item: RegistryItem): string {
+  if (item.type === "registry:hook") {
+    return `const value = ${toPascalCase(item.name).replace(/^Use/, "use")}()`;
+  }
+  if (item.type === "registry:lib") {
+    return `// See ${item.name} exports`;
+  }
+  return `<${toPascalCase(item.name)} />`;
+}
+
+/**
+ * Determine the install URL for a single registry item
+ * Prefers the configured base URL, then a local item file next to the index, then the registry homepage
+ * @param config - Registry source configuration
+ * @param indexPath - Path of the registry index
+ * @param homepage - Registry homepage from the index
+ * @param itemName - Registry item name
+ * @returns URL or local path accepted by `shadcn add`
+ */
+async function resolveItemUrl(config: RegistrySourceConfig, indexPath: string, homepage: string | undefined, itemName: string): Promise<string> {
+  if (config.baseUrl) {
+    return `${config.baseUrl.replace(/\/$/, "")}/${itemName}.json`;
+  }
+
+  const indexDirectory = path.dirname(indexPath);
+  for (const candidate of [path.join(indexDirectory, "r", `${itemName}.json`), path.join(indexDirectory, `${itemName}.json`)]) {
+    try {
+      await stat(candidate);
+      return candidate;
+    } catch {
+      // Not mirrored locally, try the next location
+    }
+  }
+
+  if (homepage) {
+    return `${homepage.replace(/\/$/, "")}/r/${itemName}.json`;
+  }
+
+  throw new Error(`Cannot determine install URL for "${itemName}": set "baseUrl" for registry "${config.name}"`);
+}
+
+/**
+ * Load a registry index and convert its items into catalog entries
+ * @param config - Registry source configuration
+ * @returns Validated catalog entries generated from the registry
+ * @throws Error listing every invalid item
+ */
+export async function loadRegistryComponents(config: RegistrySourceConfig): Promise<ComponentInfo[]> {
+  const indexPath = await resolveIndexPath(config.source);
+  const parsedIndex = registryIndexSchema.safeParse(JSON.parse(await readFile(indexPath, "utf-8")));
+
+  if (!parsedIndex.success) {
+    throw new Error(`Invalid registry index ${indexPath}: ${parsedIndex.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+
+  const { name: registryName, homepage, items } = parsedIndex.data;
+  const library = config.library ?? config.name;
+  const components: ComponentInfo[] = [];
+  const problems: string[] = [];
+
+  // Dependencies on sibling items must follow the configured prefix
+  const prefix = config.prefix ?? "";
+  const siblingNames = new Set(items.map((rawItem) => (rawItem as { name?: unknown }).name).filter((name): name is string => typeof name === "string"));
+  const toComponentName = (name: string) => (siblingNames.has(name) ? `${prefix}${name}` : name);
+
+  for (const [index, rawItem] of items.entries()) {
+    const parsedItem = registryItemSchema.safeParse(rawItem);
+    if (!parsedItem.success) {
+      problems.push(`items[${index}]: ${parsedItem.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+      continue;
+    }
+
+    const item = parsedItem.data;
+    if (!COMPONENT_ITEM_TYPES.includes(item.type)) {
+      continue;
+    }
+
+    const url = await resolveItemUrl(config, indexPath, homepage, item.name);
+    const displayName = item.title ?? toPascalCase(item.name).replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+    const candidate = {
+      componentName: toComponentName(item.name),
+      displayName,
+      packageName: registryName,
+      importStatement: buildImportStatement(item),
+      usage: buildUsage(item),
+      description: item.description ?? `${displayName} from the ${registryName} registry`,
+      category: config.category ?? item.categories?.[0] ?? item.type.replace(/^registry:/, ""),
+      tags: Array.from(new Set([...item.name.split("-"), ...(item.categories ?? []), library].map((tag) => tag.toLowerCase()))),
+      registryDependencies: (item.registryDependencies ?? []).map(toComponentName),
+      dependencies: item.dependencies ?? [],
+      library,
+      installCommand: formatShadcnAddCommand([url]),
+      documentationUrl: config.documentationUrl?.replace("{name}", item.name) ?? homepage,
+      registry: {
+        name: registryName,
+        item: item.name,
+        url,
+        files: (item.files ?? []).map((file) => file.path),
+      },
+    };
+
+    const parsedComponent = componentInfoSchema.safeParse(candidate);
+    if (!parsedComponent.success) {
+      problems.push(`${item.name}: ${parsedComponent.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+      continue;
+    }
+
+    components.push(parsedComponent.data);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid items in registry "${config.name}" (${indexPath}):\n  - ${problems.join("\n  - ")}`);
+  }
+
+  return components;
+}
@@ -0,0 +1,54 @@
+/**
+ * Behaviour checks for the search evaluation metrics and the labeled query fixture
+ */
+
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { loadSearchEvalBaseline, loadSearchEvalSet } from "../services/search-eval-service.js";
+import { initializeSynonyms } from "../services/synonym-service.js";
+import { initializeCatalog } from "./component-catalog.js";
+import { diffSearchEval, runSearchEval, scoreRanking } from "./search-eval.js";
+
+before(async () => {
+  await initializeCatalog();
+  await initializeSynonyms();
+});
+
+describe("scoreRanking", () => {
+  it("scores a ranking with the only relevant component first as perfect", () => {
+    assert.deepEqual(scoreRanking(["button", "badge"], ["button"]), { mrr: 1, recallAt5: 1, ndcg: 1 });
+  });
+
+  it("discounts relevant components found further down", () => {
+    const metrics = scoreRanking(["badge", "button"], ["button"]);
+    assert.equal(metrics.mrr, 0.5);
+    assert.equal(metrics.recallAt5, 1);
+    assert.ok(Math.abs(metrics.ndcg - 1 / Math.log2(3)) < 1e-9);
+  });
+
+  it("counts relevant components outside the top five as missed for recall", () => {
+    const metrics = scoreRanking(["a", "b", "c", "d", "e", "button"], ["button", "badge"]);
+    assert.equal(metrics.mrr, 1 / 6);
+    assert.equal(metrics.recallAt5, 0);
+  });
+
+  it("scores a ranking without relevant components as zero", () => {
+    assert.deepEqual(scoreRanking(["badge"], ["button"]), { mrr: 0, recallAt5: 0, ndcg: 0 });
+  });
+});
+
+describe("search evaluation fixture", () => {
+  it("does not regress against the saved baseline", async () => {
+    const baseline = await loadSearchEvalBaseline();
+    assert.ok(baseline, "search-eval.baseline.json is missing");
+
+    const report = await runSearchEval(await loadSearchEvalSet(), "lexical");
+    const diff = diffSearchEval(report, baseline);
+
+    assert.equal(report.summary.queries, baseline.summary.queries);
+    assert.deepEqual(
+      diff.regressions.map((regression) => regression.query),
+      []
+    );
+  });
+});
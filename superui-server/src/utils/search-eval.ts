@@ -0,0 +1,229 @@
+/**
+ * Search quality evaluation for SuperUI API Server
+ * Runs labeled queries through ranked search and scores the rankings with MRR, recall@5 and nDCG@10
+ */
+
+import { z } from "zod";
+import { searchComponentsRanked } from "./component-finder.js";
+import { getSemanticUnavailableReason, SearchMode } from "./semantic-index.js";
+
+/** Results considered for reciprocal rank and nDCG */
+export const EVAL_DEPTH = 10;
+
+/** Cutoff for recall */
+export const RECALL_CUTOFF = 5;
+
+/** Metric changes smaller than this are rounding noise */
+const METRIC_TOLERANCE = 0.001;
+
+/**
+ * Labeled queries: each query lists the components a good search should return
+ */
+export const searchEvalSetSchema = z.object({
+  queries: z
+    .array(
+      z
+        .object({
+          query: z.string().trim().min(1),
+          expected: z.array(z.string().trim().min(1)).min(1),
+        })
+        .strict()
+    )
+    .min(1),
+});
+
+export type SearchEvalSet = z.infer<typeof searchEvalSetSchema>;
+
+const metricsSchema = z.object({
+  mrr: z.number(),
+  recallAt5: z.number(),
+  ndcg: z.number(),
+});
+
+export type SearchMetrics = z.infer<typeof metricsSchema>;
+
+const queryResultSchema = z.object({
+  query: z.string(),
+  expected: z.array(z.string()),
+  /** Top results, best first */
+  results: z.array(z.string()),
+  /** Rank of the first expected component, null when none is in the top results */
+  firstRelevantRank: z.number().nullable(),
+  /** Expected components missing from the top results */
+  missing: z.array(z.string()),
+  metrics: metricsSchema,
+});
+
+export type SearchEvalQueryResult = z.infer<typeof queryResultSchema>;
+
+/**
+ * Evaluation report; a saved report is the baseline later runs are compared with
+ */
+export const searchEvalReportSchema = z.object({
+  mode: z.string(),
+  warning: z.string().optional(),
+  /** Mean of every query's metrics */
+  summary: metricsSchema.extend({ queries: z.number() }),
+  queries: z.array(queryResultSchema),
+  timestamp: z.string(),
+});
+
+export type SearchEvalReport = z.infer<typeof searchEvalReportSchema>;
+
+export interface SearchEvalQueryChange {
+  query: string;
+  /** Metric deltas (current minus baseline) */
+  delta: SearchMetrics;
+  baselineResults: string[];
+  results: string[];
+}
+
+export interface SearchEvalDiff {
+  baselineTimestamp: string;
+  baselineMode: string;
+  /** Summary deltas (current minus baseline) */
+  summary: SearchMetrics;
+  regressions: SearchEvalQueryChange[];
+  improvements: SearchEvalQueryChange[];
+  /** Queries with no baseline entry */
+  newQueries: string[];
+  /** Baseline queries no longer in the evaluation set */
+  removedQueries: string[];
+}
+
+/**
+ * Round a metric for reports
+ * @param value - Raw metric
+ * @returns Metric with three decimals
+ */
+function roundMetric(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Score one ranking against its expected components (binary relevance)
+ * @param results - Ranked component names, best first
+ * @param expected - Relevant component names
+ * @returns Reciprocal rank and nDCG over the top EVAL_DEPTH results, recall over the top RECALL_CUTOFF
+ */
+export function scoreRanking(results: string[], expected: string[]): SearchMetrics {
+  const relevant = new Set(expected);
+  const ranked = results.slice(0, EVAL_DEPTH);
+
+  const firstRelevant = ranked.findIndex((name) => relevant.has(name));
+  const recalled = ranked.slice(0, RECALL_CUTOFF).filter((name) => relevant.has(name)).length;
+
+  const dcg = ranked.reduce((sum, name, index) => sum + (relevant.has(name) ? 1 / Math.log2(index + 2) : 0), 0);
+  let idealDcg = 0;
+  for (let index = 0; index < Math.min(relevant.size, EVAL_DEPTH); index++) {
+    idealDcg += 1 / Math.log2(index + 2);
+  }
+
+  return {
+    mrr: firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1),
+    recallAt5: recalled / relevant.size,
+    ndcg: dcg / idealDcg,
+  };
+}
+
+/**
+ * Average metrics over queries
+ * @param metrics - Metrics of every query
+ * @returns Rounded means
+ */
+function averageMetrics(metrics: SearchMetrics[]): SearchMetrics {
+  const mean = (key: keyof SearchMetrics): number => roundMetric(metrics.reduce((sum, value) => sum + value[key], 0) / (metrics.length || 1));
+  return { mrr: mean("mrr"), recallAt5: mean("recallAt5"), ndcg: mean("ndcg") };
+}
+
+/**
+ * Run every labeled query through ranked search and score the results
+ * @param evalSet - Labeled queries
+ * @param mode - Ranking mode; semantic and hybrid fall back to lexical without the embedding model
+ * @returns Evaluation report
+ */
+export async function runSearchEval(evalSet: SearchEvalSet, mode: SearchMode = "lexical"): Promise<SearchEvalReport> {
+  const semanticUnavailable = mode !== "lexical" ? getSemanticUnavailableReason() : null;
+
+  const queries: SearchEvalQueryResult[] = [];
+  for (const { query, expected } of evalSet.queries) {
+    const ranked = await searchComponentsRanked(query, {}, EVAL_DEPTH, mode);
+    const results = ranked.map(({ component }) => component.componentName);
+    const metrics = scoreRanking(results, expected);
+    const firstRelevant = results.findIndex((name) => expected.includes(name));
+
+    queries.push({
+      query,
+      expected,
+      results,
+      firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+      missing: expected.filter((name) => !results.includes(name)),
+      metrics: { mrr: roundMetric(metrics.mrr), recallAt5: roundMetric(metrics.recallAt5), ndcg: roundMetric(metrics.ndcg) },
+    });
+  }
+
+  return {
+    mode: semanticUnavailable ? "lexical" : mode,
+    warning: semanticUnavailable ? `${mode} search unavailable, used lexical ranking: ${semanticUnavailable}` : undefined,
+    summary: { queries: queries.length, ...averageMetrics(queries.map((result) => result.metrics)) },
+    queries,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Subtract baseline metrics from current ones
+ * @param current - Current metrics
+ * @param baseline - Baseline metrics
+ * @returns Rounded deltas
+ */
+function subtractMetrics(current: SearchMetrics, baseline: SearchMetrics): SearchMetrics {
+  return {
+    mrr: roundMetric(current.mrr - baseline.mrr),
+    recallAt5: roundMetric(current.recallAt5 - baseline.recallAt5),
+    ndcg: roundMetric(current.ndcg - baseline.ndcg),
+  };
+}
+
+/**
+ * Compare a report with a saved baseline
+ * A query regresses when any metric dropped and improves when none dropped and at least one rose
+ * @param report - Current report
+ * @param baseline - Saved baseline report
+ * @returns Summary deltas and the queries whose metrics changed
+ */
+export function diffSearchEval(report: SearchEvalReport, baseline: SearchEvalReport): SearchEvalDiff {
+  const baselineQueries = new Map(baseline.queries.map((result) => [result.query, result]));
+  const currentQueries = new Set(report.queries.map((result) => result.query));
+
+  const regressions: SearchEvalQueryChange[] = [];
+  const improvements: SearchEvalQueryChange[] = [];
+  const newQueries: string[] = [];
+
+  for (const result of report.queries) {
+    const previous = baselineQueries.get(result.query);
+    if (!previous) {
+      newQueries.push(result.query);
+      continue;
+    }
+
+    const delta = subtractMetrics(result.metrics, previous.metrics);
+    const change = { query: result.query, delta, baselineResults: previous.results, results: result.results };
+    const values = Object.values(delta);
+    if (values.some((value) => value < -METRIC_TOLERANCE)) {
+      regressions.push(change);
+    } else if (values.some((value) => value > METRIC_TOLERANCE)) {
+      improvements.push(change);
+    }
+  }
+
+  return {
+    baselineTimestamp: baseline.timestamp,
+    baselineMode: baseline.mode,
+    summary: subtractMetrics(report.summary, baseline.summary),
+    regressions,
+    improvements,
+    newQueries,
+    removedQueries: baseline.queries.map((result) => result.query).filter((query) => !currentQueries.has(query)),
+  };
+}
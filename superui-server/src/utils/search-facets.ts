@@ -0,0 +1,109 @@
+/**
+ * Search facets for SuperUI API Server
+ * Filters components by category, library, tags and install command, and counts facet values
+ */
+
+import { z } from "zod";
+import { ComponentInfo } from "./component-catalog.js";
+
+/**
+ * Library reported for built-in shadcn/ui components, which carry no library field
+ */
+export const DEFAULT_LIBRARY = "shadcn-ui";
+
+const stringList = z.array(z.string().trim().min(1));
+
+/**
+ * Facet filters accepted by component listings
+ * Values within a facet are alternatives (any category), facets combine (category and library)
+ */
+export const searchFiltersSchema = z.object({
+  categories: stringList.optional(),
+  libraries: stringList.optional(),
+  /** Components must carry every one of these tags */
+  tags: stringList.optional(),
+  /** Components must carry none of these tags */
+  excludeTags: stringList.optional(),
+  hasInstallCommand: z.boolean().optional(),
+});
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+
+export interface FacetCounts {
+  categories: Record<string, number>;
+  libraries: Record<string, number>;
+  tags: Record<string, number>;
+  hasInstallCommand: { true: number; false: number };
+}
+
+/**
+ * Get the library a component belongs to
+ * @param component - Catalog component
+ * @returns Library name
+ */
+export function getComponentLibrary(component: ComponentInfo): string {
+  return component.library ?? DEFAULT_LIBRARY;
+}
+
+/**
+ * Check whether a component passes the facet filters
+ * @param component - Catalog component
+ * @param filters - Facet filters
+ * @returns True if every set facet matches
+ */
+export function matchesFilters(component: ComponentInfo, filters: SearchFilters): boolean {
+  const { categories, libraries, tags, excludeTags, hasInstallCommand } = filters;
+  const componentTags = new Set(component.tags.map((tag) => tag.toLowerCase()));
+
+  return (
+    (!categories?.length || categories.includes(component.category)) &&
+    (!libraries?.length || libraries.includes(getComponentLibrary(component))) &&
+    (!tags?.length || tags.every((tag) => componentTags.has(tag.toLowerCase()))) &&
+    (!excludeTags?.length || !excludeTags.some((tag) => componentTags.has(tag.toLowerCase()))) &&
+    (hasInstallCommand === undefined || Boolean(component.installCommand) === hasInstallCommand)
+  );
+}
+
+/**
+ * Check whether any facet filter is set
+ * @param filters - Facet filters
+ * @returns True if at least one filter narrows the results
+ */
+export function hasFilters(filters: SearchFilters): boolean {
+  return Object.values(filters).some((value) => (Array.isArray(value) ? value.length > 0 : value !== undefined));
+}
+
+/**
+ * Count the values of every facet in a result set
+ * @param components - Matching components (before the result limit)
+ * @returns Counts per category, library, tag and install command presence, most frequent first
+ */
+export function countFacets(components: ComponentInfo[]): FacetCounts {
+  const categories = new Map<string, number>();
+  const libraries = new Map<string, number>();
+  const tags = new Map<string, number>();
+  const hasInstallCommand = { true: 0, false: 0 };
+
+  const increment = (counts: Map<string, number>, key: string): void => {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  };
+
+  for (const component of components) {
+    increment(categories, component.category);
+    increment(libraries, getComponentLibrary(component));
+    for (const tag of new Set(component.tags.map((value) => value.toLowerCase()))) {
+      increment(tags, tag);
+    }
+    hasInstallCommand[component.installCommand ? "true" : "false"]++;
+  }
+
+  const sorted = (counts: Map<string, number>): Record<string, number> =>
+    Object.fromEntries([...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])));
+
+  return {
+    categories: sorted(categories),
+    libraries: sorted(libraries),
+    tags: sorted(tags),
+    hasInstallCommand,
+  };
+}
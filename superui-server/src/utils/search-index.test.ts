@@ -0,0 +1,85 @@
+/**
+ * Behaviour checks for BM25 ranking, typo tolerance and the component search fallback
+ */
+
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { initializeSynonyms } from "../services/synonym-service.js";
+import { initializeCatalog } from "./component-catalog.js";
+import { searchComponents } from "./component-finder.js";
+import { findClosestComponent, suggestComponents } from "./fuzzy-match.js";
+import { rankComponents } from "./search-index.js";
+
+before(async () => {
+  await initializeCatalog();
+  await initializeSynonyms();
+});
+
+describe("rankComponents", () => {
+  it("ranks the component named by the query first", () => {
+    const [first] = rankComponents("button");
+    assert.equal(first.component.componentName, "button");
+  });
+
+  it("returns components best first with positive scores", () => {
+    const scores = rankComponents("animated button").map((result) => result.score);
+    assert.ok(scores.length > 1);
+    assert.ok(scores.every((score) => score > 0));
+    assert.deepEqual(
+      scores,
+      [...scores].sort((a, b) => b - a)
+    );
+  });
+
+  it("matches misspelled query terms", () => {
+    const [first] = rankComponents("acordion", undefined, true);
+    assert.equal(first.component.componentName, "accordion");
+    assert.ok(first.explanation?.contributions.some((contribution) => contribution.match === "fuzzy"));
+  });
+
+  it("explains a score as the sum of its contributions", () => {
+    for (const result of rankComponents("date picker", undefined, true)) {
+      const total = result.explanation?.contributions.reduce((sum, contribution) => sum + contribution.score, 0) ?? 0;
+      assert.ok(Math.abs(total - result.score) < 0.01, `${result.component.componentName}: ${total} != ${result.score}`);
+    }
+  });
+
+  it("only ranks components accepted by the filter", () => {
+    const results = rankComponents("button", (component) => component.category === "ai");
+    assert.ok(results.every((result) => result.component.category === "ai"));
+  });
+
+  it("returns nothing for text that matches no component", () => {
+    assert.deepEqual(rankComponents("xyzzy"), []);
+  });
+});
+
+describe("fuzzy matching", () => {
+  it("finds the component a misspelled name refers to", () => {
+    assert.equal(findClosestComponent("acordion")?.componentName, "accordion");
+    assert.equal(findClosestComponent("glowbutton")?.componentName, "glow-button");
+  });
+
+  it("suggests similar names, most similar first", () => {
+    const suggestions = suggestComponents("tabel");
+    assert.ok(suggestions.some((suggestion) => suggestion.componentName === "table"));
+    assert.deepEqual(
+      suggestions.map((suggestion) => suggestion.similarity),
+      suggestions.map((suggestion) => suggestion.similarity).sort((a, b) => b - a)
+    );
+  });
+
+  it("finds nothing for unrelated text", () => {
+    assert.equal(findClosestComponent("xyzzy"), null);
+  });
+});
+
+describe("searchComponents", () => {
+  it("returns substring matches", () => {
+    assert.ok(searchComponents("button").some((component) => component.componentName === "glow-button"));
+  });
+
+  it("falls back to the typo-tolerant ranking when nothing contains the query", () => {
+    assert.equal(searchComponents("acordion")[0]?.componentName, "accordion");
+  });
+});
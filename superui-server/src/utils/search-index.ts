@@ -0,0 +1,361 @@
+/**
+ * Search index for SuperUI API Server
+ * Field-weighted BM25 (BM25F) over an inverted index of the component catalog
+ */
+
+import { CatalogSnapshot, ComponentInfo, getCatalog, onCatalogChange } from "./component-catalog.js";
+import { editDistance } from "./fuzzy-match.js";
+import { findSynonyms } from "./synonyms.js";
+import { tokenize } from "./text-analysis.js";
+
+export const SEARCH_FIELDS = ["name", "displayName", "tags", "description", "usage"] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+type FieldCounts = Record<SearchField, number>;
+
+/**
+ * Relative importance of a term occurrence in each field
+ */
+export const FIELD_WEIGHTS: FieldCounts = {
+  name: 4,
+  displayName: 3,
+  tags: 2.5,
+  description: 1,
+  usage: 0.3,
+};
+
+/**
+ * Length normalization per field; an exact name match outranks longer names containing the term
+ */
+const FIELD_LENGTH_NORMALIZATION: FieldCounts = {
+  name: 0.75,
+  displayName: 0.5,
+  tags: 0.5,
+  description: 0.75,
+  usage: 0.75,
+};
+
+/** BM25 term-frequency saturation */
+const K1 = 1.2;
+
+/** Weight of vocabulary terms matched only by prefix (e.g. "acc" → "accordion") */
+const PREFIX_MATCH_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+
+/** Weight of vocabulary terms matched only by edit distance (e.g. "acordion" → "accordion") */
+const FUZZY_MATCH_WEIGHT = 0.4;
+const MIN_FUZZY_LENGTH = 4;
+
+/** Added when the whole query, or a synonym it contains, is the component's name or display name */
+const EXACT_NAME_BONUS = 2;
+
+/** Weight of terms added by synonym expansion ("modal window" → "dialog") */
+const SYNONYM_WEIGHT = 0.8;
+
+/**
+ * One rule's share of a component's score
+ * bm25: a query term found in a field; exact-name / synonym-name: the query or a synonym names the component;
+ * semantic: embedding similarity (hybrid ranking scales both sides by their blend weight);
+ * substring: a plain substring match that adds nothing to the score (GET /api/component/search only)
+ */
+export interface ScoreContribution {
+  rule: "bm25" | "exact-name" | "synonym-name" | "semantic" | "substring";
+  score: number;
+  field?: SearchField;
+  /** Indexed term that matched */
+  term?: string;
+  /** Analyzed query term or synonym phrase the term came from */
+  queryTerm?: string;
+  /** How the query word reached the indexed term */
+  match?: TermMatch["match"];
+}
+
+export interface ScoreExplanation {
+  matchedFields: SearchField[];
+  matchedTerms: string[];
+  /** Contributions sum to the score */
+  contributions: ScoreContribution[];
+}
+
+export interface RankedComponent {
+  component: ComponentInfo;
+  score: number;
+  /** Present when an explanation was requested */
+  explanation?: ScoreExplanation;
+}
+
+interface TermMatch {
+  weight: number;
+  match: "exact" | "prefix" | "fuzzy" | "synonym";
+  queryTerm: string;
+}
+
+interface IndexedDocument {
+  component: ComponentInfo;
+  lengths: FieldCounts;
+}
+
+interface Posting {
+  document: number;
+  frequencies: FieldCounts;
+}
+
+interface SearchIndex {
+  catalog: CatalogSnapshot;
+  documents: IndexedDocument[];
+  postings: Map<string, Posting[]>;
+  averageLengths: FieldCounts;
+}
+
+let currentIndex: SearchIndex | null = null;
+
+/**
+ * Create a zeroed per-field counter
+ * @returns Counts for every search field
+ */
+function emptyCounts(): FieldCounts {
+  return { name: 0, displayName: 0, tags: 0, description: 0, usage: 0 };
+}
+
+/**
+ * Get the text indexed for each field of a component
+ * @param component - Catalog component
+ * @returns Field texts
+ */
+function getFieldTexts(component: ComponentInfo): Record<SearchField, string> {
+  return {
+    name: component.componentName,
+    displayName: component.displayName,
+    tags: component.tags.join(" "),
+    description: component.description,
+    usage: component.usage,
+  };
+}
+
+/**
+ * Build the inverted index for a catalog
+ * @param catalog - Catalog snapshot
+ * @returns Search index
+ */
+function buildSearchIndex(catalog: CatalogSnapshot): SearchIndex {
+  const documents: IndexedDocument[] = [];
+  const postings = new Map<string, Posting[]>();
+  const totalLengths = emptyCounts();
+
+  for (const component of catalog.components.values()) {
+    const document = documents.length;
+    const lengths = emptyCounts();
+    const frequencies = new Map<string, FieldCounts>();
+
+    for (const [field, text] of Object.entries(getFieldTexts(component)) as Array<[SearchField, string]>) {
+      const terms = tokenize(text);
+      lengths[field] = terms.length;
+      totalLengths[field] += terms.length;
+
+      for (const term of terms) {
+        const counts = frequencies.get(term) ?? emptyCounts();
+        counts[field] += 1;
+        frequencies.set(term, counts);
+      }
+    }
+
+    for (const [term, counts] of frequencies) {
+      const termPostings = postings.get(term) ?? [];
+      termPostings.push({ document, frequencies: counts });
+      postings.set(term, termPostings);
+    }
+
+    documents.push({ component, lengths });
+  }
+
+  const averageLengths = emptyCounts();
+  for (const field of SEARCH_FIELDS) {
+    averageLengths[field] = documents.length > 0 ? totalLengths[field] / documents.length : 0;
+  }
+
+  console.log(`🗂️ Built search index: ${documents.length} components, ${postings.size} terms`);
+  return { catalog, documents, postings, averageLengths };
+}
+
+/**
+ * Get the search index for the active catalog, building it if the catalog changed
+ * @returns Current search index
+ */
+function getSearchIndex(): SearchIndex {
+  const catalog = getCatalog();
+  if (!currentIndex || currentIndex.catalog !== catalog) {
+    currentIndex = buildSearchIndex(catalog);
+  }
+  return currentIndex;
+}
+
+// Rebuild eagerly whenever the catalog is loaded, reloaded or extended by a registry
+onCatalogChange((catalog) => {
+  currentIndex = buildSearchIndex(catalog);
+});
+
+/**
+ * Get the number of typos tolerated for a query term
+ * @param term - Query term
+ * @returns Maximum edit distance
+ */
+function getMaxTypos(term: string): number {
+  return term.length >= 8 ? 2 : 1;
+}
+
+/**
+ * Expand query terms to the indexed terms they match
+ * Terms missing from the vocabulary fall back to prefix matches, then to typo-tolerant matches, at reduced weights
+ * @param index - Search index
+ * @param terms - Query terms
+ * @returns Indexed terms with their query weight and how they were matched
+ */
+function expandQueryTerms(index: SearchIndex, terms: string[]): Map<string, TermMatch> {
+  const expanded = new Map<string, TermMatch>();
+  const add = (term: string, match: TermMatch): void => {
+    if ((expanded.get(term)?.weight ?? 0) < match.weight) {
+      expanded.set(term, match);
+    }
+  };
+
+  for (const term of new Set(terms)) {
+    if (index.postings.has(term)) {
+      add(term, { weight: 1, match: "exact", queryTerm: term });
+      continue;
+    }
+
+    let matched = false;
+    if (term.length >= MIN_PREFIX_LENGTH) {
+      for (const candidate of index.postings.keys()) {
+        if (candidate.startsWith(term)) {
+          add(candidate, { weight: PREFIX_MATCH_WEIGHT, match: "prefix", queryTerm: term });
+          matched = true;
+        }
+      }
+    }
+
+    if (!matched && term.length >= MIN_FUZZY_LENGTH) {
+      const maxTypos = getMaxTypos(term);
+      for (const candidate of index.postings.keys()) {
+        const distance = editDistance(term, candidate, maxTypos);
+        if (distance <= maxTypos) {
+          add(candidate, { weight: FUZZY_MATCH_WEIGHT / distance, match: "fuzzy", queryTerm: term });
+        }
+      }
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Round a score for responses
+ * @param score - Raw score
+ * @returns Score with three decimals
+ */
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Rank catalog components against a query with field-weighted BM25
+ * The query is expanded with the synonym dictionary before scoring
+ * @param query - Free-text query
+ * @param filter - Optional predicate limiting which components are ranked
+ * @param explain - Attach the matched fields, matched terms and per-rule score contributions to each result
+ * @returns Components with a positive score, best first
+ */
+export function rankComponents(query: string, filter?: (component: ComponentInfo) => boolean, explain = false): RankedComponent[] {
+  const index = getSearchIndex();
+  const scores = new Map<number, number>();
+  const contributions = new Map<number, ScoreContribution[]>();
+  const documentCount = index.documents.length;
+
+  const addScore = (document: number, contribution: ScoreContribution): void => {
+    scores.set(document, (scores.get(document) ?? 0) + contribution.score);
+    if (explain) {
+      contributions.set(document, [...(contributions.get(document) ?? []), contribution]);
+    }
+  };
+
+  const normalizedQuery = query.toLowerCase().trim();
+  const synonymMatches = findSynonyms(query);
+
+  const queryTerms = expandQueryTerms(index, tokenize(query));
+  for (const { phrase, expansions } of synonymMatches) {
+    for (const [term, match] of expandQueryTerms(index, expansions.flatMap(tokenize))) {
+      const weight = match.weight * SYNONYM_WEIGHT;
+      if ((queryTerms.get(term)?.weight ?? 0) < weight) {
+        queryTerms.set(term, { weight, match: "synonym", queryTerm: phrase });
+      }
+    }
+  }
+
+  for (const [term, { weight: queryWeight, match, queryTerm }] of queryTerms) {
+    const termPostings = index.postings.get(term) ?? [];
+    const idf = Math.log(1 + (documentCount - termPostings.length + 0.5) / (termPostings.length + 0.5));
+
+    for (const { document, frequencies } of termPostings) {
+      const { component, lengths } = index.documents[document];
+      if (filter && !filter(component)) {
+        continue;
+      }
+
+      // BM25F: combine length-normalized field frequencies before saturation
+      const fieldFrequencies = SEARCH_FIELDS.filter((field) => frequencies[field] > 0).map((field) => {
+        const b = FIELD_LENGTH_NORMALIZATION[field];
+        const averageLength = index.averageLengths[field] || 1;
+        return { field, frequency: (FIELD_WEIGHTS[field] * frequencies[field]) / (1 - b + (b * lengths[field]) / averageLength) };
+      });
+      const weightedFrequency = fieldFrequencies.reduce((sum, { frequency }) => sum + frequency, 0);
+      const termScore = queryWeight * idf * ((weightedFrequency * (K1 + 1)) / (weightedFrequency + K1));
+
+      // Each field gets the share of the term score its weighted frequency contributed
+      for (const { field, frequency } of fieldFrequencies) {
+        addScore(document, { rule: "bm25", field, term, queryTerm, match, score: (termScore * frequency) / weightedFrequency });
+      }
+    }
+  }
+
+  // Longer synonym phrases are more specific: "chat input" beats "chat"
+  const nameBonuses = new Map<string, ScoreContribution>([[normalizedQuery, { rule: "exact-name", queryTerm: normalizedQuery, score: EXACT_NAME_BONUS }]]);
+  for (const { phrase, expansions } of synonymMatches) {
+    const bonus = EXACT_NAME_BONUS * tokenize(phrase).length;
+    for (const expansion of expansions) {
+      if ((nameBonuses.get(expansion)?.score ?? 0) < bonus) {
+        nameBonuses.set(expansion, { rule: "synonym-name", queryTerm: phrase, score: bonus });
+      }
+    }
+  }
+
+  index.documents.forEach(({ component }, document) => {
+    const nameBonus = nameBonuses.get(component.componentName);
+    const displayNameBonus = nameBonuses.get(component.displayName.toLowerCase());
+    const bonus = (nameBonus?.score ?? 0) >= (displayNameBonus?.score ?? 0) ? nameBonus : displayNameBonus;
+    if (scores.has(document) && bonus) {
+      addScore(document, bonus);
+    }
+  });
+
+  return Array.from(scores.entries())
+    .map(([document, score]) => ({
+      component: index.documents[document].component,
+      score: roundScore(score),
+      explanation: explain ? summarizeContributions(contributions.get(document) ?? []) : undefined,
+    }))
+    .sort((a, b) => b.score - a.score || a.component.componentName.localeCompare(b.component.componentName));
+}
+
+/**
+ * Build an explanation from raw score contributions
+ * @param contributions - Contributions in the order they were added
+ * @returns Matched fields, matched terms and rounded contributions, largest first
+ */
+export function summarizeContributions(contributions: ScoreContribution[]): ScoreExplanation {
+  return {
+    matchedFields: SEARCH_FIELDS.filter((field) => contributions.some((contribution) => contribution.field === field)),
+    matchedTerms: [...new Set(contributions.flatMap((contribution) => (contribution.term ? [contribution.term] : [])))],
+    contributions: contributions.map((contribution) => ({ ...contribution, score: roundScore(contribution.score) })).sort((a, b) => b.score - a.score),
+  };
+}
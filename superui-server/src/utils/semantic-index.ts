@@ -0,0 +1,256 @@
+/**
+ * Semantic search index for SuperUI API Server
+ * Embeds every component with a small local sentence-embedding model (CPU only, no network at runtime)
+ */
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import { CatalogSnapshot, ComponentInfo, getCatalog, onCatalogChange } from "./component-catalog.js";
+import { RankedComponent, ScoreContribution, summarizeContributions } from "./search-index.js";
+
+export const SEARCH_MODES = ["lexical", "semantic", "hybrid"] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+/**
+ * Default model directory (superui-server/models), filled by `npm run model:download`
+ */
+export const DEFAULT_MODEL_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../models");
+
+/**
+ * Sentence-embedding model: 384 dimensions, ~23 MB quantized, fast on a single CPU core
+ */
+export const EMBEDDING_MODEL = process.env.SEMANTIC_MODEL || "Xenova/all-MiniLM-L6-v2";
+
+/** Components less similar than this are not semantic matches */
+const MIN_SEMANTIC_SIMILARITY = 0.3;
+
+/** Share of the (normalized) lexical score in hybrid ranking */
+const HYBRID_LEXICAL_WEIGHT = 0.5;
+
+/** Query embeddings kept in memory */
+const QUERY_CACHE_SIZE = 200;
+
+/**
+ * `pipeline` narrowed to the one task used here (its generic signature is too complex for the compiler)
+ */
+export type CreateFeatureExtractor = (task: "feature-extraction", model: string, options: { dtype: "q8" }) => Promise<FeatureExtractionPipeline>;
+
+interface SemanticIndex {
+  catalog: CatalogSnapshot;
+  embeddings: Map<string, number[]>;
+}
+
+let extractor: FeatureExtractionPipeline | null = null;
+let currentIndex: SemanticIndex | null = null;
+let pendingBuild: Promise<void> | null = null;
+let unavailableReason = "Semantic search has not been initialized";
+
+/** Embeddings by indexed text, so a catalog reload only embeds changed components */
+const textEmbeddings = new Map<string, number[]>();
+const queryEmbeddings = new Map<string, number[]>();
+
+/**
+ * Parse the search mode sent with a request
+ * @param value - Raw value from the request body
+ * @returns Search mode, or undefined when missing or unknown
+ */
+export function parseSearchMode(value: unknown): SearchMode | undefined {
+  return SEARCH_MODES.find((mode) => mode === value);
+}
+
+/**
+ * Get the text embedded for a component
+ * @param component - Catalog component
+ * @returns Display name, description, tags and usage
+ */
+function getEmbeddingText(component: ComponentInfo): string {
+  return `${component.displayName}. ${component.description}. ${component.tags.join(", ")}. ${component.usage}`;
+}
+
+/**
+ * Embed texts with the loaded model
+ * @param texts - Texts to embed
+ * @returns Normalized, mean-pooled embeddings
+ */
+async function embed(texts: string[]): Promise<number[][]> {
+  if (!extractor) {
+    throw new Error(unavailableReason);
+  }
+  const output = await extractor(texts, { pooling: "mean", normalize: true });
+  return output.tolist() as number[][];
+}
+
+/**
+ * Embed every component of a catalog, reusing embeddings of unchanged texts
+ * @param catalog - Catalog snapshot
+ */
+async function buildSemanticIndex(catalog: CatalogSnapshot): Promise<void> {
+  const components = Array.from(catalog.components.values());
+  const missingTexts = [...new Set(components.map(getEmbeddingText).filter((text) => !textEmbeddings.has(text)))];
+
+  if (missingTexts.length > 0) {
+    const vectors = await embed(missingTexts);
+    missingTexts.forEach((text, index) => textEmbeddings.set(text, vectors[index]));
+  }
+
+  // A newer catalog may have been installed while this one was embedding
+  if (getCatalog() !== catalog) {
+    return;
+  }
+
+  const embeddings = new Map(components.map((component) => [component.componentName, textEmbeddings.get(getEmbeddingText(component)) ?? []]));
+  currentIndex = { catalog, embeddings };
+  console.log(`🧠 Built semantic index: ${embeddings.size} components (${missingTexts.length} embedded)`);
+}
+
+/**
+ * Rebuild the semantic index in the background, one build at a time
+ * @param catalog - Catalog snapshot
+ * @returns Promise settled when the build finishes
+ */
+function scheduleBuild(catalog: CatalogSnapshot): Promise<void> {
+  const build = (pendingBuild ?? Promise.resolve())
+    .then(() => buildSemanticIndex(catalog))
+    .catch((error: unknown) => {
+      console.error("❌ Semantic index build failed:", error instanceof Error ? error.message : error);
+    });
+  pendingBuild = build;
+  return build;
+}
+
+/**
+ * Load the local embedding model and embed the catalog
+ * Remote downloads are disabled: the model must already be in the model directory.
+ * Failure is not fatal; semantic and hybrid searches then fall back to lexical ranking.
+ * @param modelDir - Directory holding the model (defaults to SEMANTIC_MODEL_DIR or models/)
+ * @returns True if semantic search is available
+ */
+export async function initializeSemanticSearch(modelDir = process.env.SEMANTIC_MODEL_DIR || DEFAULT_MODEL_DIR): Promise<boolean> {
+  try {
+    const { env, pipeline } = await import("@huggingface/transformers");
+    env.allowRemoteModels = false;
+    env.localModelPath = modelDir;
+
+    extractor = await (pipeline as CreateFeatureExtractor)("feature-extraction", EMBEDDING_MODEL, { dtype: "q8" });
+    unavailableReason = "Semantic index is still being built";
+  } catch (error) {
+    unavailableReason = `Embedding model ${EMBEDDING_MODEL} is not available in ${modelDir} (run \`npm run model:download\`): ${error instanceof Error ? error.message : "Unknown error"}`;
+    console.warn(`⚠️ Semantic search disabled. ${unavailableReason}`);
+    return false;
+  }
+
+  onCatalogChange((catalog) => {
+    void scheduleBuild(catalog);
+  });
+  await scheduleBuild(getCatalog());
+  return currentIndex !== null;
+}
+
+/**
+ * Check whether semantic ranking can be used
+ * @returns Null when available, otherwise the reason it is not
+ */
+export function getSemanticUnavailableReason(): string | null {
+  return currentIndex ? null : unavailableReason;
+}
+
+/**
+ * Embed a query, with a small cache for repeated searches
+ * @param query - Search query
+ * @returns Query embedding
+ */
+async function embedQuery(query: string): Promise<number[]> {
+  const key = query.toLowerCase().trim();
+  const cached = queryEmbeddings.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const [vector] = await embed([key]);
+  if (queryEmbeddings.size >= QUERY_CACHE_SIZE) {
+    queryEmbeddings.delete(queryEmbeddings.keys().next().value as string);
+  }
+  queryEmbeddings.set(key, vector);
+  return vector;
+}
+
+/**
+ * Compute the dot product of two normalized vectors (their cosine similarity)
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Cosine similarity
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Rank catalog components by embedding similarity to a query
+ * @param query - Free-text query
+ * @param filter - Optional predicate limiting which components are ranked
+ * @param explain - Attach a semantic score contribution to each result
+ * @returns Components above the similarity threshold, best first, scored by cosine similarity
+ * @throws Error if semantic search is unavailable
+ */
+export async function rankComponentsSemantic(query: string, filter?: (component: ComponentInfo) => boolean, explain = false): Promise<RankedComponent[]> {
+  if (!currentIndex) {
+    throw new Error(unavailableReason);
+  }
+
+  const { catalog, embeddings } = currentIndex;
+  const queryVector = await embedQuery(query);
+
+  return Array.from(catalog.components.values())
+    .filter((component) => !filter || filter(component))
+    .map((component) => {
+      const score = Math.round(cosineSimilarity(queryVector, embeddings.get(component.componentName) ?? []) * 1000) / 1000;
+      return { component, score, explanation: explain ? summarizeContributions([{ rule: "semantic", score }]) : undefined };
+    })
+    .filter(({ score }) => score >= MIN_SEMANTIC_SIMILARITY)
+    .sort((a, b) => b.score - a.score || a.component.componentName.localeCompare(b.component.componentName));
+}
+
+/**
+ * Blend lexical and semantic rankings into one hybrid ranking
+ * Lexical scores are scaled to 0–1 by the best lexical score; semantic scores are already cosine similarities
+ * @param lexical - BM25 ranking
+ * @param semantic - Embedding ranking
+ * @param lexicalWeight - Share of the lexical score in the blend
+ * @returns Hybrid ranking, best first
+ */
+export function blendRankings(lexical: RankedComponent[], semantic: RankedComponent[], lexicalWeight = HYBRID_LEXICAL_WEIGHT): RankedComponent[] {
+  const maxLexicalScore = Math.max(0, ...lexical.map(({ score }) => score)) || 1;
+  const blended = new Map<string, { component: ComponentInfo; score: number; contributions?: ScoreContribution[] }>();
+
+  // Explanations are rescaled with their scores so contributions still sum to the blended score
+  const scale = (ranked: RankedComponent, factor: number): ScoreContribution[] | undefined =>
+    ranked.explanation?.contributions.map((contribution) => ({ ...contribution, score: contribution.score * factor }));
+
+  for (const ranked of lexical) {
+    const factor = lexicalWeight / maxLexicalScore;
+    blended.set(ranked.component.componentName, { component: ranked.component, score: ranked.score * factor, contributions: scale(ranked, factor) });
+  }
+  for (const ranked of semantic) {
+    const previous = blended.get(ranked.component.componentName);
+    const contributions = scale(ranked, 1 - lexicalWeight);
+    blended.set(ranked.component.componentName, {
+      component: ranked.component,
+      score: (previous?.score ?? 0) + (1 - lexicalWeight) * ranked.score,
+      contributions: previous?.contributions || contributions ? [...(previous?.contributions ?? []), ...(contributions ?? [])] : undefined,
+    });
+  }
+
+  return Array.from(blended.values())
+    .map(({ component, score, contributions }) => ({
+      component,
+      score: Math.round(score * 1000) / 1000,
+      explanation: contributions ? summarizeContributions(contributions) : undefined,
+    }))
+    .sort((a, b) => b.score - a.score || a.component.componentName.localeCompare(b.component.componentName));
+}
@@ -0,0 +1,93 @@
+/**
+ * Synonym dictionary for SuperUI API Server
+ * Maps words and phrases ("modal window", "chat input") to the component names or terms they stand for
+ */
+
+import { z } from "zod";
+import { tokenize } from "./text-analysis.js";
+
+/**
+ * A dictionary maps a word or phrase to one or more expansions (component names or search terms)
+ */
+export const synonymDictionarySchema = z.record(z.string().trim().min(1), z.array(z.string().trim().min(1)).min(1));
+
+export type SynonymDictionary = z.infer<typeof synonymDictionarySchema>;
+
+export interface SynonymMatch {
+  phrase: string;
+  expansions: string[];
+}
+
+interface SynonymEntry extends SynonymMatch {
+  terms: string[];
+}
+
+let entries: SynonymEntry[] = [];
+
+/**
+ * Normalize a dictionary key
+ * @param phrase - Word or phrase
+ * @returns Lowercase phrase with single spaces
+ */
+export function normalizePhrase(phrase: string): string {
+  return phrase.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Replace the active synonym dictionary
+ * @param dictionary - Phrases and their expansions
+ */
+export function setSynonyms(dictionary: SynonymDictionary): void {
+  entries = Object.entries(dictionary)
+    .map(([phrase, expansions]) => ({
+      phrase: normalizePhrase(phrase),
+      expansions: expansions.map((expansion) => expansion.toLowerCase()),
+      terms: tokenize(phrase),
+    }))
+    .filter((entry) => entry.terms.length > 0);
+}
+
+/**
+ * Get the active synonym dictionary
+ * @returns Phrases and their expansions, sorted by phrase
+ */
+export function getSynonyms(): SynonymDictionary {
+  return Object.fromEntries([...entries].sort((a, b) => a.phrase.localeCompare(b.phrase)).map((entry) => [entry.phrase, entry.expansions]));
+}
+
+/**
+ * Check whether a term sequence occurs in a query
+ * @param queryTerms - Tokenized query
+ * @param phraseTerms - Tokenized phrase
+ * @returns True if the phrase terms appear contiguously
+ */
+function containsPhrase(queryTerms: string[], phraseTerms: string[]): boolean {
+  for (let start = 0; start + phraseTerms.length <= queryTerms.length; start++) {
+    if (phraseTerms.every((term, offset) => queryTerms[start + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find every dictionary phrase contained in a query
+ * Matching runs on analyzed terms, so "Modal windows" matches "modal window"
+ * @param query - Search query
+ * @returns Matched phrases with their expansions
+ */
+export function findSynonyms(query: string): SynonymMatch[] {
+  const queryTerms = tokenize(query);
+  return entries.filter((entry) => containsPhrase(queryTerms, entry.terms)).map(({ phrase, expansions }) => ({ phrase, expansions }));
+}
+
+/**
+ * Get the expansions of a query that is exactly one dictionary phrase
+ * @param query - Search query
+ * @returns Expansions, or an empty array when the query is not a dictionary phrase
+ */
+export function resolveSynonym(query: string): string[] {
+  const queryTerms = tokenize(query);
+  const entry = entries.find((candidate) => candidate.terms.length === queryTerms.length && containsPhrase(queryTerms, candidate.terms));
+  return entry ? entry.expansions : [];
+}
@@ -0,0 +1,149 @@
+/**
+ * Text analysis utility for SuperUI API Server
+ * Tokenization, stop-word removal and stemming shared by the search index and synonym matching
+ */
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "i",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "me",
+  "my",
+  "need",
+  "of",
+  "on",
+  "or",
+  "some",
+  "that",
+  "the",
+  "this",
+  "to",
+  "want",
+  "was",
+  "we",
+  "with",
+  "you",
+  "your",
+  // JSX and module syntax that appears in every usage snippet
+  "classname",
+  "const",
+  "default",
+  "div",
+  "export",
+  "function",
+  "import",
+  "return",
+]);
+
+/**
+ * Check whether a character is a vowel
+ * @param word - Word to inspect
+ * @param index - Character position
+ * @returns True for a, e, i, o, u (and y after a consonant)
+ */
+function isVowel(word: string, index: number): boolean {
+  const char = word[index];
+  return "aeiou".includes(char) || (char === "y" && index > 0 && !isVowel(word, index - 1));
+}
+
+/**
+ * Check whether a stem still contains a vowel
+ * @param stem - Candidate stem
+ * @returns True if any character is a vowel
+ */
+function hasVowel(stem: string): boolean {
+  return stem.split("").some((_char, index) => isVowel(stem, index));
+}
+
+/**
+ * Reduce a word to its stem with a light Porter-style suffix stripper
+ * Good enough to conflate "animated", "animation" and "animations" or "buttons" and "button"
+ * @param word - Lowercase word
+ * @returns Stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+
+  // Plurals
+  if (result.endsWith("sses")) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith("ies")) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith("s") && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  // -ed / -ing, undoubling the final consonant ("scrolling" → "scroll", "running" → "run")
+  const verbSuffix = result.match(/(ing|ed)$/)?.[0];
+  if (verbSuffix && result.length - verbSuffix.length >= 3 && hasVowel(result.slice(0, -verbSuffix.length))) {
+    result = result.slice(0, -verbSuffix.length);
+    if (/([^aeiouylsz])\1$/.test(result)) {
+      result = result.slice(0, -1);
+    }
+  }
+
+  // Derivational suffixes
+  const derivations: Array<[string, string]> = [
+    ["ational", "ate"],
+    ["ization", "ize"],
+    ["ation", "ate"],
+    ["fulness", "ful"],
+    ["iveness", "ive"],
+    ["ness", ""],
+    ["ment", ""],
+    ["ful", ""],
+    ["ive", ""],
+    ["ly", ""],
+    ["ion", ""],
+  ];
+  for (const [suffix, replacement] of derivations) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      const candidate = `${result.slice(0, -suffix.length)}${replacement}`;
+      if (hasVowel(candidate)) {
+        result = candidate;
+        break;
+      }
+    }
+  }
+
+  // Final "e" ("animate" → "animat", matching "animated" → "animat")
+  if (result.endsWith("e") && result.length > 4) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Split text into normalized search terms
+ * Splits camelCase and kebab-case, lowercases, drops stop words and stems
+ * @param text - Text to tokenize
+ * @returns Terms in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
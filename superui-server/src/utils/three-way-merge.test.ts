@@ -0,0 +1,54 @@
+/**
+ * Behaviour checks for merging local and upstream edits
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeThreeWay } from "./three-way-merge.js";
+
+const base = "import a\nconst x = 1\nconst y = 2\nconst z = 3\nexport { x }\n";
+
+describe("mergeThreeWay", () => {
+  it("applies edits to separate regions from both sides", () => {
+    const local = base.replace("import a", "import a, { b }");
+    const upstream = base.replace("export { x }", "export { x, y }");
+
+    assert.deepEqual(mergeThreeWay(base, local, upstream), {
+      merged: "import a, { b }\nconst x = 1\nconst y = 2\nconst z = 3\nexport { x, y }\n",
+      conflicts: 0,
+    });
+  });
+
+  it("takes the upstream version when there are no local edits", () => {
+    const upstream = `${base}export default x\n`;
+    assert.deepEqual(mergeThreeWay(base, base, upstream), { merged: upstream, conflicts: 0 });
+  });
+
+  it("keeps local edits when upstream did not change", () => {
+    const local = base.replace("const y = 2", "const y = 20");
+    assert.deepEqual(mergeThreeWay(base, local, base), { merged: local, conflicts: 0 });
+  });
+
+  it("accepts identical edits on both sides", () => {
+    const edited = base.replace("const y = 2", "const y = 20");
+    assert.deepEqual(mergeThreeWay(base, edited, edited), { merged: edited, conflicts: 0 });
+  });
+
+  it("marks overlapping edits as a conflict, diff3 style", () => {
+    const local = base.replace("const y = 2", "const y = 20");
+    const upstream = base.replace("const y = 2", "const y = 200");
+
+    assert.deepEqual(mergeThreeWay(base, local, upstream, { local: "yours", base: "installed", upstream: "current" }), {
+      merged:
+        "import a\nconst x = 1\n<<<<<<< yours\nconst y = 20\n||||||| installed\nconst y = 2\n=======\nconst y = 200\n>>>>>>> current\nconst z = 3\nexport { x }\n",
+      conflicts: 1,
+    });
+  });
+
+  it("counts every conflicting region", () => {
+    const local = base.replace("import a", "import A").replace("export { x }", "export { x as X }");
+    const upstream = base.replace("import a", "import aa").replace("export { x }", "export { x as x1 }");
+
+    assert.equal(mergeThreeWay(base, local, upstream).conflicts, 2);
+  });
+});
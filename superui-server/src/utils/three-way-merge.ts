@@ -0,0 +1,143 @@
+/**
+ * Three-way merge utility for SuperUI API Server
+ * Merges local and upstream edits of a common base version line by line, marking overlapping edits diff3 style
+ */
+
+import { diffLines, toLines } from "./unified-diff.js";
+
+/**
+ * Edit of one side: base lines [start, end) replaced by `lines`
+ */
+interface Hunk {
+  side: "local" | "upstream";
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface MergeLabels {
+  local: string;
+  base: string;
+  upstream: string;
+}
+
+export interface ThreeWayMerge {
+  /** Merged text; overlapping edits are wrapped in `<<<<<<<`, `|||||||`, `=======`, `>>>>>>>` markers */
+  merged: string;
+  conflicts: number;
+}
+
+/**
+ * Collect the edits that turn the base into another version
+ * @param side - Side the edits belong to
+ * @param base - Base lines
+ * @param other - Edited lines
+ * @returns Edits in base order
+ */
+function getHunks(side: Hunk["side"], base: string[], other: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+
+  for (const line of diffLines(base, other)) {
+    if (line.type === " ") {
+      current = null;
+      index++;
+      continue;
+    }
+    if (!current) {
+      current = { side, start: index, end: index, lines: [] };
+      hunks.push(current);
+    }
+    if (line.type === "-") {
+      current.end = ++index;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Apply one side's edits to a base range
+ * @param base - Base lines
+ * @param hunks - Edits of one side inside the range, in base order
+ * @param start - Range start
+ * @param end - Range end (exclusive)
+ * @returns Lines of the range after the edits
+ */
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const result: string[] = [];
+  let index = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(index, hunk.start), ...hunk.lines);
+    index = hunk.end;
+  }
+  result.push(...base.slice(index, end));
+  return result;
+}
+
+/**
+ * Merge local and upstream edits of a base version
+ * Edits to separate regions are both applied; edits that overlap or touch are a conflict unless they are identical
+ * @param baseText - Common ancestor
+ * @param localText - Locally edited version
+ * @param upstreamText - Upstream version
+ * @param labels - Names shown after the conflict markers
+ * @returns Merged text and the number of conflicts
+ */
+export function mergeThreeWay(
+  baseText: string,
+  localText: string,
+  upstreamText: string,
+  labels: MergeLabels = { local: "local", base: "base", upstream: "upstream" }
+): ThreeWayMerge {
+  const base = toLines(baseText);
+  const hunks = [...getHunks("local", base, toLines(localText)), ...getHunks("upstream", base, toLines(upstreamText))].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  );
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let index = 0;
+  let next = 0;
+
+  while (next < hunks.length) {
+    // Group edits whose base ranges overlap or touch
+    const start = hunks[next].start;
+    let end = hunks[next].end;
+    const group: Hunk[] = [];
+    while (next < hunks.length && hunks[next].start <= end) {
+      end = Math.max(end, hunks[next].end);
+      group.push(hunks[next++]);
+    }
+
+    const local = applyHunks(
+      base,
+      group.filter((hunk) => hunk.side === "local"),
+      start,
+      end
+    );
+    const upstream = applyHunks(
+      base,
+      group.filter((hunk) => hunk.side === "upstream"),
+      start,
+      end
+    );
+    const original = base.slice(start, end);
+    output.push(...base.slice(index, start));
+
+    if (!group.some((hunk) => hunk.side === "local") || local.join("\n") === upstream.join("\n")) {
+      output.push(...upstream);
+    } else if (!group.some((hunk) => hunk.side === "upstream")) {
+      output.push(...local);
+    } else {
+      conflicts++;
+      output.push(`<<<<<<< ${labels.local}`, ...local, `||||||| ${labels.base}`, ...original, "=======", ...upstream, `>>>>>>> ${labels.upstream}`);
+    }
+    index = end;
+  }
+  output.push(...base.slice(index));
+
+  return { merged: output.length > 0 ? `${output.join("\n")}\n` : "", conflicts };
+}
@@ -0,0 +1,59 @@
+/**
+ * Behaviour checks for line diffs and unified diff output
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createUnifiedDiff, diffLines, toLines } from "./unified-diff.js";
+
+describe("toLines", () => {
+  it("splits on line endings and ignores the final newline", () => {
+    assert.deepEqual(toLines(""), []);
+    assert.deepEqual(toLines("a\nb\n"), ["a", "b"]);
+    assert.deepEqual(toLines("a\r\nb"), ["a", "b"]);
+  });
+});
+
+describe("diffLines", () => {
+  it("keeps the lines both versions share and marks the rest", () => {
+    const oldLines = ["import a", "const x = 1", "const y = 2", "export { x }", "// end"];
+    const newLines = ["import a", "import b", "const x = 1", "export { x, b }", "// end"];
+    const lines = diffLines(oldLines, newLines);
+
+    assert.deepEqual(
+      lines.filter((line) => line.type !== "+").map((line) => line.text),
+      oldLines
+    );
+    assert.deepEqual(
+      lines.filter((line) => line.type !== "-").map((line) => line.text),
+      newLines
+    );
+    assert.equal(lines.filter((line) => line.type === " ").length, 3);
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  it("returns an empty string when nothing changes", () => {
+    assert.equal(createUnifiedDiff("button.tsx", "a\nb\n", "a\r\nb\r\n"), "");
+  });
+
+  it("shows a changed line with its context", () => {
+    assert.equal(createUnifiedDiff("button.tsx", "a\nb\nc\n", "a\nB\nc\n"), "--- a/button.tsx\n+++ b/button.tsx\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c");
+  });
+
+  it("diffs added and removed files against /dev/null", () => {
+    assert.equal(createUnifiedDiff("button.tsx", null, "x\n"), "--- /dev/null\n+++ b/button.tsx\n@@ -0,0 +1,1 @@\n+x");
+    assert.equal(createUnifiedDiff("button.tsx", "x\n", null), "--- a/button.tsx\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-x");
+  });
+
+  it("splits distant changes into hunks with three lines of context", () => {
+    const oldLines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+    const newLines = oldLines.map((line, index) => (index === 1 || index === 17 ? line.toUpperCase() : line));
+    const diff = createUnifiedDiff("button.tsx", `${oldLines.join("\n")}\n`, `${newLines.join("\n")}\n`);
+
+    assert.deepEqual(
+      diff.split("\n").filter((line) => line.startsWith("@@")),
+      ["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]
+    );
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unified diff utility for SuperUI API Server
+ * Diffs two versions of a text file, e.g. a registry item file between two recorded versions
+ * The MCP tools get their diffs from POST /api/project/diff, so this is the only implementation
+ */
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+/** Largest changed region (old lines × new lines) diffed line by line; larger regions are shown as replaced */
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type DiffLine = { type: " " | "-" | "+"; text: string };
+
+/**
+ * Split text into lines, ignoring the final newline
+ * @param text - File contents
+ * @returns Lines
+ */
+export const toLines = (text: string): string[] => {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines;
+};
+
+/**
+ * Diff two line arrays with a longest common subsequence
+ * @param oldLines - Original lines
+ * @param newLines - Updated lines
+ * @returns Every line marked as kept, removed or added
+ */
+export const diffLines = (oldLines: string[], newLines: string[]): DiffLine[] => {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const middle: DiffLine[] = [];
+
+  if ((oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_DIFF_CELLS) {
+    middle.push(...oldMiddle.map((text) => ({ type: "-" as const, text })), ...newMiddle.map((text) => ({ type: "+" as const, text })));
+  } else {
+    // lengths[i * width + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = newMiddle.length + 1;
+    const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          oldMiddle[i] === newMiddle[j] ? lengths[(i + 1) * width + j + 1] + 1 : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: " ", text: oldMiddle[i++] });
+        j++;
+      } else if (i < oldMiddle.length && (j === newMiddle.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        middle.push({ type: "-", text: oldMiddle[i++] });
+      } else {
+        middle.push({ type: "+", text: newMiddle[j++] });
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map((text) => ({ type: " " as const, text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map((text) => ({ type: " " as const, text })),
+  ];
+};
+
+/**
+ * Create a unified diff between two versions of a file
+ * @param filePath - Path shown in the diff header (relative to the project root)
+ * @param oldText - Old contents, or null when the file is added
+ * @param newText - New contents, or null when the file is removed
+ * @returns Unified diff, or an empty string when nothing changes
+ */
+export const createUnifiedDiff = (filePath: string, oldText: string | null, newText: string | null): string => {
+  const lines = diffLines(toLines(oldText ?? ""), toLines(newText ?? ""));
+  const changes = lines.flatMap((line, index) => (line.type === " " ? [] : [index]));
+  if (changes.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context overlaps into hunks
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changes) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last.end <= CONTEXT_LINES * 2) {
+      last.end = index + 1;
+    } else {
+      ranges.push({ start: index, end: index + 1 });
+    }
+  }
+
+  const hunks = ranges.map(({ start, end }) => {
+    const from = Math.max(0, start - CONTEXT_LINES);
+    const to = Math.min(lines.length, end + CONTEXT_LINES);
+    const before = lines.slice(0, from);
+    const hunkLines = lines.slice(from, to);
+    const oldStart = before.filter((line) => line.type !== "+").length;
+    const newStart = before.filter((line) => line.type !== "-").length;
+    const oldCount = hunkLines.filter((line) => line.type !== "+").length;
+    const newCount = hunkLines.filter((line) => line.type !== "-").length;
+
+    // Ranges of zero lines point at the line before them
+    const header = `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`;
+    return [header, ...hunkLines.map((line) => `${line.type}${line.text}`)].join("\n");
+  });
+
+  return [`--- ${oldText === null ? "/dev/null" : `a/${filePath}`}`, `+++ ${newText === null ? "/dev/null" : `b/${filePath}`}`, ...hunks].join("\n");
+};
@@ -0,0 +1,54 @@
+/**
+ * Usage example selection for SuperUI API Server
+ * Picks the catalog example that best fits a requested scenario ("controlled", "with react-hook-form")
+ */
+
+import { ComponentExample } from "./component-catalog.js";
+import { tokenize } from "./text-analysis.js";
+
+/** Scenario terms found in an example name or tag count more than terms found in its description */
+const NAME_MATCH_WEIGHT = 2;
+
+export interface ExampleSelection {
+  examples: ComponentExample[];
+  /** False when a scenario was given but no example matched it, so every example is returned */
+  matched: boolean;
+}
+
+/**
+ * Score how well an example fits a scenario
+ * @param example - Usage example
+ * @param scenarioTerms - Tokenized scenario
+ * @returns Weighted number of scenario terms the example mentions
+ */
+function scoreExample(example: ComponentExample, scenarioTerms: string[]): number {
+  const nameTerms = new Set(tokenize([example.name, ...(example.tags ?? [])].join(" ")));
+  const descriptionTerms = new Set(tokenize(example.description ?? ""));
+
+  return scenarioTerms.reduce((score, term) => score + (nameTerms.has(term) ? NAME_MATCH_WEIGHT : descriptionTerms.has(term) ? 1 : 0), 0);
+}
+
+/**
+ * Select the usage example matching a scenario
+ * @param examples - Examples of a component
+ * @param scenario - Requested scenario, e.g. "react-hook-form" or "disabled state"
+ * @returns The best matching example, or every example when no scenario is given or none matches
+ */
+export function selectExamples(examples: ComponentExample[], scenario?: string): ExampleSelection {
+  const scenarioTerms = scenario ? tokenize(scenario) : [];
+  if (scenarioTerms.length === 0) {
+    return { examples, matched: scenario === undefined };
+  }
+
+  let best: ComponentExample | null = null;
+  let bestScore = 0;
+  for (const example of examples) {
+    const score = scoreExample(example, scenarioTerms);
+    if (score > bestScore) {
+      best = example;
+      bestScore = score;
+    }
+  }
+
+  return best ? { examples: [best], matched: true } : { examples, matched: false };
+}